@@ -0,0 +1,130 @@
+import { MouseEvent, useEffect, useRef } from 'react';
+import { HurricaneCategory, HurricaneEvent } from '@/lib/simulationEngine';
+import { categoryColor } from '@/lib/hurricaneCategories';
+import { IslandSite } from '@/lib/hurricaneTracks';
+
+interface ArchipelagoMapProps {
+  sites: IslandSite[];
+  hurricanes: HurricaneEvent[];
+  categories: HurricaneCategory[];
+  island: number | null;            // Highlighted island, null for none
+  onSelectIsland: (island: number | null) => void;
+}
+
+// Only the most recent storm paths are drawn, so the map stays readable
+const MAX_TRACKS = 50;
+
+export default function ArchipelagoMap({
+  sites,
+  hurricanes,
+  categories,
+  island,
+  onSelectIsland
+}: ArchipelagoMapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const tracks = hurricanes.filter(h => h.track).slice(-MAX_TRACKS);
+
+  // Map from kilometres to pixels, keeping the aspect ratio
+  const project = (width: number, height: number) => {
+    const padding = 30;
+    const xs = sites.map(site => site.x);
+    const ys = sites.map(site => site.y);
+    const xMin = Math.min(...xs);
+    const yMin = Math.min(...ys);
+    const span = Math.max(Math.max(...xs) - xMin, Math.max(...ys) - yMin, 1);
+    const scale = Math.min(width - 2 * padding, height - 2 * padding) / span;
+    const x0 = (width - scale * (Math.max(...xs) - xMin)) / 2;
+    const y0 = (height + scale * (Math.max(...ys) - yMin)) / 2;
+    return (x: number, y: number) => ({
+      px: x0 + (x - xMin) * scale,
+      py: y0 - (y - yMin) * scale
+    });
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas size
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    const width = rect.width;
+    const height = rect.height;
+
+    // Sea
+    ctx.fillStyle = '#eff6ff';
+    ctx.fillRect(0, 0, width, height);
+
+    if (sites.length === 0) return;
+    const toCanvas = project(width, height);
+
+    // Storm paths, oldest first so the latest is drawn on top
+    tracks.forEach((h, k) => {
+      const latest = k === tracks.length - 1;
+      const start = toCanvas(h.track!.x0, h.track!.y0);
+      const end = toCanvas(h.track!.x1, h.track!.y1);
+      ctx.strokeStyle = categoryColor(categories, h.category);
+      ctx.globalAlpha = latest ? 0.9 : 0.25;
+      ctx.lineWidth = latest ? 3 : 1.5;
+      ctx.beginPath();
+      ctx.moveTo(start.px, start.py);
+      ctx.lineTo(end.px, end.py);
+      ctx.stroke();
+    });
+    ctx.globalAlpha = 1;
+
+    // Islands, with radius growing with the square root of their area
+    const meanArea = sites.reduce((sum, site) => sum + site.area, 0) / sites.length;
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    sites.forEach((site, k) => {
+      const { px, py } = toCanvas(site.x, site.y);
+      const radius = 6 * Math.min(3, Math.max(0.5, Math.sqrt(site.area / meanArea)));
+      ctx.fillStyle = '#86efac';
+      ctx.strokeStyle = island === k ? '#1d4ed8' : '#15803d';
+      ctx.lineWidth = island === k ? 3 : 1.5;
+      ctx.beginPath();
+      ctx.arc(px, py, radius, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = '#374151';
+      ctx.fillText(site.name, px, py + radius + 3);
+    });
+  }, [sites, hurricanes, categories, island]);
+
+  // Select the island under the pointer, or clear the selection
+  const handleClick = (e: MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const toCanvas = project(rect.width, rect.height);
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    let nearest: number | null = null;
+    let best = 20;
+    sites.forEach((site, k) => {
+      const { px, py } = toCanvas(site.x, site.y);
+      const distance = Math.hypot(px - x, py - y);
+      if (distance < best) {
+        best = distance;
+        nearest = k;
+      }
+    });
+    onSelectIsland(nearest);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className="w-full h-full cursor-pointer"
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
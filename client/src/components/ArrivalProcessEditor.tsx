@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { logGamma } from '@/lib/specialFunctions';
+import {
+  ARRIVAL_PROCESS_LABELS,
+  ArrivalProcess,
+  ArrivalProcessType,
+  parseCatalogueCSV
+} from '@/lib/arrivalProcesses';
+
+interface ArrivalProcessEditorProps {
+  process: ArrivalProcess;
+  onChange: (process: ArrivalProcess) => void;
+  idPrefix?: string;          // Keeps element ids unique when editing several processes
+  eventName?: string;         // Kind of event timed, in the singular
+}
+
+/**
+ * Coefficient of variation of the gaps of a renewal process
+ * 1 for Poisson arrivals; above 1 the hurricanes cluster, below 1 they are regular.
+ */
+function gapVariation(process: ArrivalProcess): number {
+  const k = process.shape;
+  if (process.type === 'gamma') return 1 / Math.sqrt(k);
+  return Math.sqrt(Math.exp(logGamma(1 + 2 / k) - 2 * logGamma(1 + 1 / k)) - 1);
+}
+
+export default function ArrivalProcessEditor({
+  process,
+  onChange,
+  idPrefix = '',
+  eventName = 'hurricane'
+}: ArrivalProcessEditorProps) {
+  const [error, setError] = useState<string>('');
+  const events = `${eventName}s`;
+
+  const update = (change: Partial<ArrivalProcess>) => onChange({ ...process, ...change });
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      setError('');
+      update({ type: 'catalogue', catalogue: parseCatalogueCSV(await file.text()) });
+    } catch (err) {
+      setError(`Error loading catalogue: ${(err as Error).message}`);
+    }
+  };
+
+  const slider = (
+    key: 'excitation' | 'decay' | 'shape',
+    label: string,
+    min: number,
+    max: number,
+    step: number
+  ) => (
+    <div>
+      <Label htmlFor={`${idPrefix}arrival-${key}`} className="text-xs">
+        {label}: {process[key].toFixed(2)}
+      </Label>
+      <Slider
+        id={`${idPrefix}arrival-${key}`}
+        min={min}
+        max={max}
+        step={step}
+        value={[process[key]]}
+        onValueChange={([value]) => update({ [key]: value })}
+      />
+    </div>
+  );
+
+  const catalogue = process.catalogue;
+  const recordYears = catalogue ? Math.floor(catalogue[catalogue.length - 1]) + 1 : 0;
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={process.type}
+        onValueChange={(value) => update({ type: value as ArrivalProcessType })}
+      >
+        <SelectTrigger id={`${idPrefix}arrivalProcess`} aria-label="Arrival process">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(ARRIVAL_PROCESS_LABELS) as ArrivalProcessType[]).map(type => (
+            <SelectItem
+              key={type}
+              value={type}
+              disabled={type === 'catalogue' && !process.catalogue}
+            >
+              {ARRIVAL_PROCESS_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {process.type === 'hawkes' && (
+        <>
+          {slider('excitation', `Excitation (triggered per ${eventName})`, 0, 0.95, 0.05)}
+          {slider('decay', 'Decay rate (per year)', 0.5, 24, 0.5)}
+          <div className="text-xs text-gray-600">
+            Each {eventName} raises the rate for about {(12 / process.decay).toFixed(1)} months.
+            Clusters average {(1 / (1 - process.excitation)).toFixed(1)} {events}; the background
+            rate is lowered so the long-run rate stays λ.
+          </div>
+        </>
+      )}
+
+      {(process.type === 'weibull' || process.type === 'gamma') && (
+        <>
+          {slider('shape', 'Shape', 0.2, 5, 0.05)}
+          <div className="text-xs text-gray-600">
+            Gaps average 1/λ with coefficient of variation {gapVariation(process).toFixed(2)}:
+            above 1 {events} cluster, below 1 they come more regularly than Poisson.
+          </div>
+        </>
+      )}
+
+      {process.type === 'catalogue' && catalogue && (
+        <>
+          <div className="flex items-center gap-1.5">
+            <Checkbox
+              id={`${idPrefix}catalogueRepeat`}
+              checked={process.repeat}
+              onCheckedChange={(checked) => update({ repeat: checked === true })}
+            />
+            <Label htmlFor={`${idPrefix}catalogueRepeat`} className="text-xs">
+              Repeat the record when the run outlasts it
+            </Label>
+          </div>
+          <div className="text-xs text-gray-600">
+            {catalogue.length} {events} over {recordYears} years
+            ({(catalogue.length / recordYears).toFixed(2)} per year), replayed in place of λ.
+          </div>
+        </>
+      )}
+
+      <div>
+        <Label htmlFor={`${idPrefix}file-catalogue`} className="text-xs">
+          Event catalogue CSV{catalogue ? ` ✓ (${catalogue.length} events)` : ''}
+        </Label>
+        <input
+          id={`${idPrefix}file-catalogue`}
+          type="file"
+          accept=".csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFileUpload(file);
+          }}
+          className="block w-full text-sm text-gray-600 file:mr-4 file:py-1 file:px-3 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-gray-200 file:text-gray-700 hover:file:bg-gray-300 mt-1"
+        />
+        <div className="text-xs text-gray-600 mt-1">
+          One {eventName} per row: a date (YYYY-MM-DD), year with optional month and day
+          columns, or decimal years. Times count from the start of the first year.
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
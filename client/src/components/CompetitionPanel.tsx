@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  BipartiteNetwork,
+  CompetitionModel,
+  CompetitionStructure,
+  buildInteractionMatrix,
+  parseLabeledCSV
+} from '@/lib/networkBuilder';
+
+interface CompetitionPanelProps {
+  network: BipartiteNetwork | null;  // Null for the generated network, which has no guilds
+  competition: CompetitionStructure;
+  onChange: (competition: CompetitionStructure) => void;
+}
+
+const MODEL_LABELS: Record<CompetitionModel, string> = {
+  uniform: 'Uniform within layers',
+  nicheOverlap: 'Niche overlap (shared partners)',
+  custom: 'Custom matrices (CSV)'
+};
+
+type Guild = 'plantMatrix' | 'animalMatrix';
+
+export default function CompetitionPanel({ network, competition, onChange }: CompetitionPanelProps) {
+  const [error, setError] = useState<string>('');
+
+  // Only pass on structures that fit the current network
+  const apply = (next: CompetitionStructure) => {
+    if (network) {
+      try {
+        buildInteractionMatrix(network, { m: 0, d: 0, c: 0, competition: next });
+      } catch (err) {
+        setError((err as Error).message);
+        return;
+      }
+    }
+    setError('');
+    onChange(next);
+  };
+
+  const handleFileUpload = async (file: File, guild: Guild) => {
+    try {
+      const matrix = parseLabeledCSV(await file.text());
+      apply({ ...competition, model: 'custom', [guild]: matrix });
+    } catch (err) {
+      setError(`Error loading competition matrix: ${(err as Error).message}`);
+    }
+  };
+
+  const matrixSize = (guild: Guild) => {
+    const labeled = competition[guild];
+    return labeled ? ` ✓ (${labeled.matrix.length} species)` : '';
+  };
+
+  if (!network) {
+    return (
+      <div className="p-4 bg-gray-50 rounded-lg border text-xs text-gray-600">
+        Competition models need a plant-animal network; the generated network uses
+        a single competition strength.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+      <h4 className="font-semibold">Competition Structure</h4>
+
+      <div>
+        <Label htmlFor="competitionModel" className="text-sm">Model</Label>
+        <Select
+          value={competition.model}
+          onValueChange={(value) => apply({ ...competition, model: value as CompetitionModel })}
+        >
+          <SelectTrigger id="competitionModel">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MODEL_LABELS) as CompetitionModel[]).map(model => (
+              <SelectItem key={model} value={model}>{MODEL_LABELS[model]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {competition.model === 'nicheOverlap' && (
+        <div className="text-xs text-gray-600">
+          Competition between two species is scaled by the overlap of their partners
+          in each layer: species sharing no partners do not compete.
+        </div>
+      )}
+
+      {competition.model === 'custom' && (
+        <div className="space-y-3">
+          {([
+            { guild: 'plantMatrix', label: 'Plant competition' },
+            { guild: 'animalMatrix', label: 'Animal competition' }
+          ] as const).map(({ guild, label }) => (
+            <div key={guild}>
+              <Label htmlFor={`file-${guild}`} className="text-sm">
+                {label}{matrixSize(guild)}
+              </Label>
+              <input
+                id={`file-${guild}`}
+                type="file"
+                accept=".csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFileUpload(file, guild);
+                }}
+                className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-gray-200 file:text-gray-700 hover:file:bg-gray-300 mt-1"
+              />
+            </div>
+          ))}
+          <div className="text-xs text-gray-600">
+            Square matrices of competition coefficients, matched to the network by species
+            name or in network order. Off-diagonal values are competition magnitudes; a
+            nonzero diagonal sets that species' self-regulation. A guild without a matrix
+            keeps uniform competition.
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,49 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import HurricaneCategoryEditor from '@/components/HurricaneCategoryEditor';
+import DamageDistributionEditor from '@/components/DamageDistributionEditor';
+import HazardRegimeEditor from '@/components/HazardRegimeEditor';
+import ArrivalProcessEditor from '@/components/ArrivalProcessEditor';
+import HazardPanel from '@/components/HazardPanel';
+import { FunctionalResponseType } from '@/lib/ecologyModel';
+import { HurricaneCategory } from '@/lib/simulationEngine';
+import { DamageDistribution } from '@/lib/damageDistributions';
+import { HazardRegime } from '@/lib/hazardRegimes';
+import { ArrivalProcess } from '@/lib/arrivalProcesses';
+import { HazardType } from '@/lib/hazardTypes';
+import {
+  BipartiteNetwork,
+  LabeledMatrix,
+  buildHandlingMatrix,
+  getNetworkStats,
+  parseLabeledCSV
+} from '@/lib/networkBuilder';
 
 export interface ControlParams {
   nSpecies: number;
   mutualisticStrength: number;
   dispersalStrength: number;
   competitionStrength: number;
+  animalCompetitionStrength: number;
+  plantSelfRegulation: number;
+  animalSelfRegulation: number;
   halfSaturation: number;
+  responseExponent: number;
+  interference: number;
   hurricaneRate: number;
-  cat1Prob: number;
-  cat1Damage: number;
-  cat2Prob: number;
-  cat2Damage: number;
-  cat3Prob: number;
-  cat3Damage: number;
+  plantVulnerability: number;
+  pollinatorVulnerability: number;
+  disperserVulnerability: number;
+  traitExponent: number;
+  damageVariation: number;
+  plantMigration: number;
+  pollinatorMigration: number;
+  disperserMigration: number;
   simulationSpeed: number;
+  historyRetention: number;  // Maximum history points kept
 }
 
 interface ControlPanelProps {
@@ -27,8 +54,42 @@ interface ControlPanelProps {
   onReset?: () => void;
   isRunning?: boolean;
   useCustomNetwork?: boolean;
+  functionalResponse: FunctionalResponseType;
+  onFunctionalResponseChange: (type: FunctionalResponseType) => void;
+  network?: BipartiteNetwork | null;      // Network the handling times must match
+  handlingTimes: LabeledMatrix | null;
+  onHandlingTimesChange: (times: LabeledMatrix | null) => void;
+  hurricaneCategories: HurricaneCategory[];
+  onHurricaneCategoriesChange: (categories: HurricaneCategory[]) => void;
+  damageDistribution: DamageDistribution;
+  onDamageDistributionChange: (distribution: DamageDistribution) => void;
+  hazardRegime: HazardRegime;
+  onHazardRegimeChange: (regime: HazardRegime) => void;
+  arrivalProcess: ArrivalProcess;
+  onArrivalProcessChange: (process: ArrivalProcess) => void;
+  hazardTypes: HazardType[];
+  onHazardTypesChange: (types: HazardType[]) => void;
 }
 
+const VULNERABILITY_SLIDERS: Array<{
+  key: 'plantVulnerability' | 'pollinatorVulnerability' | 'disperserVulnerability';
+  label: string;
+}> = [
+  { key: 'plantVulnerability', label: 'Plants' },
+  { key: 'pollinatorVulnerability', label: 'Pollinators' },
+  { key: 'disperserVulnerability', label: 'Seed dispersers' }
+];
+
+// Choices for the history kept by the engine; older points are dropped
+const RETENTION_OPTIONS = [10_000, 50_000, 200_000, 1_000_000];
+
+const RESPONSE_LABELS: Record<FunctionalResponseType, string> = {
+  typeI: 'Type I (linear)',
+  typeII: 'Type II (saturating)',
+  typeIII: 'Type III (sigmoid)',
+  beddingtonDeAngelis: 'Beddington–DeAngelis'
+};
+
 export default function ControlPanel({
   params,
   onParamChange,
@@ -36,8 +97,39 @@ export default function ControlPanel({
   onPause,
   onReset,
   isRunning,
-  useCustomNetwork = false
+  useCustomNetwork = false,
+  functionalResponse,
+  onFunctionalResponseChange,
+  network = null,
+  handlingTimes,
+  onHandlingTimesChange,
+  hurricaneCategories,
+  onHurricaneCategoriesChange,
+  damageDistribution,
+  onDamageDistributionChange,
+  hazardRegime,
+  onHazardRegimeChange,
+  arrivalProcess,
+  onArrivalProcessChange,
+  hazardTypes,
+  onHazardTypesChange
 }: ControlPanelProps) {
+  const [handlingError, setHandlingError] = useState<string>('');
+
+  const handleHandlingUpload = async (file: File) => {
+    try {
+      setHandlingError('');
+      const times = parseLabeledCSV(await file.text());
+      // Only checks the file against the network; the model fills in each species' h
+      if (network) {
+        buildHandlingMatrix(network, times, Array(getNetworkStats(network).nTotal).fill(params.halfSaturation));
+      }
+      onHandlingTimesChange(times);
+    } catch (err) {
+      setHandlingError(`Error loading handling times: ${(err as Error).message}`);
+    }
+  };
+
   return (
     <div className="space-y-4 p-4 bg-gray-50 rounded-lg border">
       <h3 className="text-lg font-semibold">Parameters</h3>
@@ -66,6 +158,25 @@ export default function ControlPanel({
             ✓ Using custom network from uploaded matrices
           </div>
         )}
+
+        <div>
+          <Label htmlFor="historyRetention">History Kept (points)</Label>
+          <Select
+            value={params.historyRetention.toString()}
+            onValueChange={(value) => onParamChange('historyRetention', parseInt(value))}
+          >
+            <SelectTrigger id="historyRetention">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETENTION_OPTIONS.map(points => (
+                <SelectItem key={points} value={points.toString()}>
+                  {points.toLocaleString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <div>
@@ -101,7 +212,8 @@ export default function ControlPanel({
 
           <div>
             <Label htmlFor="compStrength">
-              Competition Strength (c): {params.competitionStrength.toFixed(2)}
+              {useCustomNetwork ? 'Plant Competition (c)' : 'Competition Strength (c)'}:{' '}
+              {params.competitionStrength.toFixed(2)}
             </Label>
             <Slider
               id="compStrength"
@@ -113,6 +225,52 @@ export default function ControlPanel({
             />
           </div>
 
+          {useCustomNetwork && (
+            <>
+              <div>
+                <Label htmlFor="animalCompStrength">
+                  Animal Competition: {params.animalCompetitionStrength.toFixed(2)}
+                </Label>
+                <Slider
+                  id="animalCompStrength"
+                  min={-2}
+                  max={0}
+                  step={0.05}
+                  value={[params.animalCompetitionStrength]}
+                  onValueChange={([value]) => onParamChange('animalCompetitionStrength', value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="plantSelfReg">
+                  Plant Self-Regulation: {params.plantSelfRegulation.toFixed(2)}
+                </Label>
+                <Slider
+                  id="plantSelfReg"
+                  min={0.1}
+                  max={2}
+                  step={0.05}
+                  value={[params.plantSelfRegulation]}
+                  onValueChange={([value]) => onParamChange('plantSelfRegulation', value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="animalSelfReg">
+                  Animal Self-Regulation: {params.animalSelfRegulation.toFixed(2)}
+                </Label>
+                <Slider
+                  id="animalSelfReg"
+                  min={0.1}
+                  max={2}
+                  step={0.05}
+                  value={[params.animalSelfRegulation]}
+                  onValueChange={([value]) => onParamChange('animalSelfRegulation', value)}
+                />
+              </div>
+            </>
+          )}
+
           <div>
             <Label htmlFor="halfSat">
               Half-Saturation (h): {params.halfSaturation.toFixed(2)}
@@ -126,6 +284,91 @@ export default function ControlPanel({
               onValueChange={([value]) => onParamChange('halfSaturation', value)}
             />
           </div>
+
+          <div>
+            <Label htmlFor="functionalResponse">Functional Response</Label>
+            <Select
+              value={functionalResponse}
+              onValueChange={(value) => onFunctionalResponseChange(value as FunctionalResponseType)}
+            >
+              <SelectTrigger id="functionalResponse">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RESPONSE_LABELS) as FunctionalResponseType[]).map(type => (
+                  <SelectItem key={type} value={type}>{RESPONSE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {functionalResponse === 'typeIII' && (
+            <div>
+              <Label htmlFor="responseExponent">
+                Type III Exponent (q): {params.responseExponent.toFixed(2)}
+              </Label>
+              <Slider
+                id="responseExponent"
+                min={1}
+                max={4}
+                step={0.1}
+                value={[params.responseExponent]}
+                onValueChange={([value]) => onParamChange('responseExponent', value)}
+              />
+            </div>
+          )}
+
+          {functionalResponse === 'beddingtonDeAngelis' && (
+            <div>
+              <Label htmlFor="interference">
+                Interference (β): {params.interference.toFixed(2)}
+              </Label>
+              <Slider
+                id="interference"
+                min={0}
+                max={2}
+                step={0.05}
+                value={[params.interference]}
+                onValueChange={([value]) => onParamChange('interference', value)}
+              />
+            </div>
+          )}
+
+          {useCustomNetwork && functionalResponse !== 'typeI' && (
+            <div>
+              <Label htmlFor="file-handling" className="text-sm">
+                Per-link Handling Times (CSV) {handlingTimes && '✓'}
+              </Label>
+              <input
+                id="file-handling"
+                type="file"
+                accept=".csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleHandlingUpload(file);
+                }}
+                className="block w-full text-sm text-gray-600 file:mr-4 file:py-1 file:px-3 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-gray-200 file:text-gray-700 hover:file:bg-gray-300 mt-1"
+              />
+              <div className="text-xs text-gray-600 mt-1">
+                Plants × animals, like B and S. Links not in the file use h.
+              </div>
+              {handlingTimes && (
+                <Button
+                  onClick={() => onHandlingTimesChange(null)}
+                  variant="outline"
+                  size="sm"
+                  className="w-full mt-1"
+                >
+                  Use h for all links
+                </Button>
+              )}
+              {handlingError && (
+                <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200 mt-1">
+                  {handlingError}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -147,96 +390,102 @@ export default function ControlPanel({
           </div>
 
           <div className="space-y-3 pt-2">
-            <div className="text-sm font-medium">Category 1 (Yellow)</div>
-            <div>
-              <Label htmlFor="cat1Prob" className="text-xs">
-                Probability: {params.cat1Prob.toFixed(2)}
-              </Label>
-              <Slider
-                id="cat1Prob"
-                min={0}
-                max={1}
-                step={0.05}
-                value={[params.cat1Prob]}
-                onValueChange={([value]) => onParamChange('cat1Prob', value)}
-              />
-            </div>
-            <div>
-              <Label htmlFor="cat1Damage" className="text-xs">
-                Damage: {(params.cat1Damage * 100).toFixed(0)}%
-              </Label>
-              <Slider
-                id="cat1Damage"
-                min={0}
-                max={1}
-                step={0.05}
-                value={[params.cat1Damage]}
-                onValueChange={([value]) => onParamChange('cat1Damage', value)}
-              />
-            </div>
+            <div className="text-sm font-medium">Arrival Process</div>
+            <ArrivalProcessEditor
+              process={arrivalProcess}
+              onChange={onArrivalProcessChange}
+            />
           </div>
 
           <div className="space-y-3 pt-2">
-            <div className="text-sm font-medium">Category 2 (Orange)</div>
-            <div>
-              <Label htmlFor="cat2Prob" className="text-xs">
-                Probability: {params.cat2Prob.toFixed(2)}
-              </Label>
-              <Slider
-                id="cat2Prob"
-                min={0}
-                max={1}
-                step={0.05}
-                value={[params.cat2Prob]}
-                onValueChange={([value]) => onParamChange('cat2Prob', value)}
-              />
-            </div>
-            <div>
-              <Label htmlFor="cat2Damage" className="text-xs">
-                Damage: {(params.cat2Damage * 100).toFixed(0)}%
-              </Label>
-              <Slider
-                id="cat2Damage"
-                min={0}
-                max={1}
-                step={0.05}
-                value={[params.cat2Damage]}
-                onValueChange={([value]) => onParamChange('cat2Damage', value)}
-              />
-            </div>
+            <div className="text-sm font-medium">Hazard Regime</div>
+            <HazardRegimeEditor
+              regime={hazardRegime}
+              onChange={onHazardRegimeChange}
+              hurricaneRate={params.hurricaneRate}
+              categories={hurricaneCategories}
+              damageDistribution={damageDistribution}
+            />
+          </div>
+
+          <div className="space-y-3 pt-2">
+            <div className="text-sm font-medium">Categories</div>
+            <HurricaneCategoryEditor
+              categories={hurricaneCategories}
+              onChange={onHurricaneCategoriesChange}
+            />
           </div>
 
           <div className="space-y-3 pt-2">
-            <div className="text-sm font-medium">Category 3 (Red)</div>
+            <div className="text-sm font-medium">Damage Distribution</div>
+            <DamageDistributionEditor
+              distribution={damageDistribution}
+              onChange={onDamageDistributionChange}
+              categories={hurricaneCategories}
+            />
+          </div>
+
+          <div className="space-y-3 pt-2">
+            <div className="text-sm font-medium">Species Vulnerability</div>
+            <div className="text-xs text-gray-600">
+              Each species' damage is the hurricane damage times its guild multiplier,
+              its own vulnerability and its trait scaling, set in the species table.
+            </div>
+            {VULNERABILITY_SLIDERS
+              .filter(({ key }) => useCustomNetwork || key === 'plantVulnerability')
+              .map(({ key, label }) => (
+                <div key={key}>
+                  <Label htmlFor={key} className="text-xs">
+                    {useCustomNetwork ? label : 'Vulnerability'}: {params[key].toFixed(2)}×
+                  </Label>
+                  <Slider
+                    id={key}
+                    min={0}
+                    max={2}
+                    step={0.05}
+                    value={[params[key]]}
+                    onValueChange={([value]) => onParamChange(key, value)}
+                  />
+                </div>
+              ))}
             <div>
-              <Label htmlFor="cat3Prob" className="text-xs">
-                Probability: {params.cat3Prob.toFixed(2)}
+              <Label htmlFor="traitExponent" className="text-xs">
+                Trait Exponent: {params.traitExponent.toFixed(2)}
               </Label>
               <Slider
-                id="cat3Prob"
-                min={0}
-                max={1}
-                step={0.05}
-                value={[params.cat3Prob]}
-                onValueChange={([value]) => onParamChange('cat3Prob', value)}
+                id="traitExponent"
+                min={-2}
+                max={2}
+                step={0.1}
+                value={[params.traitExponent]}
+                onValueChange={([value]) => onParamChange('traitExponent', value)}
               />
             </div>
             <div>
-              <Label htmlFor="cat3Damage" className="text-xs">
-                Damage: {(params.cat3Damage * 100).toFixed(0)}%
+              <Label htmlFor="damageVariation" className="text-xs">
+                Per-species Variation: {params.damageVariation.toFixed(2)}
               </Label>
               <Slider
-                id="cat3Damage"
+                id="damageVariation"
                 min={0}
-                max={1}
+                max={0.9}
                 step={0.05}
-                value={[params.cat3Damage]}
-                onValueChange={([value]) => onParamChange('cat3Damage', value)}
+                value={[params.damageVariation]}
+                onValueChange={([value]) => onParamChange('damageVariation', value)}
               />
             </div>
           </div>
         </div>
       </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-4">Other Hazards</h3>
+        <HazardPanel
+          types={hazardTypes}
+          onChange={onHazardTypesChange}
+          useCustomNetwork={useCustomNetwork}
+        />
+      </div>
     </div>
   );
 }
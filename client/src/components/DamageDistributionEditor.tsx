@@ -0,0 +1,217 @@
+import { ReactNode, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HurricaneCategory } from '@/lib/simulationEngine';
+import { normalizeCategories } from '@/lib/hurricaneCategories';
+import {
+  DAMAGE_DISTRIBUTION_LABELS,
+  DamageDistribution,
+  DamageDistributionType,
+  damageDensityCurve,
+  parseDamageHistogramCSV
+} from '@/lib/damageDistributions';
+
+interface DamageDistributionEditorProps {
+  distribution: DamageDistribution;
+  onChange: (distribution: DamageDistribution) => void;
+  categories: HurricaneCategory[];  // Shown as the discrete distribution and used for event labels
+}
+
+const PLOT_WIDTH = 240;
+const PLOT_HEIGHT = 80;
+
+/**
+ * Density curve, or probability stems for the categorical distribution
+ */
+function DistributionPlot({
+  distribution,
+  categories
+}: {
+  distribution: DamageDistribution;
+  categories: HurricaneCategory[];
+}) {
+  const x = (damage: number) => damage * PLOT_WIDTH;
+
+  if (distribution.type === 'categorical') {
+    const normalized = normalizeCategories(categories);
+    const maxProb = Math.max(...normalized.map(cat => cat.probability), 1e-9);
+    const mean = normalized.reduce((sum, cat) => sum + cat.probability * cat.damage, 0);
+    return (
+      <PlotFrame mean={mean}>
+        {normalized.map((cat, i) => (
+          <line
+            key={i}
+            x1={x(cat.damage)}
+            x2={x(cat.damage)}
+            y1={PLOT_HEIGHT}
+            y2={PLOT_HEIGHT * (1 - cat.probability / maxProb)}
+            stroke={cat.color}
+            strokeWidth={3}
+          />
+        ))}
+      </PlotFrame>
+    );
+  }
+
+  const { points, mean } = damageDensityCurve(distribution);
+  const maxDensity = Math.max(...points.map(p => p.density), 1e-9);
+  const path = points
+    .map(p => `${x(p.x).toFixed(1)},${(PLOT_HEIGHT * (1 - p.density / maxDensity)).toFixed(1)}`)
+    .join(' ');
+  return (
+    <PlotFrame mean={mean}>
+      <polygon
+        points={`0,${PLOT_HEIGHT} ${path} ${PLOT_WIDTH},${PLOT_HEIGHT}`}
+        fill="#fecaca"
+        stroke="#dc2626"
+        strokeWidth={1.5}
+      />
+    </PlotFrame>
+  );
+}
+
+function PlotFrame({ mean, children }: { mean: number; children: ReactNode }) {
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+        className="w-full h-20 bg-white rounded border"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Damage distribution"
+      >
+        {children}
+        <line
+          x1={mean * PLOT_WIDTH}
+          x2={mean * PLOT_WIDTH}
+          y1={0}
+          y2={PLOT_HEIGHT}
+          stroke="#374151"
+          strokeDasharray="3 3"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>0%</span>
+        <span>Mean damage {(mean * 100).toFixed(0)}%</span>
+        <span>100%</span>
+      </div>
+    </div>
+  );
+}
+
+export default function DamageDistributionEditor({
+  distribution,
+  onChange,
+  categories
+}: DamageDistributionEditorProps) {
+  const [error, setError] = useState<string>('');
+
+  const update = (change: Partial<DamageDistribution>) => onChange({ ...distribution, ...change });
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      setError('');
+      update({ type: 'empirical', histogram: parseDamageHistogramCSV(await file.text()) });
+    } catch (err) {
+      setError(`Error loading damage data: ${(err as Error).message}`);
+    }
+  };
+
+  const slider = (
+    key: 'mean' | 'sd' | 'median' | 'sigma',
+    label: string,
+    min: number,
+    max: number,
+    step: number
+  ) => (
+    <div>
+      <Label htmlFor={`damage-${key}`} className="text-xs">
+        {label}: {distribution[key].toFixed(2)}
+      </Label>
+      <Slider
+        id={`damage-${key}`}
+        min={min}
+        max={max}
+        step={step}
+        value={[distribution[key]]}
+        onValueChange={([value]) => update({ [key]: value })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={distribution.type}
+        onValueChange={(value) => update({ type: value as DamageDistributionType })}
+      >
+        <SelectTrigger id="damageDistribution" aria-label="Damage distribution">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(DAMAGE_DISTRIBUTION_LABELS) as DamageDistributionType[]).map(type => (
+            <SelectItem
+              key={type}
+              value={type}
+              disabled={type === 'empirical' && !distribution.histogram}
+            >
+              {DAMAGE_DISTRIBUTION_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {distribution.type === 'beta' && (
+        <>
+          {slider('mean', 'Mean', 0.01, 0.99, 0.01)}
+          {slider('sd', 'Standard Deviation', 0.01, 0.45, 0.01)}
+        </>
+      )}
+
+      {distribution.type === 'logNormal' && (
+        <>
+          {slider('median', 'Median', 0.01, 1, 0.01)}
+          {slider('sigma', 'Log-scale σ', 0.05, 2, 0.05)}
+        </>
+      )}
+
+      <div>
+        <Label htmlFor="file-damage" className="text-xs">
+          Observed damage CSV{distribution.histogram
+            ? ` ✓ (${distribution.histogram.weights.length} bins)`
+            : ''}
+        </Label>
+        <input
+          id="file-damage"
+          type="file"
+          accept=".csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFileUpload(file);
+          }}
+          className="block w-full text-sm text-gray-600 file:mr-4 file:py-1 file:px-3 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-gray-200 file:text-gray-700 hover:file:bg-gray-300 mt-1"
+        />
+        <div className="text-xs text-gray-600 mt-1">
+          Bins (lower, upper, count) or one column of observed mortality, as fractions
+          or percentages.
+        </div>
+      </div>
+
+      <DistributionPlot distribution={distribution} categories={categories} />
+
+      {distribution.type !== 'categorical' && (
+        <div className="text-xs text-gray-600">
+          Each hurricane's damage is drawn from this distribution; events are labelled
+          with the category of nearest damage.
+        </div>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
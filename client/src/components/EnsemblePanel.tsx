@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { EnsembleSummary, quantile } from '@/lib/ensembleRunner';
+
+export interface EnsembleSettings {
+  nReplicates: number;
+  duration: number;
+}
+
+interface EnsemblePanelProps {
+  summary: EnsembleSummary | null;
+  speciesNames: string[];
+  progress: { completed: number; total: number } | null;
+  onRun: (settings: EnsembleSettings) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onExport: () => void;
+}
+
+const SPECIES_COLORS = [
+  '#3b82f6', // blue
+  '#ef4444', // red
+  '#10b981', // green
+  '#f59e0b', // amber
+  '#8b5cf6', // purple
+  '#ec4899', // pink
+];
+
+export default function EnsemblePanel({
+  summary,
+  speciesNames,
+  progress,
+  onRun,
+  onCancel,
+  onClear,
+  onExport
+}: EnsemblePanelProps) {
+  const [settings, setSettings] = useState<EnsembleSettings>({
+    nReplicates: 50,
+    duration: 100
+  });
+
+  const isRunning = progress !== null;
+  const meanHurricanes = summary && summary.hurricaneCounts.length > 0
+    ? summary.hurricaneCounts.reduce((sum, n) => sum + n, 0) / summary.hurricaneCounts.length
+    : 0;
+
+  return (
+    <div className="bg-white p-4 rounded-lg border shadow-lg space-y-4">
+      <h3 className="text-lg font-semibold">Monte Carlo Ensemble</h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="nReplicates">Replicates: {settings.nReplicates}</Label>
+          <Slider
+            id="nReplicates"
+            min={10}
+            max={500}
+            step={10}
+            value={[settings.nReplicates]}
+            disabled={isRunning}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, nReplicates: value }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="ensembleDuration">Duration: {settings.duration} years</Label>
+          <Slider
+            id="ensembleDuration"
+            min={10}
+            max={1000}
+            step={10}
+            value={[settings.duration]}
+            disabled={isRunning}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, duration: value }))}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {!isRunning ? (
+          <Button onClick={() => onRun(settings)} size="sm" className="flex-1">
+            Run Ensemble
+          </Button>
+        ) : (
+          <Button onClick={onCancel} variant="outline" size="sm" className="flex-1">
+            Cancel ({progress.completed} / {progress.total})
+          </Button>
+        )}
+        {summary && !isRunning && (
+          <>
+            <Button onClick={onExport} variant="outline" size="sm">
+              Export
+            </Button>
+            <Button onClick={onClear} variant="outline" size="sm">
+              Clear
+            </Button>
+          </>
+        )}
+      </div>
+
+      {summary && (
+        <div className="text-sm space-y-2">
+          <div className="text-xs text-gray-600">
+            {summary.nReplicates} replicates, mean hurricanes per run: {meanHurricanes.toFixed(1)}.
+            The chart shows the ensemble mean (dashed) with 95% confidence bands.
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1">Species</th>
+                <th className="py-1">P(extinct)</th>
+                <th className="py-1">Median time to extinction</th>
+                <th className="py-1">Final abundance (median [5%, 95%])</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.extinctionProbability.map((p, i) => {
+                const times = summary.timeToExtinction[i];
+                const q = summary.finalAbundance[i];
+                return (
+                  <tr key={i} className="border-b last:border-0">
+                    <td className="py-1">
+                      <span
+                        className="inline-block w-2 h-2 rounded-full mr-1"
+                        style={{ backgroundColor: SPECIES_COLORS[i % SPECIES_COLORS.length] }}
+                      />
+                      {speciesNames[i] ?? i + 1}
+                    </td>
+                    <td className="py-1">{p.toFixed(2)}</td>
+                    <td className="py-1">
+                      {times.length > 0 ? `${quantile(times, 0.5).toFixed(1)} years` : '—'}
+                    </td>
+                    <td className="py-1">
+                      {q.median.toFixed(3)} [{q.q05.toFixed(3)}, {q.q95.toFixed(3)}]
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ArrivalProcessEditor from '@/components/ArrivalProcessEditor';
+import { GUILD_LABELS, Guild } from '@/lib/speciesParameters';
+import {
+  HAZARD_EFFECT_LABELS,
+  HURRICANE_HAZARD,
+  HazardEffectType,
+  HazardType,
+  validateHazardType
+} from '@/lib/hazardTypes';
+
+interface HazardPanelProps {
+  types: HazardType[];
+  onChange: (types: HazardType[]) => void;
+  useCustomNetwork?: boolean;       // Animal guilds exist only in uploaded networks
+}
+
+// Select value for a hazard that follows nothing
+const NO_TRIGGER = 'none';
+
+interface HazardTypeEditorProps {
+  type: HazardType;
+  others: HazardType[];
+  onChange: (type: HazardType) => void;
+  useCustomNetwork: boolean;
+}
+
+function HazardTypeEditor({ type, others, onChange, useCustomNetwork }: HazardTypeEditorProps) {
+  const update = (change: Partial<HazardType>) => onChange({ ...type, ...change });
+  const id = (key: string) => `hazard-${type.id}-${key}`;
+  const trigger = type.trigger;
+
+  const slider = (
+    key: string,
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    step: number,
+    onValueChange: (value: number) => void
+  ) => (
+    <div>
+      <Label htmlFor={id(key)} className="text-xs">
+        {label}
+      </Label>
+      <Slider
+        id={id(key)}
+        min={min}
+        max={max}
+        step={step}
+        value={[value]}
+        onValueChange={([v]) => onValueChange(v)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1.5">
+        <Checkbox
+          id={id('enabled')}
+          checked={type.enabled}
+          onCheckedChange={(checked) => update({ enabled: checked === true })}
+        />
+        <Label htmlFor={id('enabled')} className="text-sm font-medium">
+          <span style={{ color: type.color }}>■</span> {type.name}
+        </Label>
+      </div>
+
+      {type.enabled && (
+        <div className="space-y-3 pl-5">
+          {slider('rate', `Independent rate: ${type.rate.toFixed(3)} events/year`, type.rate, 0, 0.5, 0.01,
+            rate => update({ rate }))}
+          {type.rate > 0 && (
+            <ArrivalProcessEditor
+              process={type.arrival}
+              onChange={arrival => update({ arrival })}
+              idPrefix={`${type.id}-`}
+              eventName={type.name.toLowerCase()}
+            />
+          )}
+
+          <Select
+            value={type.effect}
+            onValueChange={(value) => update({ effect: value as HazardEffectType })}
+          >
+            <SelectTrigger id={id('effect')} aria-label={`${type.name} effect`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(HAZARD_EFFECT_LABELS) as HazardEffectType[]).map(effect => (
+                <SelectItem key={effect} value={effect}>
+                  {HAZARD_EFFECT_LABELS[effect]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {slider(
+            'severity',
+            type.effect === 'growth'
+              ? `Growth lost: ${(type.severity * 100).toFixed(0)}% of |r|`
+              : `Mortality: ${(type.severity * 100).toFixed(0)}%`,
+            type.severity, 0, 1, 0.05,
+            severity => update({ severity })
+          )}
+          {type.effect === 'growth' &&
+            slider('duration', `Duration: ${type.duration.toFixed(2)} years`, type.duration, 0.05, 5, 0.05,
+              duration => update({ duration }))}
+
+          {(Object.keys(GUILD_LABELS) as Guild[])
+            .filter(guild => useCustomNetwork || guild === 'plant')
+            .map(guild => (
+              <div key={guild}>
+                {slider(
+                  `weight-${guild}`,
+                  `${GUILD_LABELS[guild]}: ${type.guildWeights[guild].toFixed(2)}×`,
+                  type.guildWeights[guild], 0, 1, 0.05,
+                  weight => update({ guildWeights: { ...type.guildWeights, [guild]: weight } })
+                )}
+              </div>
+            ))}
+
+          <div>
+            <Label htmlFor={id('trigger')} className="text-xs">Follows</Label>
+            <Select
+              value={trigger?.after ?? NO_TRIGGER}
+              onValueChange={(value) => update({
+                trigger: value === NO_TRIGGER
+                  ? null
+                  : { probability: 0.5, delay: 0.25, ...trigger, after: value }
+              })}
+            >
+              <SelectTrigger id={id('trigger')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TRIGGER}>Nothing (independent only)</SelectItem>
+                <SelectItem value={HURRICANE_HAZARD}>Hurricanes</SelectItem>
+                {others.map(other => (
+                  <SelectItem key={other.id} value={other.id}>
+                    {other.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {trigger && (
+            <>
+              {slider('probability', `Chance of following: ${(trigger.probability * 100).toFixed(0)}%`,
+                trigger.probability, 0, 1, 0.05,
+                probability => update({ trigger: { ...trigger, probability } }))}
+              {slider('delay', `Mean delay: ${trigger.delay.toFixed(2)} years`, trigger.delay, 0, 2, 0.05,
+                delay => update({ trigger: { ...trigger, delay } }))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function HazardPanel({ types, onChange, useCustomNetwork = false }: HazardPanelProps) {
+  const ids = types.map(type => type.id);
+  const errors = types
+    .filter(type => type.enabled)
+    .map(type => {
+      try {
+        validateHazardType(type, ids);
+        return '';
+      } catch (err) {
+        return (err as Error).message;
+      }
+    })
+    .filter(Boolean);
+
+  return (
+    <div className="space-y-4">
+      {types.map((type, k) => (
+        <HazardTypeEditor
+          key={type.id}
+          type={type}
+          others={types.filter(other => other.id !== type.id)}
+          onChange={changed => onChange(types.map((t, j) => (j === k ? changed : t)))}
+          useCustomNetwork={useCustomNetwork}
+        />
+      ))}
+
+      <div className="text-xs text-gray-600">
+        Hazards strike every island. Each species loses its severity times its guild
+        weight; a follow-on hazard comes after each event it follows with the given chance,
+        making compound events such as a drought after a hurricane.
+        {!useCustomNetwork && ' The generated network has plants only.'}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">
+          {errors.join('; ')}
+        </div>
+      )}
+    </div>
+  );
+}
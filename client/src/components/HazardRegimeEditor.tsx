@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HurricaneCategory } from '@/lib/simulationEngine';
+import { normalizeCategories } from '@/lib/hurricaneCategories';
+import { DamageDistribution, damageDensityCurve } from '@/lib/damageDistributions';
+import { downloadJSON } from '@/lib/resultsExport';
+import {
+  HazardRegime,
+  RATE_TREND_LABELS,
+  RateTrendType,
+  intensityTilt,
+  parseHazardRegimeJSON,
+  parseScenarioCSV,
+  tiltCategories,
+  trendMultiplier
+} from '@/lib/hazardRegimes';
+
+interface HazardRegimeEditorProps {
+  regime: HazardRegime;
+  onChange: (regime: HazardRegime) => void;
+  hurricaneRate: number;            // Base rate the regime multiplies
+  categories: HurricaneCategory[];
+  damageDistribution: DamageDistribution;
+}
+
+const PLOT_WIDTH = 240;
+const PLOT_HEIGHT = 80;
+const PREVIEW_YEARS = 100;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Mean hurricane damage under an intensity tilt
+ */
+function tiltedMeanDamage(
+  categories: HurricaneCategory[],
+  distribution: DamageDistribution,
+  tilt: number
+): number {
+  if (distribution.type === 'categorical') {
+    return tiltCategories(normalizeCategories(categories), tilt)
+      .reduce((sum, cat) => sum + cat.probability * cat.damage, 0);
+  }
+  const { points } = damageDensityCurve(distribution);
+  const weights = points.map(p => p.density * Math.exp(tilt * p.x));
+  const mass = weights.reduce((sum, w) => sum + w, 0);
+  return mass > 0 ? points.reduce((sum, p, k) => sum + p.x * weights[k], 0) / mass : 0;
+}
+
+/**
+ * Annual mean rate and mean damage over the preview period
+ */
+function RegimePlot({
+  regime,
+  hurricaneRate,
+  categories,
+  damageDistribution
+}: Omit<HazardRegimeEditorProps, 'onChange'>) {
+  const years = Array.from({ length: PREVIEW_YEARS + 1 }, (_, t) => t);
+  const rates = years.map(t => hurricaneRate * trendMultiplier(regime, t));
+  const damages = years.map(t =>
+    tiltedMeanDamage(categories, damageDistribution, intensityTilt(regime, t)));
+  const maxRate = Math.max(...rates, 1e-9);
+  const x = (t: number) => (t / PREVIEW_YEARS) * PLOT_WIDTH;
+  const line = (values: number[], max: number) => values
+    .map((v, t) => `${x(t).toFixed(1)},${(PLOT_HEIGHT * (1 - v / max)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+        className="w-full h-20 bg-white rounded border"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Hazard regime"
+      >
+        <polyline points={line(rates, maxRate * 1.1)} fill="none" stroke="#2563eb" strokeWidth={1.5} />
+        <polyline points={line(damages, 1)} fill="none" stroke="#dc2626" strokeWidth={1.5} />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Year 0</span>
+        <span>
+          <span className="text-blue-600">Rate</span>{' '}
+          {rates[0].toFixed(2)} → {rates[PREVIEW_YEARS].toFixed(2)}/yr,{' '}
+          <span className="text-red-600">damage</span>{' '}
+          {(damages[0] * 100).toFixed(0)}% → {(damages[PREVIEW_YEARS] * 100).toFixed(0)}%
+        </span>
+        <span>{PREVIEW_YEARS}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function HazardRegimeEditor({
+  regime,
+  onChange,
+  hurricaneRate,
+  categories,
+  damageDistribution
+}: HazardRegimeEditorProps) {
+  const [error, setError] = useState<string>('');
+
+  const update = (change: Partial<HazardRegime>) => onChange({ ...regime, ...change });
+
+  // CSV files are schedules; JSON files are complete saved regimes
+  const handleFileUpload = async (file: File) => {
+    try {
+      setError('');
+      const text = await file.text();
+      if (/\.json$/i.test(file.name) || text.trimStart().startsWith('{')) {
+        onChange(parseHazardRegimeJSON(text));
+      } else {
+        update({ trend: 'scenario', schedule: parseScenarioCSV(text) });
+      }
+    } catch (err) {
+      setError(`Error loading scenario: ${(err as Error).message}`);
+    }
+  };
+
+  const slider = (
+    key: 'rateSlope' | 'stepTime' | 'stepFactor' | 'tiltSlope' | 'seasonality' | 'seasonPeak',
+    label: string,
+    min: number,
+    max: number,
+    step: number,
+    format: (value: number) => string
+  ) => (
+    <div>
+      <Label htmlFor={`regime-${key}`} className="text-xs">
+        {label}: {format(regime[key])}
+      </Label>
+      <Slider
+        id={`regime-${key}`}
+        min={min}
+        max={max}
+        step={step}
+        value={[regime[key]]}
+        onValueChange={([value]) => update({ [key]: value })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={regime.trend}
+        onValueChange={(value) => update({ trend: value as RateTrendType })}
+      >
+        <SelectTrigger id="rateTrend" aria-label="Rate trend">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(RATE_TREND_LABELS) as RateTrendType[]).map(trend => (
+            <SelectItem
+              key={trend}
+              value={trend}
+              disabled={trend === 'scenario' && !regime.schedule}
+            >
+              {RATE_TREND_LABELS[trend]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {regime.trend === 'linear' &&
+        slider('rateSlope', 'Rate change per year', -0.02, 0.05, 0.001, v => `${(v * 100).toFixed(1)}%`)}
+
+      {regime.trend === 'step' && (
+        <>
+          {slider('stepTime', 'Change at year', 0, 200, 1, v => v.toFixed(0))}
+          {slider('stepFactor', 'Rate multiplier after', 0, 5, 0.1, v => `${v.toFixed(1)}×`)}
+        </>
+      )}
+
+      {regime.trend !== 'scenario' &&
+        slider('tiltSlope', 'Intensity shift per year', -0.05, 0.05, 0.001, v => v.toFixed(3))}
+      {slider('seasonality', 'Seasonality', 0, 1, 0.05, v => v.toFixed(2))}
+      {regime.seasonality > 0 &&
+        slider('seasonPeak', 'Season peak', 0, 0.99, 1 / 24, v => MONTHS[Math.floor(v * 12) % 12])}
+
+      <div>
+        <Label htmlFor="file-regime" className="text-xs">
+          Scenario CSV / JSON{regime.schedule ? ` ✓ (${regime.schedule.time.length} years)` : ''}
+        </Label>
+        <input
+          id="file-regime"
+          type="file"
+          accept=".csv,.json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFileUpload(file);
+          }}
+          className="block w-full text-sm text-gray-600 file:mr-4 file:py-1 file:px-3 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-gray-200 file:text-gray-700 hover:file:bg-gray-300 mt-1"
+        />
+        <div className="text-xs text-gray-600 mt-1">
+          CSV schedule with time (years), rate (multiplier of λ) and optional tilt columns,
+          interpolated between rows; or a regime saved as JSON.
+        </div>
+        <Button
+          onClick={() => downloadJSON(regime, 'hazard-regime.json')}
+          variant="outline"
+          size="sm"
+          className="mt-1"
+        >
+          Save scenario
+        </Button>
+      </div>
+
+      <RegimePlot
+        regime={regime}
+        hurricaneRate={hurricaneRate}
+        categories={categories}
+        damageDistribution={damageDistribution}
+      />
+
+      <div className="text-xs text-gray-600">
+        An intensity shift θ makes a storm of damage d e^(θd) times more likely, moving
+        weight toward stronger storms as it grows. Seasonality varies the rate within each
+        year as 1 + A·cos around the peak.
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
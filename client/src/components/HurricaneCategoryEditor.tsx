@@ -0,0 +1,123 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { HurricaneCategory } from '@/lib/simulationEngine';
+import {
+  DEFAULT_CATEGORIES,
+  SAFFIR_SIMPSON_CATEGORIES,
+  normalizeCategories
+} from '@/lib/hurricaneCategories';
+
+interface HurricaneCategoryEditorProps {
+  categories: HurricaneCategory[];
+  onChange: (categories: HurricaneCategory[]) => void;
+}
+
+// Colours offered to newly added categories, in order
+const NEW_CATEGORY_COLORS = ['#0ea5e9', '#14b8a6', '#84cc16', '#a855f7', '#ec4899', '#64748b'];
+
+export default function HurricaneCategoryEditor({ categories, onChange }: HurricaneCategoryEditorProps) {
+  const normalized = normalizeCategories(categories);
+
+  const update = (index: number, change: Partial<HurricaneCategory>) => {
+    onChange(categories.map((cat, i) => (i === index ? { ...cat, ...change } : cat)));
+  };
+
+  const handleAdd = () => {
+    const names = new Set(categories.map(cat => cat.name));
+    let n = categories.length + 1;
+    while (names.has(`Category ${n}`)) n++;
+    onChange([
+      ...categories,
+      {
+        name: `Category ${n}`,
+        probability: 0.1,
+        damage: 0.5,
+        color: NEW_CATEGORY_COLORS[categories.length % NEW_CATEGORY_COLORS.length]
+      }
+    ]);
+  };
+
+  const duplicateNames = new Set(
+    categories.map(cat => cat.name).filter((name, i, all) => all.indexOf(name) !== i)
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => onChange(SAFFIR_SIMPSON_CATEGORIES)} variant="outline" size="sm">
+          Saffir–Simpson 1–5
+        </Button>
+        <Button onClick={() => onChange(DEFAULT_CATEGORIES)} variant="outline" size="sm">
+          Default 1–3
+        </Button>
+      </div>
+
+      {categories.map((cat, i) => (
+        <div key={i} className="space-y-2 p-2 bg-white rounded border">
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              aria-label={`Colour of ${cat.name}`}
+              value={cat.color}
+              onChange={(e) => update(i, { color: e.target.value })}
+              className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+            />
+            <input
+              type="text"
+              aria-label={`Name of category ${i + 1}`}
+              value={cat.name}
+              onChange={(e) => update(i, { name: e.target.value })}
+              className={`flex-1 min-w-0 px-2 py-0.5 text-sm border rounded ${
+                duplicateNames.has(cat.name) ? 'border-red-400' : ''
+              }`}
+            />
+            <Button
+              onClick={() => onChange(categories.filter((_, k) => k !== i))}
+              disabled={categories.length <= 1}
+              variant="outline"
+              size="sm"
+              aria-label={`Remove ${cat.name}`}
+            >
+              ✕
+            </Button>
+          </div>
+          <div>
+            <Label htmlFor={`catProb-${i}`} className="text-xs">
+              Relative Frequency: {cat.probability.toFixed(2)} ({(normalized[i].probability * 100).toFixed(0)}%)
+            </Label>
+            <Slider
+              id={`catProb-${i}`}
+              min={0}
+              max={1}
+              step={0.01}
+              value={[cat.probability]}
+              onValueChange={([value]) => update(i, { probability: value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`catDamage-${i}`} className="text-xs">
+              Damage: {(cat.damage * 100).toFixed(0)}%
+            </Label>
+            <Slider
+              id={`catDamage-${i}`}
+              min={0}
+              max={1}
+              step={0.05}
+              value={[cat.damage]}
+              onValueChange={([value]) => update(i, { damage: value })}
+            />
+          </div>
+        </div>
+      ))}
+
+      {duplicateNames.size > 0 && (
+        <div className="text-xs text-red-600">Category names must be unique.</div>
+      )}
+
+      <Button onClick={handleAdd} variant="outline" size="sm" className="w-full">
+        Add Category
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Button } from '@/components/ui/button';
+import { ExtinctionEvent, HurricaneEvent, RecolonizationEvent } from '@/lib/simulationEngine';
+import { islandPopulations, regionallyExtinct } from '@/lib/metacommunity';
+import { hurricaneStrikesIsland } from '@/lib/hurricaneTracks';
+
+interface IslandSummaryProps {
+  islandNames: string[];
+  nSpecies: number;                 // Species per island
+  populations: number[];            // Island 0's species first, then island 1's, ...
+  extinctSpecies: Set<number>;      // Locally extinct populations
+  hurricanes: HurricaneEvent[];
+  extinctions: ExtinctionEvent[];
+  recolonizations: RecolonizationEvent[];
+  island: number | null;            // Island shown in the chart, null for regional totals
+  onSelectIsland: (island: number | null) => void;
+}
+
+export default function IslandSummary({
+  islandNames,
+  nSpecies,
+  populations,
+  extinctSpecies,
+  hurricanes,
+  extinctions,
+  recolonizations,
+  island,
+  onSelectIsland
+}: IslandSummaryProps) {
+  const islands = islandNames.length;
+  const ofIsland = (species: number) => Math.floor(species / nSpecies);
+
+  const rows = islandNames.map((name, k) => {
+    const local = islandPopulations(populations, nSpecies, k);
+    return {
+      name,
+      present: local.filter((_, i) => !extinctSpecies.has(k * nSpecies + i)).length,
+      abundance: local.reduce((sum, val) => sum + val, 0),
+      hurricanes: hurricanes.filter(h => hurricaneStrikesIsland(h, k)).length,
+      extinctions: extinctions.filter(e => ofIsland(e.species) === k).length,
+      recolonizations: recolonizations.filter(e => ofIsland(e.species) === k).length
+    };
+  });
+  const regional = {
+    present: nSpecies - regionallyExtinct(extinctSpecies, nSpecies, islands).size,
+    abundance: populations.reduce((sum, val) => sum + val, 0)
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border shadow-lg space-y-3">
+      <h3 className="text-lg font-semibold">Islands</h3>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          onClick={() => onSelectIsland(null)}
+          variant={island === null ? 'default' : 'outline'}
+          size="sm"
+        >
+          Regional
+        </Button>
+        {islandNames.map((name, k) => (
+          <Button
+            key={k}
+            onClick={() => onSelectIsland(k)}
+            variant={island === k ? 'default' : 'outline'}
+            size="sm"
+          >
+            {name}
+          </Button>
+        ))}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-1">Island</th>
+            <th className="py-1">Species present</th>
+            <th className="py-1">Total abundance</th>
+            <th className="py-1">Hurricanes</th>
+            <th className="py-1">Local extinctions</th>
+            <th className="py-1">Recolonizations</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, k) => (
+            <tr
+              key={k}
+              className={`border-b cursor-pointer ${island === k ? 'bg-blue-50' : ''}`}
+              onClick={() => onSelectIsland(k)}
+            >
+              <td className="py-1">{row.name}</td>
+              <td className="py-1">{row.present} / {nSpecies}</td>
+              <td className="py-1">{row.abundance.toFixed(3)}</td>
+              <td className="py-1">{row.hurricanes}</td>
+              <td className="py-1">{row.extinctions}</td>
+              <td className="py-1">{row.recolonizations}</td>
+            </tr>
+          ))}
+          <tr
+            className={`font-semibold cursor-pointer ${island === null ? 'bg-blue-50' : ''}`}
+            onClick={() => onSelectIsland(null)}
+          >
+            <td className="py-1">Regional</td>
+            <td className="py-1">{regional.present} / {nSpecies}</td>
+            <td className="py-1">{regional.abundance.toFixed(3)}</td>
+            <td className="py-1">{hurricanes.length}</td>
+            <td className="py-1">{extinctions.length}</td>
+            <td className="py-1">{recolonizations.length}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <p className="text-xs text-gray-600">
+        A species is regionally present while it survives on at least one island.
+        Recolonizations are locally extinct populations restored by immigration.
+      </p>
+    </div>
+  );
+}
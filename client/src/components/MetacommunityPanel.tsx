@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ControlParams } from '@/components/ControlPanel';
+import { parseLabeledCSV } from '@/lib/networkBuilder';
+import {
+  DISPERSAL_KERNEL_LABELS,
+  DispersalKernelType,
+  MetacommunitySettings,
+  buildDispersalKernel,
+  islandSites
+} from '@/lib/metacommunity';
+import { TrackSettings, parseIslandSites } from '@/lib/hurricaneTracks';
+
+interface MetacommunityPanelProps {
+  settings: MetacommunitySettings;
+  onChange: (settings: MetacommunitySettings) => void;
+  params: ControlParams;
+  onParamChange: (param: keyof ControlParams, value: number) => void;
+  useCustomNetwork: boolean;      // Guild-specific migration needs a plant-animal network
+  tracks: TrackSettings;
+  onTracksChange: (tracks: TrackSettings) => void;
+}
+
+const MAX_ISLANDS = 10;
+
+const MIGRATION_SLIDERS: Array<{
+  key: 'plantMigration' | 'pollinatorMigration' | 'disperserMigration';
+  label: string;
+}> = [
+  { key: 'plantMigration', label: 'Plants' },
+  { key: 'pollinatorMigration', label: 'Pollinators' },
+  { key: 'disperserMigration', label: 'Seed dispersers' }
+];
+
+const TRACK_SLIDERS: Array<{
+  key: 'radius' | 'heading' | 'headingSpread' | 'areaExponent' | 'elevationExponent';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}> = [
+  { key: 'radius', label: 'Damage radius', min: 5, max: 300, step: 5, format: v => `${v} km` },
+  { key: 'heading', label: 'Mean heading', min: 0, max: 355, step: 5, format: v => `${v}°` },
+  { key: 'headingSpread', label: 'Heading spread', min: 0, max: 90, step: 5, format: v => `${v}°` },
+  { key: 'areaExponent', label: 'Area shelter exponent', min: 0, max: 1, step: 0.05, format: v => v.toFixed(2) },
+  { key: 'elevationExponent', label: 'Elevation shelter exponent', min: 0, max: 1, step: 0.05, format: v => v.toFixed(2) }
+];
+
+export default function MetacommunityPanel({
+  settings,
+  onChange,
+  params,
+  onParamChange,
+  useCustomNetwork,
+  tracks,
+  onTracksChange
+}: MetacommunityPanelProps) {
+  const [error, setError] = useState<string>('');
+
+  // Only pass on settings whose kernel can be built
+  const apply = (next: MetacommunitySettings) => {
+    if (next.islands > 1) {
+      try {
+        buildDispersalKernel(next);
+        islandSites(next);
+      } catch (err) {
+        setError((err as Error).message);
+        return;
+      }
+    }
+    setError('');
+    onChange(next);
+  };
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      const matrix = parseLabeledCSV(await file.text());
+      if (matrix.matrix.length !== matrix.matrix[0].length) {
+        throw new Error('Dispersal matrix must be square, one row and column per island');
+      }
+      apply({ ...settings, islands: matrix.matrix.length, kernel: 'custom', matrix });
+    } catch (err) {
+      setError(`Error loading dispersal matrix: ${(err as Error).message}`);
+    }
+  };
+
+  const handleMapUpload = async (file: File) => {
+    try {
+      const sites = parseIslandSites(await file.text(), file.name);
+      if (sites.length < 2) {
+        throw new Error('Island map needs at least two islands');
+      }
+      apply({ ...settings, islands: sites.length, sites });
+    } catch (err) {
+      setError(`Error loading island map: ${(err as Error).message}`);
+    }
+  };
+
+  const customIslands = settings.kernel === 'custom' && settings.matrix !== null;
+  const fixedIslands = customIslands || settings.sites !== null;
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
+      <h4 className="font-semibold">Metacommunity</h4>
+
+      {fixedIslands ? (
+        <div className="text-sm">
+          Islands: {settings.islands} (from the {settings.sites ? 'island map' : 'dispersal matrix'})
+        </div>
+      ) : (
+        <div>
+          <Label htmlFor="islands" className="text-sm">Islands: {settings.islands}</Label>
+          <Slider
+            id="islands"
+            min={1}
+            max={MAX_ISLANDS}
+            step={1}
+            value={[settings.islands]}
+            onValueChange={([value]) => apply({ ...settings, islands: value })}
+          />
+        </div>
+      )}
+
+      {settings.islands === 1 && !fixedIslands ? (
+        <div className="text-xs text-gray-600">
+          A single well-mixed community. With several islands each holds its own
+          populations on the same network, hurricanes strike one island at a time and
+          dispersal can recolonize islands where a species went extinct.
+        </div>
+      ) : (
+        <>
+          <div>
+            <Label htmlFor="dispersalKernel" className="text-sm">Dispersal Kernel</Label>
+            <Select
+              value={settings.kernel}
+              onValueChange={(value) => apply({
+                ...settings,
+                kernel: value as DispersalKernelType,
+                islands: value === 'custom' && settings.matrix
+                  ? settings.matrix.matrix.length
+                  : settings.islands
+              })}
+            >
+              <SelectTrigger id="dispersalKernel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DISPERSAL_KERNEL_LABELS) as DispersalKernelType[]).map(kernel => (
+                  <SelectItem
+                    key={kernel}
+                    value={kernel}
+                    disabled={kernel === 'custom' && !settings.matrix}
+                  >
+                    {DISPERSAL_KERNEL_LABELS[kernel]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Migration Rate (per year)</div>
+            {MIGRATION_SLIDERS
+              .filter(({ key }) => useCustomNetwork || key === 'plantMigration')
+              .map(({ key, label }) => (
+                <div key={key}>
+                  <Label htmlFor={key} className="text-xs">
+                    {useCustomNetwork ? label : 'All species'}: {params[key].toFixed(3)}
+                  </Label>
+                  <Slider
+                    id={key}
+                    min={0}
+                    max={0.5}
+                    step={0.005}
+                    value={[params[key]]}
+                    onValueChange={([value]) => onParamChange(key, value)}
+                  />
+                </div>
+              ))}
+            <div className="text-xs text-gray-600">
+              Fraction of each population leaving its island per year, times the species'
+              dispersal multiplier in the species table.
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-1.5">
+              <Checkbox
+                id="hurricaneTracks"
+                checked={tracks.enabled}
+                onCheckedChange={(checked) => onTracksChange({ ...tracks, enabled: checked === true })}
+              />
+              <Label htmlFor="hurricaneTracks" className="text-sm font-medium">
+                Hurricane tracks across the island map
+              </Label>
+            </div>
+            {tracks.enabled ? (
+              <>
+                {TRACK_SLIDERS.map(({ key, label, min, max, step, format }) => (
+                  <div key={key}>
+                    <Label htmlFor={`track-${key}`} className="text-xs">
+                      {label}: {format(tracks[key])}
+                    </Label>
+                    <Slider
+                      id={`track-${key}`}
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={[tracks[key]]}
+                      onValueChange={([value]) => onTracksChange({ ...tracks, [key]: value })}
+                    />
+                  </div>
+                ))}
+                <div className="text-xs text-gray-600">
+                  Each storm crosses the map along a straight track. Damage falls by 1/e
+                  every radius away from the track, heading is measured clockwise from north,
+                  and positive shelter exponents spare islands larger or higher than average.
+                </div>
+              </>
+            ) : (
+              <div className="text-xs text-gray-600">
+                Off: each hurricane strikes a single island chosen at random.
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <div>
+        <Label htmlFor="file-dispersal" className="text-sm">
+          Dispersal matrix CSV{settings.matrix ? ` ✓ (${settings.matrix.matrix.length} islands)` : ''}
+        </Label>
+        <input
+          id="file-dispersal"
+          type="file"
+          accept=".csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFileUpload(file);
+          }}
+          className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-gray-200 file:text-gray-700 hover:file:bg-gray-300 mt-1"
+        />
+        <div className="text-xs text-gray-600 mt-1">
+          Square matrix of relative flows from each island (row) to each other island
+          (column), optionally with island names. The diagonal is ignored.
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="file-islands" className="text-sm">
+          Island map CSV / GeoJSON{settings.sites ? ` ✓ (${settings.sites.length} islands)` : ''}
+        </Label>
+        <input
+          id="file-islands"
+          type="file"
+          accept=".csv,.json,.geojson"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleMapUpload(file);
+          }}
+          className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-gray-200 file:text-gray-700 hover:file:bg-gray-300 mt-1"
+        />
+        <div className="text-xs text-gray-600 mt-1">
+          CSV with a name column and x, y (km) or lon, lat columns, plus optional area and
+          elevation; or GeoJSON point or polygon features with the same properties.
+          Without a map the islands lie along a chain 60 km apart.
+        </div>
+        {settings.sites && (
+          <Button
+            onClick={() => apply({ ...settings, sites: null })}
+            variant="outline"
+            size="sm"
+            className="mt-1"
+          >
+            Clear island map
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import NetworkMetricsTable from '@/components/NetworkMetricsTable';
+import { BipartiteNetwork, getNetworkStats } from '@/lib/networkBuilder';
+import { NetworkMetrics } from '@/lib/networkMetrics';
+import {
+  DEFAULT_GENERATOR_CONFIG,
+  GeneratorConfig,
+  GeneratorType,
+  generateNetwork,
+} from '@/lib/networkGenerators';
+
+interface NetworkGeneratorProps {
+  seed: number;
+  onGenerate: (network: BipartiteNetwork) => void;
+  activeNetwork: BipartiteNetwork;        // Network the model uses
+  networkMetrics: NetworkMetrics | null;  // Structure metrics of the active network
+}
+
+const GENERATOR_LABELS: Record<GeneratorType, string> = {
+  random: 'Random (target connectance)',
+  nested: 'Nested',
+  modular: 'Modular',
+  niche: 'Trait matching (niche)'
+};
+
+type NumericKey = Exclude<keyof GeneratorConfig, 'type' | 'seed'>;
+
+interface SliderSpec {
+  key: NumericKey;
+  label: (config: GeneratorConfig) => string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SIZE_SLIDERS: SliderSpec[] = [
+  { key: 'nPlants', label: c => `Plants: ${c.nPlants}`, min: 2, max: 200, step: 1 },
+  { key: 'nPollinators', label: c => `Pollinators: ${c.nPollinators}`, min: 0, max: 200, step: 1 },
+  { key: 'nDispersers', label: c => `Seed dispersers: ${c.nDispersers}`, min: 0, max: 200, step: 1 },
+  { key: 'overlap', label: c => `Shared animals: ${(c.overlap * 100).toFixed(0)}%`, min: 0, max: 1, step: 0.05 },
+  { key: 'connectance', label: c => `Connectance: ${c.connectance.toFixed(2)}`, min: 0.05, max: 1, step: 0.01 }
+];
+
+const STRUCTURE_SLIDERS: Record<GeneratorType, SliderSpec[]> = {
+  random: [],
+  nested: [
+    { key: 'nestedness', label: c => `Nestedness: ${c.nestedness.toFixed(2)}`, min: 0, max: 1, step: 0.05 }
+  ],
+  modular: [
+    { key: 'nModules', label: c => `Modules: ${c.nModules}`, min: 2, max: 10, step: 1 },
+    {
+      key: 'withinModule',
+      label: c => `Links within modules: ${(c.withinModule * 100).toFixed(0)}%`,
+      min: 0,
+      max: 1,
+      step: 0.05
+    }
+  ],
+  niche: [
+    { key: 'nicheWidth', label: c => `Niche width: ${c.nicheWidth.toFixed(2)}`, min: 0.01, max: 1, step: 0.01 }
+  ]
+};
+
+export default function NetworkGenerator({
+  seed,
+  onGenerate,
+  activeNetwork,
+  networkMetrics
+}: NetworkGeneratorProps) {
+  const [config, setConfig] = useState<GeneratorConfig>(DEFAULT_GENERATOR_CONFIG);
+  const [generated, setGenerated] = useState<BipartiteNetwork | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const handleGenerate = () => {
+    try {
+      setError('');
+      const network = generateNetwork({ ...config, seed });
+      setGenerated(network);
+      onGenerate(network);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const stats = generated ? getNetworkStats(generated) : null;
+
+  return (
+    <div className="space-y-3 p-4 bg-emerald-50 rounded-lg border border-emerald-200">
+      <h4 className="font-semibold text-emerald-900">Generate Network</h4>
+
+      <div>
+        <Label htmlFor="generatorType" className="text-sm">Structure</Label>
+        <Select
+          value={config.type}
+          onValueChange={(value) => setConfig(prev => ({ ...prev, type: value as GeneratorType }))}
+        >
+          <SelectTrigger id="generatorType">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GENERATOR_LABELS) as GeneratorType[]).map(type => (
+              <SelectItem key={type} value={type}>{GENERATOR_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {[...SIZE_SLIDERS, ...STRUCTURE_SLIDERS[config.type]].map(({ key, label, min, max, step }) => (
+        <div key={key}>
+          <Label htmlFor={`generator-${key}`} className="text-xs">{label(config)}</Label>
+          <Slider
+            id={`generator-${key}`}
+            min={min}
+            max={max}
+            step={step}
+            value={[config[key]]}
+            onValueChange={([value]) => setConfig(prev => ({ ...prev, [key]: value }))}
+          />
+        </div>
+      ))}
+
+      <Button onClick={handleGenerate} size="sm" className="w-full">
+        Generate & Use Network
+      </Button>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">
+          {error}
+        </div>
+      )}
+
+      {generated && stats && (
+        <div className="text-sm bg-white p-3 rounded border">
+          <div className="text-xs">
+            {stats.nPlants} plants, {stats.nAnimals} animals,{' '}
+            {stats.nPollinationLinks} pollination and {stats.nDispersalLinks} dispersal links
+            (seed {seed}).
+          </div>
+          {networkMetrics && activeNetwork === generated && (
+            <NetworkMetricsTable metrics={networkMetrics} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { LayerMetrics, NetworkMetrics } from '@/lib/networkMetrics';
+
+interface NetworkMetricsTableProps {
+  metrics: NetworkMetrics;
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0;
+
+// Rows of the structure metrics table
+const METRIC_ROWS: Array<{ label: string; format: (m: LayerMetrics) => string }> = [
+  { label: 'Connectance', format: m => m.connectance.toFixed(3) },
+  { label: 'NODF', format: m => m.nodf.toFixed(1) },
+  { label: 'Temperature', format: m => m.temperature.toFixed(1) },
+  { label: 'Modularity Q', format: m => `${m.modularity.Q.toFixed(3)} (${m.modularity.nModules})` },
+  { label: "H2'", format: m => m.H2.toFixed(3) },
+  {
+    label: 'Mean degree (P / A)',
+    format: m => `${mean(m.plantDegrees).toFixed(1)} / ${mean(m.animalDegrees).toFixed(1)}`
+  },
+  {
+    label: 'Max degree (P / A)',
+    format: m => `${Math.max(0, ...m.plantDegrees)} / ${Math.max(0, ...m.animalDegrees)}`
+  },
+  { label: "Mean d' (P / A)", format: m => `${mean(m.plantD).toFixed(2)} / ${mean(m.animalD).toFixed(2)}` }
+];
+
+export default function NetworkMetricsTable({ metrics }: NetworkMetricsTableProps) {
+  const layers = [
+    { label: 'B', values: metrics.B },
+    { label: 'S', values: metrics.S },
+    { label: 'B+S', values: metrics.B && metrics.S ? metrics.combined : null }
+  ].filter((layer): layer is { label: string; values: LayerMetrics } => layer.values !== null);
+
+  if (layers.length === 0) return null;
+
+  return (
+    <table className="w-full text-xs mt-2">
+      <thead>
+        <tr className="text-left text-gray-600 border-b">
+          <th className="py-0.5 font-normal">Metric</th>
+          {layers.map(({ label }) => (
+            <th key={label} className="py-0.5 font-normal">{label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {METRIC_ROWS.map(({ label, format }) => (
+          <tr key={label}>
+            <td className="py-0.5">{label}</td>
+            {layers.map(layer => (
+              <td key={layer.label} className="py-0.5">{format(layer.values)}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
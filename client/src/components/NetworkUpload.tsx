@@ -1,14 +1,30 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { BipartiteNetwork, parseCSV, getNetworkStats } from '@/lib/networkBuilder';
+import NetworkMetricsTable from '@/components/NetworkMetricsTable';
+import {
+  BipartiteNetwork,
+  parseLabeledCSV,
+  getNetworkStats,
+  alignNetworkLayers
+} from '@/lib/networkBuilder';
+import { NetworkMetrics } from '@/lib/networkMetrics';
 
 interface NetworkUploadProps {
   onNetworkLoaded: (network: BipartiteNetwork) => void;
   onClear: () => void;
+  usingDefault: boolean;  // The default network is active
+  activeNetwork: BipartiteNetwork;        // Network the model uses
+  networkMetrics: NetworkMetrics | null;  // Structure metrics of the active network
 }
 
-export default function NetworkUpload({ onNetworkLoaded, onClear }: NetworkUploadProps) {
+export default function NetworkUpload({
+  onNetworkLoaded,
+  onClear,
+  usingDefault,
+  activeNetwork,
+  networkMetrics
+}: NetworkUploadProps) {
   const [network, setNetwork] = useState<BipartiteNetwork>({ B: null, S: null });
   const [error, setError] = useState<string>('');
   const [uploadStatus, setUploadStatus] = useState<{
@@ -23,9 +39,10 @@ export default function NetworkUpload({ onNetworkLoaded, onClear }: NetworkUploa
     try {
       setError('');
       const text = await file.text();
-      const matrix = parseCSV(text);
+      const { matrix, rowNames, colNames } = parseLabeledCSV(text);
+      const names = rowNames || colNames ? { plants: rowNames, animals: colNames } : null;
       
-      const newNetwork = { ...network, [type]: matrix };
+      const newNetwork = { ...network, [type]: matrix, [`${type}Names`]: names };
       setNetwork(newNetwork);
       setUploadStatus(prev => ({ ...prev, [type]: true }));
       
@@ -46,6 +63,13 @@ export default function NetworkUpload({ onNetworkLoaded, onClear }: NetworkUploa
   };
 
   const stats = (network.B || network.S) ? getNetworkStats(network) : null;
+  const aligned = network.B && network.S ? alignNetworkLayers(network) : null;
+  const layerOnly = aligned
+    ? [
+        { layer: 'B', species: [...aligned.onlyInB.plants, ...aligned.onlyInB.animals] },
+        { layer: 'S', species: [...aligned.onlyInS.plants, ...aligned.onlyInS.animals] }
+      ].filter(entry => entry.species.length > 0)
+    : [];
 
   return (
     <div className="space-y-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
@@ -111,6 +135,21 @@ export default function NetworkUpload({ onNetworkLoaded, onClear }: NetworkUploa
               <div>Dispersal links: {stats.nDispersalLinks}</div>
             )}
           </div>
+          {networkMetrics && activeNetwork === network && (
+            <NetworkMetricsTable metrics={networkMetrics} />
+          )}
+        </div>
+      )}
+
+      {layerOnly.length > 0 && (
+        <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-200 space-y-1">
+          <div className="font-semibold">Species found in only one layer:</div>
+          {layerOnly.map(({ layer, species }) => (
+            <div key={layer}>
+              Only in {layer}: {species.join(', ')}
+            </div>
+          ))}
+          <div>These species have no interactions in the other layer.</div>
         </div>
       )}
 
@@ -120,14 +159,15 @@ export default function NetworkUpload({ onNetworkLoaded, onClear }: NetworkUploa
         </Button>
       )}
       
-      {!uploadStatus.B && !uploadStatus.S && (
+      {!uploadStatus.B && !uploadStatus.S && usingDefault && (
         <div className="text-xs text-blue-600 bg-blue-50 p-2 rounded border border-blue-100">
           <strong>Default:</strong> Using multilayer network with 3 plants, 3 pollinators, and 3 seed dispersers.
         </div>
       )}
 
       <div className="text-xs text-blue-600 bg-blue-50 p-2 rounded border border-blue-100">
-        <strong>CSV Format:</strong> Comma-separated values, no headers. Each row = plant, each column = animal.
+        <strong>CSV Format:</strong> Comma-, semicolon- or tab-separated values. Each row = plant, each column = animal.
+        Species names in the first row and column are optional; when given, B and S are matched by name.
         Use 0 for no interaction, positive values for interaction strength.
       </div>
     </div>
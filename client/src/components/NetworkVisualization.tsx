@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react';
-import { BipartiteNetwork } from '@/lib/networkBuilder';
+import { BipartiteNetwork, alignNetworkLayers } from '@/lib/networkBuilder';
 
 interface NetworkVisualizationProps {
   network: BipartiteNetwork;
@@ -12,6 +12,14 @@ const ANIMAL_COLOR = '#f59e0b'; // amber
 const POLLINATION_COLOR = '#3b82f6'; // blue
 const DISPERSAL_COLOR = '#8b5cf6'; // purple
 const EXTINCT_COLOR = '#d1d5db'; // gray
+const MAX_LABEL_LENGTH = 14;
+
+/**
+ * Shorten long species names so labels stay inside the canvas
+ */
+function shortLabel(name: string): string {
+  return name.length > MAX_LABEL_LENGTH ? `${name.slice(0, MAX_LABEL_LENGTH - 1)}…` : name;
+}
 
 export default function NetworkVisualization({
   network,
@@ -41,18 +49,24 @@ export default function NetworkVisualization({
     ctx.fillStyle = '#ffffff';
     ctx.fillRect(0, 0, width, height);
 
-    const { B, S } = network;
-    if (!B && !S) return;
+    if (!network.B && !network.S) return;
 
-    // Determine dimensions
-    const Np = B ? B.length : (S ? S.length : 0);
-    const Na = B ? B[0].length : (S ? S[0].length : 0);
+    // Layers aligned by species name, in model order
+    const { B, S, plants, animals } = alignNetworkLayers(network);
+    const Np = plants.length;
+    const Na = animals.length;
+    const names = [...plants, ...animals];
 
     // Layout parameters
     const padding = 40;
     const nodeRadius = 12;
-    const plantX = padding + 30;
-    const animalX = width - padding - 30;
+    
+    // Leave room for the longest label on each side
+    ctx.font = 'bold 11px sans-serif';
+    const labelWidth = (from: number, to: number) =>
+      Math.max(0, ...names.slice(from, to).map(name => ctx.measureText(shortLabel(name)).width));
+    const plantX = Math.max(padding + 30, labelWidth(0, Np) + nodeRadius + 10);
+    const animalX = Math.min(width - padding - 30, width - labelWidth(Np, Np + Na) - nodeRadius - 10);
     
     // Calculate positions
     const plantPositions: Array<{ x: number; y: number }> = [];
@@ -166,7 +180,7 @@ export default function NetworkVisualization({
       ctx.font = 'bold 11px sans-serif';
       ctx.textAlign = 'right';
       ctx.textBaseline = 'middle';
-      ctx.fillText(`P${i + 1}`, pos.x - nodeRadius - 5, pos.y);
+      ctx.fillText(shortLabel(names[i]), pos.x - nodeRadius - 5, pos.y);
     }
 
     // Draw animal nodes
@@ -202,7 +216,7 @@ export default function NetworkVisualization({
       ctx.font = 'bold 11px sans-serif';
       ctx.textAlign = 'left';
       ctx.textBaseline = 'middle';
-      ctx.fillText(`A${i + 1}`, pos.x + nodeRadius + 5, pos.y);
+      ctx.fillText(shortLabel(names[Np + i]), pos.x + nodeRadius + 5, pos.y);
     }
 
     // Draw legend
@@ -259,7 +273,7 @@ export default function NetworkVisualization({
     }
 
   }, [
-    JSON.stringify(network.B) + JSON.stringify(network.S),
+    JSON.stringify(network),
     Array.from(extinctSpecies).join(','),
     populations.length
   ]);
@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { StructureMetric } from '@/lib/networkMetrics';
+import {
+  MetricTest,
+  NULL_MODEL_LABELS,
+  NetworkLayer,
+  NullModel,
+  NullModelResult,
+} from '@/lib/nullModels';
+
+export interface NullModelSettings {
+  model: NullModel;
+  layer: NetworkLayer;
+  metrics: StructureMetric[];
+  nNull: number;
+  dynamics: { duration: number; replicates: number } | null;
+}
+
+interface NullModelPanelProps {
+  layers: NetworkLayer[];
+  result: NullModelResult | null;
+  progress: { completed: number; total: number } | null;
+  onRun: (settings: NullModelSettings) => void;
+  onCancel: () => void;
+  onClear: () => void;
+}
+
+const METRIC_LABELS: Record<MetricTest['metric'], string> = {
+  connectance: 'Connectance',
+  nodf: 'NODF',
+  temperature: 'Temperature',
+  modularity: 'Modularity Q',
+  H2: "H2'",
+  persistence: 'Persistence'
+};
+
+const LAYER_LABELS: Record<NetworkLayer, string> = {
+  B: 'Pollination (B)',
+  S: 'Seed dispersal (S)',
+  combined: 'Combined (B + S)'
+};
+
+const TESTABLE_METRICS: StructureMetric[] = ['nodf', 'temperature', 'modularity', 'H2', 'connectance'];
+
+function formatNumber(value: number, digits = 3): string {
+  return Number.isFinite(value) ? value.toFixed(digits) : '—';
+}
+
+function TestRow({ test }: { test: MetricTest }) {
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-1">{METRIC_LABELS[test.metric]}</td>
+      <td className="py-1">{formatNumber(test.observed)}</td>
+      <td className="py-1">
+        {formatNumber(test.nullMean)} ± {formatNumber(test.nullSd)}
+      </td>
+      <td className="py-1">{formatNumber(test.z, 2)}</td>
+      <td className="py-1">{formatNumber(test.pGreater)}</td>
+      <td className="py-1">{formatNumber(test.pLess)}</td>
+    </tr>
+  );
+}
+
+export default function NullModelPanel({
+  layers,
+  result,
+  progress,
+  onRun,
+  onCancel,
+  onClear
+}: NullModelPanelProps) {
+  const [settings, setSettings] = useState<NullModelSettings>({
+    model: 'curveball',
+    layer: 'combined',
+    metrics: ['nodf', 'modularity'],
+    nNull: 100,
+    dynamics: null
+  });
+
+  const isRunning = progress !== null;
+  const layer = layers.includes(settings.layer) ? settings.layer : layers[0];
+
+  const toggleMetric = (metric: StructureMetric, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      metrics: checked
+        ? TESTABLE_METRICS.filter(m => m === metric || prev.metrics.includes(m))
+        : prev.metrics.filter(m => m !== metric)
+    }));
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border shadow-lg space-y-4">
+      <h3 className="text-lg font-semibold">Null Model Tests</h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="nullModel">Null model</Label>
+          <Select
+            value={settings.model}
+            disabled={isRunning}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, model: value as NullModel }))}
+          >
+            <SelectTrigger id="nullModel">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(NULL_MODEL_LABELS) as NullModel[]).map(model => (
+                <SelectItem key={model} value={model}>{NULL_MODEL_LABELS[model]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="nullLayer">Layer</Label>
+          <Select
+            value={layer}
+            disabled={isRunning}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, layer: value as NetworkLayer }))}
+          >
+            <SelectTrigger id="nullLayer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {layers.map(option => (
+                <SelectItem key={option} value={option}>{LAYER_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-2">
+          <Label htmlFor="nNull">Null networks: {settings.nNull}</Label>
+          <Slider
+            id="nNull"
+            min={10}
+            max={1000}
+            step={10}
+            value={[settings.nNull]}
+            disabled={isRunning}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, nNull: value }))}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {TESTABLE_METRICS.map(metric => (
+          <div key={metric} className="flex items-center gap-1.5">
+            <Checkbox
+              id={`null-${metric}`}
+              checked={settings.metrics.includes(metric)}
+              disabled={isRunning}
+              onCheckedChange={(checked) => toggleMetric(metric, checked === true)}
+            />
+            <Label htmlFor={`null-${metric}`} className="text-sm">{METRIC_LABELS[metric]}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-1.5">
+          <Checkbox
+            id="nullDynamics"
+            checked={settings.dynamics !== null}
+            disabled={isRunning}
+            onCheckedChange={(checked) => setSettings(prev => ({
+              ...prev,
+              dynamics: checked === true ? { duration: 50, replicates: 5 } : null
+            }))}
+          />
+          <Label htmlFor="nullDynamics" className="text-sm">
+            Simulate hurricane dynamics on each network
+          </Label>
+        </div>
+        {settings.dynamics && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="nullDuration">Duration: {settings.dynamics.duration} years</Label>
+              <Slider
+                id="nullDuration"
+                min={10}
+                max={500}
+                step={10}
+                value={[settings.dynamics.duration]}
+                disabled={isRunning}
+                onValueChange={([value]) => setSettings(prev => ({
+                  ...prev,
+                  dynamics: prev.dynamics && { ...prev.dynamics, duration: value }
+                }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="nullReplicates">Replicates: {settings.dynamics.replicates}</Label>
+              <Slider
+                id="nullReplicates"
+                min={1}
+                max={50}
+                step={1}
+                value={[settings.dynamics.replicates]}
+                disabled={isRunning}
+                onValueChange={([value]) => setSettings(prev => ({
+                  ...prev,
+                  dynamics: prev.dynamics && { ...prev.dynamics, replicates: value }
+                }))}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {!isRunning ? (
+          <Button
+            onClick={() => onRun({ ...settings, layer })}
+            disabled={settings.metrics.length === 0 || layers.length === 0}
+            size="sm"
+            className="flex-1"
+          >
+            Run Null Models
+          </Button>
+        ) : (
+          <Button onClick={onCancel} variant="outline" size="sm" className="flex-1">
+            Cancel ({progress.completed} / {progress.total})
+          </Button>
+        )}
+        {result && !isRunning && (
+          <Button onClick={onClear} variant="outline" size="sm">
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {result && (
+        <div className="text-sm space-y-2">
+          <div className="text-xs text-gray-600">
+            {NULL_MODEL_LABELS[result.config.model]}, {LAYER_LABELS[result.config.layer]},{' '}
+            {result.config.nNull} null networks. p-values are one-sided and empirical.
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1">Metric</th>
+                <th className="py-1">Observed</th>
+                <th className="py-1">Null mean ± SD</th>
+                <th className="py-1">z</th>
+                <th className="py-1">P(null ≥ obs)</th>
+                <th className="py-1">P(null ≤ obs)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.tests.map(test => (
+                <TestRow key={test.metric} test={test} />
+              ))}
+              {result.dynamics && <TestRow test={result.dynamics.persistence} />}
+            </tbody>
+          </table>
+          {result.dynamics && (
+            <div className="text-xs text-gray-600">
+              Observed network: persistence {formatNumber(result.dynamics.observed.persistence, 2)},
+              total biomass {formatNumber(result.dynamics.observed.totalBiomass)},
+              P(any extinction) {formatNumber(result.dynamics.observed.extinctionProbability, 2)}.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
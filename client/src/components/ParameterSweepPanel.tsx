@@ -0,0 +1,345 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  SWEEP_RANGES,
+  SweepMetric,
+  SweepParam,
+  SweepResult,
+} from '@/lib/parameterSweep';
+
+export interface SweepSettings {
+  xParam: SweepParam;
+  yParam: SweepParam;
+  resolution: number;
+  replicates: number;
+  duration: number;
+}
+
+interface ParameterSweepPanelProps {
+  result: SweepResult | null;
+  progress: { completed: number; total: number } | null;
+  onRun: (settings: SweepSettings) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onSelectCell: (x: { param: SweepParam; value: number }, y: { param: SweepParam; value: number }) => void;
+}
+
+const METRIC_LABELS: Record<SweepMetric, string> = {
+  persistence: 'Persistence fraction',
+  totalBiomass: 'Total biomass',
+  extinctionProbability: 'P(any extinction)'
+};
+
+const SWEEP_PARAMS = Object.keys(SWEEP_RANGES) as SweepParam[];
+
+/**
+ * Map a value in [0, 1] to a viridis-like colour
+ */
+function heatColor(value: number): string {
+  const stops = [
+    [68, 1, 84],
+    [59, 82, 139],
+    [33, 145, 140],
+    [94, 201, 98],
+    [253, 231, 37]
+  ];
+  const v = Math.min(1, Math.max(0, value)) * (stops.length - 1);
+  const k = Math.min(stops.length - 2, Math.floor(v));
+  const f = v - k;
+  const [r, g, b] = stops[k].map((c, i) => Math.round(c + (stops[k + 1][i] - c) * f));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+export default function ParameterSweepPanel({
+  result,
+  progress,
+  onRun,
+  onCancel,
+  onClear,
+  onSelectCell
+}: ParameterSweepPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [settings, setSettings] = useState<SweepSettings>({
+    xParam: 'mutualisticStrength',
+    yParam: 'hurricaneRate',
+    resolution: 10,
+    replicates: 5,
+    duration: 50
+  });
+  const [metric, setMetric] = useState<SweepMetric>('persistence');
+  const [hover, setHover] = useState<{ i: number; j: number } | null>(null);
+
+  const isRunning = progress !== null;
+  const padding = { top: 10, right: 10, bottom: 40, left: 50 };
+
+  // Colour scale range of the selected metric
+  const values = result ? result.cells.flat().map(cell => cell[metric]) : [];
+  const scaleMin = metric === 'totalBiomass' && values.length > 0 ? Math.min(...values) : 0;
+  const scaleMax = metric === 'totalBiomass' && values.length > 0 ? Math.max(...values) : 1;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas size
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    const width = rect.width;
+    const height = rect.height;
+    const plotWidth = width - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+
+    if (!result) return;
+
+    // Cells, with the first y value at the bottom
+    const nx = result.xValues.length;
+    const ny = result.yValues.length;
+    const cellWidth = plotWidth / nx;
+    const cellHeight = plotHeight / ny;
+    const span = scaleMax - scaleMin || 1;
+    result.cells.forEach((row, j) => {
+      row.forEach((cell, i) => {
+        ctx.fillStyle = heatColor((cell[metric] - scaleMin) / span);
+        ctx.fillRect(
+          padding.left + i * cellWidth,
+          padding.top + (ny - 1 - j) * cellHeight,
+          Math.ceil(cellWidth),
+          Math.ceil(cellHeight)
+        );
+      });
+    });
+
+    if (hover) {
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(
+        padding.left + hover.i * cellWidth,
+        padding.top + (ny - 1 - hover.j) * cellHeight,
+        cellWidth,
+        cellHeight
+      );
+    }
+
+    // Axis labels
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    [0, nx - 1].forEach(i => {
+      ctx.fillText(
+        result.xValues[i].toFixed(2),
+        padding.left + (i + 0.5) * cellWidth,
+        height - padding.bottom + 4
+      );
+    });
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    [0, ny - 1].forEach(j => {
+      ctx.fillText(
+        result.yValues[j].toFixed(2),
+        padding.left - 4,
+        padding.top + (ny - 1 - j + 0.5) * cellHeight
+      );
+    });
+
+    ctx.fillStyle = '#374151';
+    ctx.font = 'bold 12px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(SWEEP_RANGES[result.config.x.param].label, padding.left + plotWidth / 2, height - 2);
+    ctx.save();
+    ctx.translate(12, padding.top + plotHeight / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textBaseline = 'middle';
+    ctx.fillText(SWEEP_RANGES[result.config.y.param].label, 0, 0);
+    ctx.restore();
+  }, [result, metric, hover, scaleMin, scaleMax]);
+
+  // Grid cell under the pointer, if any
+  const cellAt = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!result) return null;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const plotWidth = rect.width - padding.left - padding.right;
+    const plotHeight = rect.height - padding.top - padding.bottom;
+    const fx = (event.clientX - rect.left - padding.left) / plotWidth;
+    const fy = (event.clientY - rect.top - padding.top) / plotHeight;
+    if (fx < 0 || fx >= 1 || fy < 0 || fy >= 1) return null;
+
+    const ny = result.yValues.length;
+    return {
+      i: Math.floor(fx * result.xValues.length),
+      j: ny - 1 - Math.floor(fy * ny)
+    };
+  };
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const cell = cellAt(event);
+    if (!result || !cell) return;
+    onSelectCell(
+      { param: result.config.x.param, value: result.xValues[cell.i] },
+      { param: result.config.y.param, value: result.yValues[cell.j] }
+    );
+  };
+
+  const hovered = result && hover ? result.cells[hover.j][hover.i] : null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg border shadow-lg space-y-4">
+      <h3 className="text-lg font-semibold">Parameter Sweep</h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="sweepX">X axis</Label>
+          <Select
+            value={settings.xParam}
+            disabled={isRunning}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, xParam: value as SweepParam }))}
+          >
+            <SelectTrigger id="sweepX">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SWEEP_PARAMS.filter(param => param !== settings.yParam).map(param => (
+                <SelectItem key={param} value={param}>{SWEEP_RANGES[param].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="sweepY">Y axis</Label>
+          <Select
+            value={settings.yParam}
+            disabled={isRunning}
+            onValueChange={(value) => setSettings(prev => ({ ...prev, yParam: value as SweepParam }))}
+          >
+            <SelectTrigger id="sweepY">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SWEEP_PARAMS.filter(param => param !== settings.xParam).map(param => (
+                <SelectItem key={param} value={param}>{SWEEP_RANGES[param].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="sweepResolution">Grid: {settings.resolution} × {settings.resolution}</Label>
+          <Slider
+            id="sweepResolution"
+            min={3}
+            max={30}
+            step={1}
+            value={[settings.resolution]}
+            disabled={isRunning}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, resolution: value }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="sweepReplicates">Replicates per cell: {settings.replicates}</Label>
+          <Slider
+            id="sweepReplicates"
+            min={1}
+            max={50}
+            step={1}
+            value={[settings.replicates]}
+            disabled={isRunning}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, replicates: value }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="sweepDuration">Duration: {settings.duration} years</Label>
+          <Slider
+            id="sweepDuration"
+            min={10}
+            max={500}
+            step={10}
+            value={[settings.duration]}
+            disabled={isRunning}
+            onValueChange={([value]) => setSettings(prev => ({ ...prev, duration: value }))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="sweepMetric">Metric</Label>
+          <Select value={metric} onValueChange={(value) => setMetric(value as SweepMetric)}>
+            <SelectTrigger id="sweepMetric">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METRIC_LABELS) as SweepMetric[]).map(key => (
+                <SelectItem key={key} value={key}>{METRIC_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {!isRunning ? (
+          <Button onClick={() => onRun(settings)} size="sm" className="flex-1">
+            Run Sweep
+          </Button>
+        ) : (
+          <Button onClick={onCancel} variant="outline" size="sm" className="flex-1">
+            Cancel ({progress.completed} / {progress.total})
+          </Button>
+        )}
+        {result && !isRunning && (
+          <Button onClick={onClear} variant="outline" size="sm">
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          <canvas
+            ref={canvasRef}
+            className="w-full cursor-crosshair"
+            style={{ height: '300px' }}
+            onMouseMove={(event) => setHover(cellAt(event))}
+            onMouseLeave={() => setHover(null)}
+            onClick={handleClick}
+          />
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            <span>{scaleMin.toFixed(2)}</span>
+            <div
+              className="flex-1 h-2 rounded"
+              style={{
+                background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(heatColor).join(', ')})`
+              }}
+            />
+            <span>{scaleMax.toFixed(2)}</span>
+          </div>
+          <div className="text-xs text-gray-600">
+            {hovered
+              ? `${SWEEP_RANGES[result.config.x.param].label} = ${hovered.x.toFixed(3)}, ` +
+                `${SWEEP_RANGES[result.config.y.param].label} = ${hovered.y.toFixed(3)}: ` +
+                `persistence ${hovered.persistence.toFixed(2)}, ` +
+                `biomass ${hovered.totalBiomass.toFixed(3)}, ` +
+                `P(extinction) ${hovered.extinctionProbability.toFixed(2)}`
+              : 'Click a cell to load its parameters into the simulation.'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
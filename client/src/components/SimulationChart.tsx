@@ -1,11 +1,25 @@
-import { useEffect, useRef } from 'react';
-import { HurricaneEvent } from '@/lib/simulationEngine';
+import { useEffect, useMemo, useRef } from 'react';
+import { HazardEvent, HurricaneCategory, HurricaneEvent } from '@/lib/simulationEngine';
+import { categoryColor } from '@/lib/hurricaneCategories';
+import { EnsembleSummary } from '@/lib/ensembleRunner';
+import { HistoryStore } from '@/lib/historyStore';
+import { regionallyExtinct } from '@/lib/metacommunity';
+import { hurricaneStrikesIsland } from '@/lib/hurricaneTracks';
+import { HazardMarker, HazardType } from '@/lib/hazardTypes';
 
 interface SimulationChartProps {
-  history: Array<{ t: number; y: number[] }>;
+  history: HistoryStore | null;
+  historyVersion: number;
   hurricanes: HurricaneEvent[];
+  hazards: HazardEvent[];           // Other hazards, which strike every island
+  hazardTypes: HazardType[];        // Markers and colours of hazards, by id
   extinctSpecies: Set<number>;
-  nSpecies: number;
+  nSpecies: number;                 // Species per island
+  speciesNames?: string[];
+  ensemble?: EnsembleSummary | null;
+  categories: HurricaneCategory[];  // Colours of hurricane markers, by category name
+  islands?: number;                 // Islands in the history, default 1
+  island?: number | null;           // Island to draw, or null for regional totals
 }
 
 const SPECIES_COLORS = [
@@ -17,13 +31,93 @@ const SPECIES_COLORS = [
   '#ec4899', // pink
 ];
 
+const MAX_LEGEND_ENTRIES = 12;
+
+const HAZARD_MARKER_SIZE = 5;
+
+/**
+ * Draw a hazard marker centred on (x, y); hollow markers show compound events
+ */
+function drawHazardMarker(
+  ctx: CanvasRenderingContext2D,
+  marker: HazardMarker,
+  x: number,
+  y: number,
+  color: string,
+  hollow: boolean
+): void {
+  const r = HAZARD_MARKER_SIZE;
+  ctx.beginPath();
+  switch (marker) {
+    case 'triangle':
+      ctx.moveTo(x, y - r);
+      ctx.lineTo(x + r, y + r);
+      ctx.lineTo(x - r, y + r);
+      ctx.closePath();
+      break;
+    case 'square':
+      ctx.rect(x - r, y - r, 2 * r, 2 * r);
+      break;
+    case 'diamond':
+      ctx.moveTo(x, y - r);
+      ctx.lineTo(x + r, y);
+      ctx.lineTo(x, y + r);
+      ctx.lineTo(x - r, y);
+      ctx.closePath();
+      break;
+    default:
+      ctx.arc(x, y, r, 0, 2 * Math.PI);
+  }
+  if (hollow) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = color;
+    ctx.fill();
+  }
+}
+
 export default function SimulationChart({
   history,
+  historyVersion,
   hurricanes,
+  hazards,
+  hazardTypes,
   extinctSpecies,
-  nSpecies
+  nSpecies,
+  speciesNames,
+  ensemble: ensembleSummary,
+  categories,
+  islands = 1,
+  island = null
 }: SimulationChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  
+  // Columns of each drawn species and whether it is extinct in the view
+  const species = Array(nSpecies).fill(0).map((_, i) => i);
+  const groups = islands <= 1
+    ? null
+    : species.map(i =>
+      island !== null
+        ? [island * nSpecies + i]
+        : Array(islands).fill(0).map((_, k) => k * nSpecies + i)
+    );
+  const extinctInView = islands <= 1
+    ? extinctSpecies
+    : island !== null
+      ? new Set(species.filter(i => extinctSpecies.has(island * nSpecies + i)))
+      : regionallyExtinct(extinctSpecies, nSpecies, islands);
+  const extinctKey = Array.from(extinctInView).join(',');
+  const islandView = islands > 1 && island !== null;
+  const shownHurricanes = useMemo(
+    () => (islandView ? hurricanes.filter(h => hurricaneStrikesIsland(h, island)) : hurricanes),
+    [hurricanes, islandView, island]
+  );
+  // Ensembles summarize regional abundances
+  const ensemble = islandView ? null : ensembleSummary;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -49,14 +143,28 @@ export default function SimulationChart({
     ctx.fillStyle = '#ffffff';
     ctx.fillRect(0, 0, width, height);
 
-    if (history.length === 0) return;
+    if (!history || history.length === 0) return;
 
-    // Find data ranges
-    const maxTime = Math.max(...history.map(h => h.t), 1);
-    const maxPop = Math.max(
-      ...history.flatMap(h => h.y),
-      1
-    );
+    // Downsample to roughly one bucket per pixel; min/max are preserved
+    const series = history.downsample(plotWidth, undefined, undefined, groups ?? undefined);
+
+    // Find data ranges (earlier points may have been dropped by retention)
+    const minTime = ensemble ? 0 : history.startTime;
+    let maxTime = Math.max(history.endTime, minTime + 1);
+    let maxPop = 1;
+    for (const { y } of series) {
+      for (let k = 0; k < y.length; k++) {
+        if (y[k] > maxPop) maxPop = y[k];
+      }
+    }
+    if (ensemble) {
+      maxTime = Math.max(maxTime, ...ensemble.times);
+      for (const row of ensemble.upper) {
+        for (const value of row) {
+          if (value > maxPop) maxPop = value;
+        }
+      }
+    }
 
     // Draw axes
     ctx.strokeStyle = '#e5e7eb';
@@ -93,7 +201,7 @@ export default function SimulationChart({
     ctx.textAlign = 'center';
     ctx.textBaseline = 'top';
     for (let i = 0; i <= 5; i++) {
-      const value = (maxTime / 5) * i;
+      const value = minTime + ((maxTime - minTime) / 5) * i;
       const x = padding.left + (plotWidth / 5) * i;
       ctx.fillText(value.toFixed(1), x, height - padding.bottom + 10);
     }
@@ -111,17 +219,54 @@ export default function SimulationChart({
     ctx.restore();
 
     // Scale functions
-    const scaleX = (t: number) => padding.left + (t / maxTime) * plotWidth;
+    const scaleX = (t: number) => padding.left + ((t - minTime) / (maxTime - minTime)) * plotWidth;
     const scaleY = (pop: number) => height - padding.bottom - (pop / maxPop) * plotHeight;
 
+    // Draw other hazards: periods of lowered growth as bands, mortality as
+    // dotted lines, with markers below the hurricane icons linked to the
+    // event setting off a compound hazard
+    const typeOf = new Map(hazardTypes.map(type => [type.id, type]));
+    const markerY = padding.top + 20;
+    hazards.forEach(hazard => {
+      if (hazard.time + hazard.duration < minTime) return;
+      const type = typeOf.get(hazard.hazard);
+      const color = type?.color ?? '#6b7280';
+      const x = scaleX(hazard.time);
+      
+      if (hazard.effect === 'growth') {
+        ctx.fillStyle = color;
+        ctx.globalAlpha = 0.1;
+        ctx.fillRect(x, padding.top, scaleX(Math.min(hazard.time + hazard.duration, maxTime)) - x, plotHeight);
+        ctx.globalAlpha = 1.0;
+      } else {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([2, 3]);
+        ctx.beginPath();
+        ctx.moveTo(x, padding.top);
+        ctx.lineTo(x, height - padding.bottom);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+      
+      if (hazard.time < minTime) return;
+      if (hazard.trigger) {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(scaleX(Math.max(hazard.trigger.time, minTime)), markerY);
+        ctx.lineTo(x, markerY);
+        ctx.stroke();
+      }
+      drawHazardMarker(ctx, type?.marker ?? 'circle', x, markerY, color, hazard.trigger !== undefined);
+    });
+
     // Draw hurricane events
-    hurricanes.forEach(hurricane => {
+    shownHurricanes.forEach(hurricane => {
+      if (hurricane.time < minTime) return;
       const x = scaleX(hurricane.time);
       
-      // Determine color based on damage
-      let color = '#fbbf24'; // yellow for low damage
-      if (hurricane.damage > 0.6) color = '#dc2626'; // red for high damage
-      else if (hurricane.damage > 0.3) color = '#f97316'; // orange for medium damage
+      const color = categoryColor(categories, hurricane.category);
       
       ctx.strokeStyle = color;
       ctx.lineWidth = 2;
@@ -139,36 +284,109 @@ export default function SimulationChart({
       ctx.fillText('🌀', x, padding.top - 5);
     });
 
+    // Draw ensemble confidence bands and means
+    if (ensemble) {
+      for (let species = 0; species < nSpecies; species++) {
+        const color = SPECIES_COLORS[species % SPECIES_COLORS.length];
+        const { times, lower, upper, mean } = ensemble;
+
+        ctx.fillStyle = color;
+        ctx.globalAlpha = 0.15;
+        ctx.beginPath();
+        times.forEach((t, k) => {
+          const x = scaleX(t);
+          const y = scaleY(upper[k][species]);
+          if (k === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        for (let k = times.length - 1; k >= 0; k--) {
+          ctx.lineTo(scaleX(times[k]), scaleY(lower[k][species]));
+        }
+        ctx.closePath();
+        ctx.fill();
+
+        ctx.strokeStyle = color;
+        ctx.globalAlpha = 0.8;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([6, 3]);
+        ctx.beginPath();
+        times.forEach((t, k) => {
+          const x = scaleX(t);
+          const y = scaleY(mean[k][species]);
+          if (k === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.globalAlpha = 1.0;
+      }
+    }
+
     // Draw population lines
-    for (let species = 0; species < nSpecies; species++) {
+    series.forEach(({ t, y }, species) => {
+      if (species >= nSpecies) return;
       const color = SPECIES_COLORS[species % SPECIES_COLORS.length];
-      const isExtinct = extinctSpecies.has(species);
+      const isExtinct = extinctInView.has(species);
       
       ctx.strokeStyle = isExtinct ? '#d1d5db' : color;
       ctx.lineWidth = 2;
       ctx.globalAlpha = isExtinct ? 0.3 : 1.0;
       
       ctx.beginPath();
-      let started = false;
-      
-      for (let i = 0; i < history.length; i++) {
-        const point = history[i];
-        const x = scaleX(point.t);
-        const y = scaleY(point.y[species]);
+      for (let k = 0; k < t.length; k++) {
+        const x = scaleX(t[k]);
+        const yPos = scaleY(y[k]);
         
-        if (!started) {
-          ctx.moveTo(x, y);
-          started = true;
+        if (k === 0) {
+          ctx.moveTo(x, yPos);
         } else {
-          ctx.lineTo(x, y);
+          ctx.lineTo(x, yPos);
         }
       }
       
       ctx.stroke();
       ctx.globalAlpha = 1.0;
+    });
+
+    // Draw species legend in the top-right corner of the plot
+    const entries = Array(Math.min(nSpecies, MAX_LEGEND_ENTRIES)).fill(0).map((_, i) =>
+      speciesNames?.[i] ?? `Species ${i + 1}`
+    );
+    if (nSpecies > MAX_LEGEND_ENTRIES) {
+      entries.push(`+${nSpecies - MAX_LEGEND_ENTRIES} more`);
     }
+    const speciesEntries = entries.length;
+    const legendTypes = hazardTypes.filter(type => hazards.some(e => e.hazard === type.id));
+    entries.push(...legendTypes.map(type => type.name));
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const lineHeight = 14;
+    const legendWidth = Math.max(...entries.map(name => ctx.measureText(name).width)) + 26;
+    const legendX = width - padding.right - legendWidth - 4;
+    const legendY = padding.top + 4;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.fillRect(legendX, legendY, legendWidth, entries.length * lineHeight + 6);
+    entries.forEach((name, i) => {
+      const y = legendY + 3 + (i + 0.5) * lineHeight;
+      const isSpecies = i < nSpecies && i < MAX_LEGEND_ENTRIES;
+      const isExtinct = isSpecies && extinctInView.has(i);
+      if (isSpecies) {
+        ctx.strokeStyle = isExtinct ? '#d1d5db' : SPECIES_COLORS[i % SPECIES_COLORS.length];
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(legendX + 4, y);
+        ctx.lineTo(legendX + 18, y);
+        ctx.stroke();
+      } else if (i >= speciesEntries) {
+        const type = legendTypes[i - speciesEntries];
+        drawHazardMarker(ctx, type.marker, legendX + 11, y, type.color, false);
+      }
+      ctx.fillStyle = isExtinct ? '#9ca3af' : '#374151';
+      ctx.fillText(name, legendX + 22, y);
+    });
 
-  }, [history, hurricanes, Array.from(extinctSpecies).join(','), nSpecies]);
+  }, [history, historyVersion, shownHurricanes, hazards, hazardTypes, extinctKey, nSpecies, speciesNames, ensemble, categories, islands, island]);
 
   return (
     <canvas
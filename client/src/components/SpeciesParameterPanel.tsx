@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { downloadText } from '@/lib/resultsExport';
+import {
+  GUILD_LABELS,
+  Guild,
+  GuildDistributions,
+  SPECIES_PARAM_KEYS,
+  SpeciesParamKey,
+  SpeciesParamRow,
+  parseSpeciesTableCSV,
+  speciesTableToCSV,
+  validateGuildDistributions,
+  validateRow
+} from '@/lib/speciesParameters';
+
+interface SpeciesParameterPanelProps {
+  rows: SpeciesParamRow[];   // Values currently used by the model
+  tableApplied: boolean;     // The rows come from a user table, not the default draws
+  distributions: GuildDistributions;  // Guild ranges the default values are drawn from
+  onApply: (table: SpeciesParamRow[]) => void;
+  onReset: () => void;
+  onDistributionsChange: (distributions: GuildDistributions) => void;
+}
+
+type ParamKey = SpeciesParamKey;
+
+const PARAM_LABELS: Record<ParamKey, string> = {
+  r: 'r',
+  h: 'h',
+  alpha: 'α',
+  vulnerability: 'Vuln.',
+  trait: 'Trait',
+  dispersal: 'Disp.'
+};
+
+const PARAM_KEYS = SPECIES_PARAM_KEYS;
+
+function NumberInput({
+  value,
+  onChange,
+  label
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  label: string;
+}) {
+  return (
+    <input
+      type="number"
+      step="0.01"
+      aria-label={label}
+      value={Number.isFinite(value) ? Number(value.toFixed(4)) : ''}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-16 px-1 py-0.5 text-xs border rounded bg-white"
+    />
+  );
+}
+
+export default function SpeciesParameterPanel({
+  rows,
+  tableApplied,
+  distributions: appliedDistributions,
+  onApply,
+  onReset,
+  onDistributionsChange
+}: SpeciesParameterPanelProps) {
+  const [draft, setDraft] = useState<SpeciesParamRow[]>(rows);
+  const [distributions, setDistributions] = useState<GuildDistributions>(appliedDistributions);
+  const [error, setError] = useState<string>('');
+
+  // Edits are discarded when the model is rebuilt
+  useEffect(() => {
+    setDraft(rows);
+  }, [rows]);
+
+  useEffect(() => {
+    setDistributions(appliedDistributions);
+  }, [appliedDistributions]);
+
+  const dirty = draft.some((row, i) =>
+    PARAM_KEYS.some(key => row[key] !== rows[i]?.[key])
+  );
+  const guilds = (Object.keys(GUILD_LABELS) as Guild[]).filter(guild =>
+    rows.some(row => row.guild === guild)
+  );
+
+  const apply = (table: SpeciesParamRow[]) => {
+    try {
+      table.forEach(validateRow);
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+    setError('');
+    onApply(table);
+  };
+
+  const editRow = (i: number, key: ParamKey, value: number) => {
+    setDraft(prev => prev.map((row, k) => (k === i ? { ...row, [key]: value } : row)));
+  };
+
+  const editRange = (guild: Guild, key: ParamKey, bound: 'min' | 'max', value: number) => {
+    setDistributions(prev => ({
+      ...prev,
+      [guild]: { ...prev[guild], [key]: { ...prev[guild][key], [bound]: value } }
+    }));
+  };
+
+  // New ranges replace any table, so the model draws from them
+  const handleApplyRanges = () => {
+    try {
+      validateGuildDistributions(distributions);
+    } catch (err) {
+      setError(`Invalid range: ${(err as Error).message}`);
+      return;
+    }
+    setError('');
+    onDistributionsChange(distributions);
+    onReset();
+  };
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      apply(parseSpeciesTableCSV(await file.text(), draft));
+    } catch (err) {
+      setError(`Error loading species table: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border shadow-lg space-y-4">
+      <h3 className="text-lg font-semibold">Species Parameters</h3>
+
+      <p className="text-xs text-gray-600">
+        Growth rate r, half-saturation h, self-regulation α, hurricane vulnerability,
+        damage trait and dispersal multiplier between islands of each species.
+        {tableApplied
+          ? ' These values replace the drawn growth rates and the h and self-regulation sliders.'
+          : ' Values are drawn from the guild ranges below until a table is applied.'}
+        {' '}A negative r makes a species an obligate mutualist.
+      </p>
+
+      <div className="overflow-x-auto max-h-64 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-1">Species</th>
+              <th className="py-1">Guild</th>
+              {PARAM_KEYS.map(key => (
+                <th key={key} className="py-1">{PARAM_LABELS[key]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {draft.map((row, i) => (
+              <tr key={row.name} className="border-b last:border-0">
+                <td className="py-1 pr-2 truncate max-w-[10rem]" title={row.name}>{row.name}</td>
+                <td className="py-1 pr-2 text-gray-600">{GUILD_LABELS[row.guild]}</td>
+                {PARAM_KEYS.map(key => (
+                  <td key={key} className="py-1 pr-1">
+                    <NumberInput
+                      label={`${PARAM_LABELS[key]} of ${row.name}`}
+                      value={row[key]}
+                      onChange={(value) => editRow(i, key, value)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => apply(draft)} disabled={!dirty} size="sm">
+          Apply Edits
+        </Button>
+        <Button
+          onClick={() => downloadText(speciesTableToCSV(draft), 'species-parameters.csv', 'text/csv')}
+          variant="outline"
+          size="sm"
+        >
+          Download CSV
+        </Button>
+        {tableApplied && (
+          <Button onClick={onReset} variant="outline" size="sm">
+            Use Drawn Values
+          </Button>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="file-species" className="text-sm">
+          Import CSV (species, r, h, alpha, vulnerability, trait, dispersal)
+        </Label>
+        <input
+          id="file-species"
+          type="file"
+          accept=".csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFileUpload(file);
+          }}
+          className="block w-full text-sm text-gray-600 file:mr-4 file:py-1 file:px-3 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-gray-200 file:text-gray-700 hover:file:bg-gray-300 mt-1"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Draw by guild (uniform ranges)</div>
+        <div className="text-xs text-gray-600">
+          r is drawn as given; h and α multiply the half-saturation and self-regulation
+          sliders, and vulnerability and dispersal their guild sliders. Draws use the run's seed.
+        </div>
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="pr-2">Guild</th>
+                {PARAM_KEYS.map(key => (
+                  <th key={key} className="pr-2">{PARAM_LABELS[key]} min – max</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {guilds.map(guild => (
+                <tr key={guild}>
+                  <td className="pr-2 py-0.5">{GUILD_LABELS[guild]}</td>
+                  {PARAM_KEYS.map(key => (
+                    <td key={key} className="pr-2 py-0.5 whitespace-nowrap">
+                      <NumberInput
+                        label={`${GUILD_LABELS[guild]} ${PARAM_LABELS[key]} min`}
+                        value={distributions[guild][key].min}
+                        onChange={(value) => editRange(guild, key, 'min', value)}
+                      />
+                      {' '}
+                      <NumberInput
+                        label={`${GUILD_LABELS[guild]} ${PARAM_LABELS[key]} max`}
+                        value={distributions[guild][key].max}
+                        onChange={(value) => editRange(guild, key, 'max', value)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <Button onClick={handleApplyRanges} variant="outline" size="sm">
+          Apply Ranges
+        </Button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
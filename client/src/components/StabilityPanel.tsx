@@ -0,0 +1,105 @@
+import { Button } from '@/components/ui/button';
+import { EquilibriumReport } from '@/lib/equilibriumAnalysis';
+import { Complex } from '@/lib/linearAlgebra';
+
+interface StabilityPanelProps {
+  equilibria: EquilibriumReport[] | null;
+  speciesNames: string[];
+  onAnalyze: () => void;
+}
+
+function formatComplex(value: Complex): string {
+  if (Math.abs(value.im) < 1e-12) return value.re.toFixed(4);
+  const sign = value.im < 0 ? '-' : '+';
+  return `${value.re.toFixed(4)} ${sign} ${Math.abs(value.im).toFixed(4)}i`;
+}
+
+export default function StabilityPanel({ equilibria, speciesNames, onAnalyze }: StabilityPanelProps) {
+  const interior = equilibria?.find(eq => eq.interior) ?? null;
+  const boundary = equilibria?.filter(eq => !eq.interior) ?? [];
+
+  return (
+    <div className="bg-white p-4 rounded-lg border shadow-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Equilibrium & Stability</h3>
+        <Button onClick={onAnalyze} variant="outline" size="sm">
+          Analyze
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-600">
+        Equilibria of the community without hazards, found by damped Newton
+        iteration continued from the current state.
+      </p>
+
+      {interior && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+          <div className="bg-gray-50 p-3 rounded border">
+            <div className="text-xs text-gray-600">Interior equilibrium</div>
+            <div className={`font-bold ${interior.feasible ? 'text-green-700' : 'text-red-600'}`}>
+              {interior.feasible ? 'Feasible' : interior.converged ? 'Not feasible' : 'Not found'}
+            </div>
+          </div>
+          <div className="bg-gray-50 p-3 rounded border">
+            <div className="text-xs text-gray-600">Local stability</div>
+            <div className={`font-bold ${interior.stable ? 'text-green-700' : 'text-red-600'}`}>
+              {interior.stable ? 'Stable' : 'Unstable'}
+            </div>
+          </div>
+          <div className="bg-gray-50 p-3 rounded border">
+            <div className="text-xs text-gray-600">Resilience (-Re λ₁)</div>
+            <div className="font-bold">{interior.resilience.toFixed(4)}</div>
+          </div>
+          <div className="bg-gray-50 p-3 rounded border">
+            <div className="text-xs text-gray-600">Reactivity</div>
+            <div className="font-bold">{interior.reactivity.toFixed(4)}</div>
+          </div>
+        </div>
+      )}
+
+      {interior && interior.converged && (
+        <div className="text-xs space-y-1">
+          <div>
+            <span className="font-semibold">Dominant eigenvalue:</span>{' '}
+            {formatComplex(interior.dominantEigenvalue)}
+          </div>
+          <div className="break-words">
+            <span className="font-semibold">Eigenvalues:</span>{' '}
+            {interior.eigenvalues.map(formatComplex).join(', ')}
+          </div>
+          <div className="break-words">
+            <span className="font-semibold">Abundances:</span>{' '}
+            {interior.populations.map(val => val.toFixed(3)).join(', ')}
+          </div>
+        </div>
+      )}
+
+      {equilibria && boundary.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-1">Boundary equilibrium (species present)</th>
+              <th className="py-1">Stable</th>
+              <th className="py-1">Uninvadable</th>
+              <th className="py-1">Dominant eigenvalue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {boundary.map(eq => (
+              <tr key={eq.support.join(',')} className="border-b last:border-0">
+                <td className="py-1">{eq.support.map(i => speciesNames[i] ?? i + 1).join(', ')}</td>
+                <td className="py-1">{eq.stable ? 'yes' : 'no'}</td>
+                <td className="py-1">{eq.saturated ? 'yes' : 'no'}</td>
+                <td className="py-1">{formatComplex(eq.dominantEigenvalue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {equilibria && equilibria.length === 0 && (
+        <div className="text-sm text-gray-600">No equilibria found.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ExtinctionEvent,
+  HazardEvent,
+  HurricaneEvent,
+  RecolonizationEvent,
+  SimulationConfig,
+} from "@/lib/simulationEngine";
+import { HistoryStore } from "@/lib/historyStore";
+import type { SetupParams, SimulationSetup } from "@/lib/simulationSetup";
+import type { EnsembleConfig, EnsembleSummary } from "@/lib/ensembleRunner";
+import type { SweepConfig, SweepResult } from "@/lib/parameterSweep";
+import type { BipartiteNetwork } from "@/lib/networkBuilder";
+import type { NullModelConfig, NullModelResult } from "@/lib/nullModels";
+import type {
+  WorkerRequest,
+  WorkerResponse,
+} from "@/lib/simulationProtocol";
+
+export interface WorkerSimulationState {
+  time: number;
+  populations: number[];
+  history: HistoryStore | null;
+  historyVersion: number;  // Incremented whenever history is appended to
+  hurricanes: HurricaneEvent[];
+  hazards: HazardEvent[];
+  extinctions: ExtinctionEvent[];
+  recolonizations: RecolonizationEvent[];
+  extinctSpecies: Set<number>;
+  config: SimulationConfig | null;
+}
+
+type ProgressCallback = (completed: number, total: number) => void;
+
+// Final message of a batch job; its type tells which job it answers
+type BatchResponse = Extract<
+  WorkerResponse,
+  { type: "ensembleResult" | "sweepResult" | "nullModelResult" }
+>;
+
+interface PendingBatch {
+  resolve: (response: BatchResponse | null) => void;
+  onProgress?: ProgressCallback;
+}
+
+const EMPTY_STATE: WorkerSimulationState = {
+  time: 0,
+  populations: [],
+  history: null,
+  historyVersion: 0,
+  hurricanes: [],
+  hazards: [],
+  extinctions: [],
+  recolonizations: [],
+  extinctSpecies: new Set(),
+  config: null,
+};
+
+/**
+ * Runs the simulation engine in a Web Worker and mirrors its state.
+ * History arrives as incremental deltas and is appended to a local
+ * HistoryStore in place; historyVersion signals the change.
+ * Ensembles, parameter sweeps and null model tests run in a second instance of the worker so that a long batch
+ * never stalls the interactive run; they resolve to null when cancelled.
+ */
+export function useSimulationWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const batchWorkerRef = useRef<Worker | null>(null);
+  const batchesRef = useRef(new Map<number, PendingBatch>());
+  const nextBatchRef = useRef(0);
+  const ensembleBatchRef = useRef<number | null>(null);
+  const sweepBatchRef = useRef<number | null>(null);
+  const nullModelBatchRef = useRef<number | null>(null);
+  const historyRef = useRef<HistoryStore | null>(null);
+  const [state, setState] = useState<WorkerSimulationState>(EMPTY_STATE);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMessage = useCallback((event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "snapshot": {
+        const { state: snapshot, config, history } = message;
+        const store = new HistoryStore(
+          snapshot.populations.length,
+          config.historyRetention
+        );
+        store.pushChunk(history);
+        historyRef.current = store;
+        setError(null);
+        setState(prev => ({
+          time: snapshot.time,
+          populations: snapshot.populations,
+          history: store,
+          historyVersion: prev.historyVersion + 1,
+          hurricanes: snapshot.hurricanes,
+          hazards: snapshot.hazards,
+          extinctions: snapshot.extinctions,
+          recolonizations: snapshot.recolonizations,
+          extinctSpecies: snapshot.extinctSpecies,
+          config,
+        }));
+        break;
+      }
+      case "delta": {
+        const { delta } = message;
+        historyRef.current?.pushChunk(delta.history);
+        setState(prev => ({
+          ...prev,
+          time: delta.time,
+          populations: delta.populations,
+          historyVersion: prev.historyVersion + 1,
+          hurricanes:
+            delta.hurricanes.length > 0
+              ? [...prev.hurricanes, ...delta.hurricanes]
+              : prev.hurricanes,
+          hazards:
+            delta.hazards.length > 0
+              ? [...prev.hazards, ...delta.hazards]
+              : prev.hazards,
+          extinctions:
+            delta.extinctions.length > 0
+              ? [...prev.extinctions, ...delta.extinctions]
+              : prev.extinctions,
+          recolonizations:
+            delta.recolonizations.length > 0
+              ? [...prev.recolonizations, ...delta.recolonizations]
+              : prev.recolonizations,
+          extinctSpecies:
+            delta.extinctions.length > 0 || delta.recolonizations.length > 0
+              ? new Set(delta.extinctSpecies)
+              : prev.extinctSpecies,
+        }));
+        break;
+      }
+      case "error":
+        setError(message.message);
+        break;
+      case "batchProgress":
+        batchesRef.current
+          .get(message.id)
+          ?.onProgress?.(message.completed, message.total);
+        break;
+      case "ensembleResult":
+      case "sweepResult":
+      case "nullModelResult":
+        batchesRef.current.get(message.id)?.resolve(message);
+        batchesRef.current.delete(message.id);
+        break;
+      case "batchError":
+        setError(message.message);
+        batchesRef.current.get(message.id)?.resolve(null);
+        batchesRef.current.delete(message.id);
+        break;
+    }
+  }, []);
+
+  const createWorker = useCallback(() => {
+    const worker = new Worker(
+      new URL("../lib/simulationWorker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.onmessage = handleMessage;
+    return worker;
+  }, [handleMessage]);
+
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) workerRef.current = createWorker();
+    return workerRef.current;
+  }, [createWorker]);
+
+  const getBatchWorker = useCallback(() => {
+    if (!batchWorkerRef.current) batchWorkerRef.current = createWorker();
+    return batchWorkerRef.current;
+  }, [createWorker]);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      batchWorkerRef.current?.terminate();
+      batchWorkerRef.current = null;
+    };
+  }, []);
+
+  const send = useCallback(
+    (message: WorkerRequest) => getWorker().postMessage(message),
+    [getWorker]
+  );
+
+  const init = useCallback(
+    (setup: SimulationSetup) => send({ type: "init", setup }),
+    [send]
+  );
+  const run = useCallback(
+    (stepDuration: number, stepsPerTick: number) =>
+      send({ type: "run", stepDuration, stepsPerTick }),
+    [send]
+  );
+  const step = useCallback(
+    (duration: number) => send({ type: "step", duration }),
+    [send]
+  );
+  const pause = useCallback(() => send({ type: "pause" }), [send]);
+  const reset = useCallback(
+    (initialPopulation?: number[]) => send({ type: "reset", initialPopulation }),
+    [send]
+  );
+  const updateParams = useCallback(
+    (update: Omit<Extract<WorkerRequest, { type: "updateParams" }>, "type">) =>
+      send({ type: "updateParams", ...update }),
+    [send]
+  );
+  const snapshot = useCallback(() => send({ type: "snapshot" }), [send]);
+
+  const startBatch = useCallback(
+    (
+      request: (id: number) => WorkerRequest,
+      onProgress?: ProgressCallback
+    ): [number, Promise<BatchResponse | null>] => {
+      const id = ++nextBatchRef.current;
+      const result = new Promise<BatchResponse | null>(resolve => {
+        batchesRef.current.set(id, { resolve, onProgress });
+      });
+      getBatchWorker().postMessage(request(id));
+      return [id, result];
+    },
+    [getBatchWorker]
+  );
+  const cancelBatch = useCallback(
+    (id: number | null) => {
+      if (id !== null) getBatchWorker().postMessage({ type: "cancelBatch", id });
+    },
+    [getBatchWorker]
+  );
+
+  const runEnsemble = useCallback(
+    (setup: SimulationSetup, config: EnsembleConfig, onProgress?: ProgressCallback) => {
+      const [id, result] = startBatch(
+        id => ({ type: "runEnsemble", id, setup, config }),
+        onProgress
+      );
+      ensembleBatchRef.current = id;
+      return result.then((response): EnsembleSummary | null =>
+        response?.type === "ensembleResult" ? response.summary : null
+      );
+    },
+    [startBatch]
+  );
+  const cancelEnsemble = useCallback(
+    () => cancelBatch(ensembleBatchRef.current),
+    [cancelBatch]
+  );
+
+  const runSweep = useCallback(
+    (
+      base: SetupParams,
+      network: BipartiteNetwork | null,
+      config: SweepConfig,
+      onProgress?: ProgressCallback
+    ) => {
+      const [id, result] = startBatch(
+        id => ({ type: "runSweep", id, base, network, config }),
+        onProgress
+      );
+      sweepBatchRef.current = id;
+      return result.then((response): SweepResult | null =>
+        response?.type === "sweepResult" ? response.result : null
+      );
+    },
+    [startBatch]
+  );
+  const cancelSweep = useCallback(
+    () => cancelBatch(sweepBatchRef.current),
+    [cancelBatch]
+  );
+
+  const runNullModels = useCallback(
+    (
+      network: BipartiteNetwork,
+      config: NullModelConfig,
+      params?: SetupParams,
+      onProgress?: ProgressCallback
+    ) => {
+      const [id, result] = startBatch(
+        id => ({ type: "runNullModels", id, network, config, params }),
+        onProgress
+      );
+      nullModelBatchRef.current = id;
+      return result.then((response): NullModelResult | null =>
+        response?.type === "nullModelResult" ? response.result : null
+      );
+    },
+    [startBatch]
+  );
+  const cancelNullModels = useCallback(
+    () => cancelBatch(nullModelBatchRef.current),
+    [cancelBatch]
+  );
+
+  return {
+    state,
+    error,
+    init,
+    run,
+    step,
+    pause,
+    reset,
+    updateParams,
+    snapshot,
+    runEnsemble,
+    cancelEnsemble,
+    runSweep,
+    cancelSweep,
+    runNullModels,
+    cancelNullModels,
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * Point processes for the timing of hurricanes
+ */
+
+import { logGamma } from './specialFunctions';
+import { RandomSource, randomGamma } from './random';
+import {
+  HazardRegime,
+  maxRateMultiplier,
+  nextHazardTime,
+  rateMultiplier,
+  trendMultiplier
+} from './hazardRegimes';
+
+/**
+ * Arrival process of hurricanes
+ * - poisson: independent arrivals at the hurricane rate
+ * - hawkes: self-exciting; each hurricane briefly raises the rate of others
+ * - weibull / gamma: renewal process with the given distribution of gaps
+ * - catalogue: replay of observed event times
+ */
+export type ArrivalProcessType = 'poisson' | 'hawkes' | 'weibull' | 'gamma' | 'catalogue';
+
+export const ARRIVAL_PROCESS_LABELS: Record<ArrivalProcessType, string> = {
+  poisson: 'Poisson',
+  hawkes: 'Hawkes (self-exciting)',
+  weibull: 'Weibull renewal',
+  gamma: 'Gamma renewal',
+  catalogue: 'Observed catalogue (CSV)'
+};
+
+/**
+ * Arrival process settings; the mean rate of the Poisson, Hawkes and
+ * renewal types is the hurricane rate
+ */
+export interface ArrivalProcess {
+  type: ArrivalProcessType;
+  excitation: number;         // Hawkes: expected hurricanes triggered by each hurricane (< 1)
+  decay: number;              // Hawkes: decay rate of the excitation per year
+  shape: number;              // Renewal: shape of the gap distribution; below 1 clusters, above 1 spaces out
+  catalogue: number[] | null; // Event times in years from the start of the record, increasing
+  repeat: boolean;            // Catalogue: replay the record again when a run outlasts it
+}
+
+export const DEFAULT_ARRIVAL_PROCESS: ArrivalProcess = {
+  type: 'poisson',
+  excitation: 0.5,
+  decay: 4,
+  shape: 0.7,
+  catalogue: null,
+  repeat: true
+};
+
+// Past hurricanes whose excitation has decayed below this are ignored
+const EXCITATION_CUTOFF = 1e-12;
+
+/**
+ * Generate random number from exponential distribution
+ */
+function randomExponential(lambda: number, random: RandomSource): number {
+  return -Math.log(1 - random()) / lambda;
+}
+
+/**
+ * Check that a process can be simulated
+ */
+export function validateArrivalProcess(process: ArrivalProcess): void {
+  switch (process.type) {
+    case 'hawkes':
+      if (!(process.excitation >= 0 && process.excitation < 1) || !(process.decay > 0)) {
+        throw new Error('Hawkes process needs an excitation in [0, 1) and a positive decay');
+      }
+      break;
+    case 'weibull':
+    case 'gamma':
+      if (!(process.shape > 0)) {
+        throw new Error('Renewal process needs a positive shape');
+      }
+      break;
+    case 'catalogue':
+      if (!process.catalogue || process.catalogue.length === 0) {
+        throw new Error('Catalogue replay needs observed event times');
+      }
+      break;
+  }
+}
+
+/**
+ * Hawkes excitation at time t from past hurricanes
+ * Each hurricane adds excitation * decay * exp(-decay * (t - t_i)), which
+ * integrates to the expected number of hurricanes it triggers.
+ */
+function hawkesExcitation(process: ArrivalProcess, past: ReadonlyArray<{ time: number }>, t: number): number {
+  let sum = 0;
+  for (let k = past.length - 1; k >= 0; k--) {
+    const term = Math.exp(-process.decay * (t - past[k].time));
+    if (term < EXCITATION_CUTOFF) break;
+    sum += term;
+  }
+  return process.excitation * process.decay * sum;
+}
+
+/**
+ * First hurricane of a Hawkes process in (t0, t1], given past hurricane times
+ * The background rate is baseRate * (1 - excitation) so that the long-run
+ * rate stays baseRate; a regime scales the background. Sampled by Ogata
+ * thinning, using that the excitation only decays between hurricanes.
+ */
+export function hawkesNextTime(
+  baseRate: number,
+  process: ArrivalProcess,
+  regime: HazardRegime | undefined,
+  past: ReadonlyArray<{ time: number }>,
+  t0: number,
+  t1: number,
+  random: RandomSource
+): number | null {
+  const background = baseRate * (1 - process.excitation);
+  const maxBackground = background * (regime ? maxRateMultiplier(regime, t0, t1) : 1);
+  
+  let t = t0;
+  for (;;) {
+    const bound = maxBackground + hawkesExcitation(process, past, t);
+    if (bound <= 0) return null;
+    t += randomExponential(bound, random);
+    if (t > t1) return null;
+    const rate = background * (regime ? rateMultiplier(regime, t) : 1) + hawkesExcitation(process, past, t);
+    if (random() * bound <= rate) return t;
+  }
+}
+
+/**
+ * Gap to the next hurricane of a renewal process with mean 1 / rate
+ * A regime's trend at the previous hurricane scales the rate; its seasonal
+ * cycle does not apply to renewal processes.
+ */
+export function renewalGap(
+  baseRate: number,
+  process: ArrivalProcess,
+  regime: HazardRegime | undefined,
+  previous: number,
+  random: RandomSource
+): number {
+  const rate = baseRate * (regime ? trendMultiplier(regime, previous) : 1);
+  if (rate <= 0) return Infinity;
+  const mean = 1 / rate;
+  if (process.type === 'weibull') {
+    const scale = mean / Math.exp(logGamma(1 + 1 / process.shape));
+    return scale * (-Math.log(1 - random())) ** (1 / process.shape);
+  }
+  return randomGamma(process.shape, random) * mean / process.shape;
+}
+
+/**
+ * Time of the n-th hurricane of a catalogue, counting from 0
+ * A repeated record restarts after the whole number of years it spans.
+ * @returns The time, or null when the record is exhausted
+ */
+export function catalogueTime(process: ArrivalProcess, n: number): number | null {
+  const times = process.catalogue;
+  if (!times || times.length === 0) return null;
+  if (n < times.length) return times[n];
+  if (!process.repeat) return null;
+  const period = Math.floor(times[times.length - 1]) + 1;
+  return Math.floor(n / times.length) * period + times[n % times.length];
+}
+
+/**
+ * Time of the next event in [t0, t1] of an arrival process, or null
+ * Poisson and Hawkes arrivals are drawn afresh for each interval, which is
+ * exact as both depend only on past events; a changing regime is sampled
+ * by thinning. A renewal arrival is drawn once and handed back as
+ * scheduled until an interval reaches it. A catalogue ignores the rate.
+ */
+export function nextArrivalTime(
+  process: ArrivalProcess | undefined,
+  rate: number,
+  regime: HazardRegime | undefined,
+  past: ReadonlyArray<{ time: number }>,
+  t0: number,
+  t1: number,
+  random: RandomSource,
+  scheduled: number | null
+): { time: number | null; scheduled: number | null } {
+  if (process?.type === 'catalogue') {
+    // Skip events before t0, passed while another process was active
+    let n = past.length;
+    let time = catalogueTime(process, n);
+    while (time !== null && time < t0) {
+      time = catalogueTime(process, ++n);
+    }
+    return { time: time !== null && time <= t1 ? time : null, scheduled };
+  }
+  
+  if (rate <= 0) return { time: null, scheduled };
+  
+  switch (process?.type) {
+    case 'hawkes':
+      return { time: hawkesNextTime(rate, process, regime, past, t0, t1, random), scheduled };
+    case 'weibull':
+    case 'gamma': {
+      const next = scheduled ?? t0 + renewalGap(rate, process, regime, t0, random);
+      return { time: next <= t1 ? next : null, scheduled: next };
+    }
+    default: {
+      if (regime) {
+        return { time: nextHazardTime(rate, regime, t0, t1, random), scheduled };
+      }
+      const next = t0 + randomExponential(rate, random);
+      return { time: next <= t1 ? next : null, scheduled };
+    }
+  }
+}
+
+/**
+ * Decimal year of an ISO date such as 2017-09-20
+ */
+function decimalYear(date: string): number {
+  const match = /^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?/.exec(date.trim());
+  if (!match) {
+    throw new Error(`Unrecognized date "${date.trim()}"; use YYYY-MM-DD`);
+  }
+  const year = Number(match[1]);
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  const time = Date.UTC(year, Number(match[2]) - 1, Number(match[3] ?? 1));
+  return year + (time - start) / (end - start);
+}
+
+/**
+ * Read an event catalogue from CSV
+ * Events are given by ISO dates (a date column, or the first column), by
+ * year with optional month and day columns, or by one column of decimal
+ * years. Other columns, such as storm names, are ignored. Times are
+ * counted from 1 January of the first year in the record.
+ */
+export function parseCatalogueCSV(csvText: string): number[] {
+  const rows = csvText
+    .replace(/^\uFEFF/, '')
+    .split(/\r\n?|\n/)
+    .filter(line => line.trim() !== '')
+    .map(line => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1')));
+  if (rows.length === 0) {
+    throw new Error('Empty CSV file');
+  }
+  
+  const isDate = (cell: string) => /^\d{4}-\d{1,2}/.test(cell);
+  const isNumber = (cell: string) => cell !== '' && Number.isFinite(Number(cell));
+  const hasHeader = rows[0].some(cell => !isNumber(cell) && !isDate(cell));
+  const names = hasHeader ? rows[0].map(name => name.toLowerCase()) : [];
+  const body = hasHeader ? rows.slice(1) : rows;
+  if (body.length === 0) {
+    throw new Error('Catalogue has no events');
+  }
+  const column = (...keys: string[]) => names.findIndex(name => keys.includes(name));
+  
+  const cDate = column('date');
+  const cYear = column('year', 'time');
+  const [cMonth, cDay] = [column('month'), column('day')];
+  const years = body.map((row, r) => {
+    const line = r + (hasHeader ? 2 : 1);
+    const cell = (c: number) => {
+      if (!isNumber(row[c] ?? '')) {
+        throw new Error(`Invalid catalogue: expected a number at line ${line}, column ${c + 1}`);
+      }
+      return Number(row[c]);
+    };
+    if (cDate >= 0 || (cYear < 0 && isDate(row[0]))) {
+      return decimalYear(row[Math.max(0, cDate)]);
+    }
+    if (cMonth >= 0) {
+      return decimalYear(`${cell(cYear)}-${cell(cMonth)}-${cDay >= 0 ? cell(cDay) : 1}`);
+    }
+    return cell(Math.max(0, cYear));
+  });
+  
+  const sorted = [...years].sort((a, b) => a - b);
+  const origin = Math.floor(sorted[0]);
+  return sorted.map(year => year - origin);
+}
@@ -0,0 +1,240 @@
+/**
+ * Continuous distributions of hurricane damage
+ */
+
+import { parseLabeledCSV } from './networkBuilder';
+import { logGamma, normalCDF } from './specialFunctions';
+import { RandomSource, randomBeta, randomNormal } from './random';
+import { HurricaneCategory } from './simulationEngine';
+
+export type DamageDistributionType = 'categorical' | 'beta' | 'logNormal' | 'empirical';
+
+export const DAMAGE_DISTRIBUTION_LABELS: Record<DamageDistributionType, string> = {
+  categorical: 'Categories (discrete)',
+  beta: 'Beta',
+  logNormal: 'Truncated log-normal',
+  empirical: 'Empirical histogram (CSV)'
+};
+
+/**
+ * Histogram of observed damage fractions
+ */
+export interface DamageHistogram {
+  lower: number[];    // Bin edges within [0, 1]
+  upper: number[];
+  weights: number[];  // Counts or relative frequencies
+}
+
+/**
+ * Distribution of hurricane damage fractions
+ * Only the fields of the selected type are sampled from.
+ */
+export interface DamageDistribution {
+  type: DamageDistributionType;
+  mean: number;       // Beta mean
+  sd: number;         // Beta standard deviation
+  median: number;     // Log-normal median
+  sigma: number;      // Log-normal standard deviation of log damage
+  histogram: DamageHistogram | null;
+}
+
+export const DEFAULT_DAMAGE_DISTRIBUTION: DamageDistribution = {
+  type: 'categorical',
+  mean: 0.4,
+  sd: 0.2,
+  median: 0.3,
+  sigma: 0.8,
+  histogram: null
+};
+
+// Number of bins used for a file of raw observations
+const OBSERVATION_BINS = 20;
+
+/**
+ * Beta shape parameters from mean and standard deviation
+ * The variance is capped just below its maximum mean * (1 - mean).
+ */
+function betaShape(mean: number, sd: number): { a: number; b: number } {
+  const m = Math.min(0.999, Math.max(0.001, mean));
+  const maxVariance = m * (1 - m);
+  const variance = Math.min(0.99 * maxVariance, Math.max(1e-6, sd * sd));
+  const k = maxVariance / variance - 1;
+  return { a: m * k, b: (1 - m) * k };
+}
+
+/**
+ * Check that a distribution can be sampled
+ */
+export function validateDamageDistribution(dist: DamageDistribution): void {
+  switch (dist.type) {
+    case 'beta':
+      if (!(dist.mean > 0 && dist.mean < 1) || !(dist.sd > 0)) {
+        throw new Error('Beta damage needs a mean between 0 and 1 and a positive standard deviation');
+      }
+      break;
+    case 'logNormal':
+      if (!(dist.median > 0 && dist.median <= 1) || !(dist.sigma > 0)) {
+        throw new Error('Log-normal damage needs a median in (0, 1] and a positive sigma');
+      }
+      break;
+    case 'empirical': {
+      const histogram = dist.histogram;
+      if (!histogram || histogram.weights.length === 0) {
+        throw new Error('Empirical damage needs a histogram');
+      }
+      histogram.weights.forEach((w, k) => {
+        const lower = histogram.lower[k];
+        const upper = histogram.upper[k];
+        if (!(lower >= 0 && upper <= 1 && lower < upper)) {
+          throw new Error(`Histogram bin ${k + 1} must satisfy 0 ≤ lower < upper ≤ 1`);
+        }
+        if (!(w >= 0)) {
+          throw new Error(`Histogram bin ${k + 1} has a negative or missing count`);
+        }
+      });
+      if (histogram.weights.reduce((sum, w) => sum + w, 0) <= 0) {
+        throw new Error('Histogram counts sum to zero');
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Draw a damage fraction from a continuous distribution
+ * Log-normal draws above 1 are rejected; histogram draws are uniform
+ * within the chosen bin.
+ */
+export function sampleDamage(dist: DamageDistribution, random: RandomSource): number {
+  switch (dist.type) {
+    case 'beta': {
+      const { a, b } = betaShape(dist.mean, dist.sd);
+      return randomBeta(a, b, random);
+    }
+    case 'logNormal': {
+      for (;;) {
+        const x = dist.median * Math.exp(dist.sigma * randomNormal(random));
+        if (x <= 1) return x;
+      }
+    }
+    case 'empirical': {
+      const { lower, upper, weights } = dist.histogram!;
+      const total = weights.reduce((sum, w) => sum + w, 0);
+      const rand = random() * total;
+      let cum = 0;
+      let k = 0;
+      for (; k < weights.length - 1; k++) {
+        cum += weights[k];
+        if (rand < cum) break;
+      }
+      return lower[k] + random() * (upper[k] - lower[k]);
+    }
+    default:
+      throw new Error(`Damage distribution "${dist.type}" is not continuous`);
+  }
+}
+
+/**
+ * Probability density of a continuous distribution at damage x
+ */
+export function damageDensity(dist: DamageDistribution, x: number): number {
+  if (x <= 0 || x > 1) return 0;
+  switch (dist.type) {
+    case 'beta': {
+      if (x >= 1) return 0;
+      const { a, b } = betaShape(dist.mean, dist.sd);
+      const logBeta = logGamma(a) + logGamma(b) - logGamma(a + b);
+      return Math.exp((a - 1) * Math.log(x) + (b - 1) * Math.log(1 - x) - logBeta);
+    }
+    case 'logNormal': {
+      const z = (Math.log(x) - Math.log(dist.median)) / dist.sigma;
+      const mass = normalCDF(-Math.log(dist.median) / dist.sigma);
+      return Math.exp(-0.5 * z * z) / (x * dist.sigma * Math.sqrt(2 * Math.PI) * mass);
+    }
+    case 'empirical': {
+      const { lower, upper, weights } = dist.histogram!;
+      const total = weights.reduce((sum, w) => sum + w, 0);
+      return weights.reduce((density, w, k) =>
+        (x > lower[k] && x <= upper[k] ? density + w / (total * (upper[k] - lower[k])) : density), 0);
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Density evaluated at the midpoints of n equal steps across (0, 1)
+ * @returns Points and the mean damage implied by them
+ */
+export function damageDensityCurve(
+  dist: DamageDistribution,
+  n: number = 200
+): { points: { x: number; density: number }[]; mean: number } {
+  const points = Array.from({ length: n }, (_, k) => {
+    const x = (k + 0.5) / n;
+    return { x, density: damageDensity(dist, x) };
+  });
+  const mass = points.reduce((sum, p) => sum + p.density, 0);
+  const mean = mass > 0 ? points.reduce((sum, p) => sum + p.x * p.density, 0) / mass : 0;
+  return { points, mean };
+}
+
+/**
+ * Category whose damage is closest to a drawn damage, used to label events
+ */
+export function nearestCategory(categories: HurricaneCategory[], damage: number): HurricaneCategory {
+  return categories.reduce((best, cat) =>
+    (Math.abs(cat.damage - damage) < Math.abs(best.damage - damage) ? cat : best));
+}
+
+/**
+ * Read a damage histogram from CSV
+ * Three columns are bins (lower, upper, count), matched by header when the
+ * file has one. A single column holds observed damage fractions, binned
+ * into equal bins across [0, 1]. Values above 1 are read as percentages
+ * when every value is at most 100.
+ */
+export function parseDamageHistogramCSV(csvText: string): DamageHistogram {
+  const { matrix, colNames } = parseLabeledCSV(csvText);
+  const cols = matrix[0].length;
+  
+  if (cols === 1) {
+    const values = matrix.map(row => row[0]);
+    const scale = values.some(v => v > 1) && values.every(v => v <= 100) ? 100 : 1;
+    const observations = values.map(v => v / scale);
+    if (observations.some(v => v < 0 || v > 1)) {
+      throw new Error('Observed damage must be fractions between 0 and 1 or percentages');
+    }
+    const weights = Array(OBSERVATION_BINS).fill(0);
+    observations.forEach(v => {
+      weights[Math.min(OBSERVATION_BINS - 1, Math.floor(v * OBSERVATION_BINS))]++;
+    });
+    return {
+      lower: weights.map((_, k) => k / OBSERVATION_BINS),
+      upper: weights.map((_, k) => (k + 1) / OBSERVATION_BINS),
+      weights
+    };
+  }
+  
+  if (cols !== 3) {
+    throw new Error(
+      `Damage file has ${cols} columns; expected 3 (lower, upper, count) or 1 (observations)`
+    );
+  }
+  
+  const names = colNames?.map(name => name.trim().toLowerCase());
+  const column = (key: string, fallback: number) => {
+    const c = names ? names.indexOf(key) : -1;
+    return c >= 0 ? c : fallback;
+  };
+  const [lo, up, w] = [column('lower', 0), column('upper', 1), column('count', 2)];
+  const edges = matrix.flatMap(row => [row[lo], row[up]]);
+  const scale = edges.some(v => v > 1) && edges.every(v => v <= 100) ? 100 : 1;
+  const histogram = {
+    lower: matrix.map(row => row[lo] / scale),
+    upper: matrix.map(row => row[up] / scale),
+    weights: matrix.map(row => row[w])
+  };
+  validateDamageDistribution({ ...DEFAULT_DAMAGE_DISTRIBUTION, type: 'empirical', histogram });
+  return histogram;
+}
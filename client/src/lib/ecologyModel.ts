@@ -1,12 +1,45 @@
 /**
- * Lotka-Volterra mutualistic model with Type II functional response
+ * Lotka-Volterra mutualistic model with a configurable functional response
+ * (linear Type I, saturating Type II, sigmoid Type III or Beddington-DeAngelis)
  */
 
+import { RandomSource } from './random';
+import {
+  DEFAULT_GUILD_DISTRIBUTIONS,
+  Guild,
+  GuildDistributions,
+  drawFromRange
+} from './speciesParameters';
+
+/**
+ * Shape of the mutualistic benefit M[i] as a function of u[i] = sum_j Y_mut[i][j] N[j]
+ * - typeI: linear, M = u
+ * - typeII: saturating, M = u / (1 + h u)
+ * - typeIII: sigmoid, M = u^q / (1 + h u^q)
+ * - beddingtonDeAngelis: M = u / (1 + h u + beta N[i]), with interference beta
+ */
+export type FunctionalResponseType = 'typeI' | 'typeII' | 'typeIII' | 'beddingtonDeAngelis';
+
+export interface FunctionalResponse {
+  type: FunctionalResponseType;
+  exponent: number;       // Type III exponent q (>= 1)
+  interference: number;   // Beddington-DeAngelis interference beta
+}
+
+export const DEFAULT_FUNCTIONAL_RESPONSE: FunctionalResponse = {
+  type: 'typeII',
+  exponent: 2,
+  interference: 0
+};
+
 export interface EcologyParams {
   Y_mut: number[][];      // Mutualistic interaction matrix
   Y_comp: number[][];     // Competition interaction matrix
   r: number[];            // Intrinsic growth rates
   h: number[];            // Half-saturation constants
+  alpha: number[];        // Intraspecific self-regulation coefficients
+  response: FunctionalResponse;
+  handling?: number[][];  // Per-link handling times; replaces h[i] for each partner j
 }
 
 export interface ModelConfig {
@@ -15,9 +48,14 @@ export interface ModelConfig {
   dispersalStrength: number;    // d parameter (for seed dispersal)
   competitionStrength: number;  // c parameter
   halfSaturation: number;       // h parameter
+  functionalResponse?: FunctionalResponse;  // Default Type II
+  guilds?: Guild[];             // Guild of each species, default all plants
+  guildDistributions?: GuildDistributions;  // Ranges r, h and alpha are drawn from
   customNetwork?: {             // Optional custom network matrices
     Y_mut: number[][];
     Y_comp: number[][];
+    selfRegulation?: number[];  // Per-species self-regulation, default 1
+    handling?: number[][];      // Per-link handling times, default h for every link
   };
 }
 
@@ -64,26 +102,94 @@ function matVecMult(matrix: number[][], vec: number[]): number[] {
 }
 
 /**
- * Element-wise division with saturation (Type II functional response)
+ * Handling load w[i] = sum_j h[i][j] Y_mut[i][j] N[j]
+ * Equals h[i] * u[i] unless per-link handling times are given.
  */
-function typeIIResponse(mutRaw: number[], h: number[]): number[] {
-  return mutRaw.map((val, i) => val / (1 + h[i] * val));
+function handlingLoad(params: EcologyParams, N: number[], u: number[]): number[] {
+  const { Y_mut, h, handling } = params;
+  if (!handling) return u.map((ui, i) => h[i] * ui);
+  return Y_mut.map((row, i) =>
+    row.reduce((sum, val, j) => sum + handling[i][j] * val * N[j], 0)
+  );
+}
+
+/**
+ * Mutualistic benefit M[i] under the configured functional response
+ */
+export function mutualisticBenefit(params: EcologyParams, N: number[]): number[] {
+  const { type, exponent, interference } = params.response;
+  const u = matVecMult(params.Y_mut, N);
+  const w = handlingLoad(params, N, u);
+  
+  return u.map((ui, i) => {
+    switch (type) {
+      case 'typeI':
+        return ui;
+      case 'typeII':
+        return ui / (1 + w[i]);
+      case 'typeIII': {
+        // u^q / (1 + w u^(q-1)) reduces to u^q / (1 + h u^q) for a common h
+        const uq1 = ui ** (exponent - 1);
+        return ui * uq1 / (1 + w[i] * uq1);
+      }
+      case 'beddingtonDeAngelis':
+        return ui / (1 + w[i] + interference * N[i]);
+    }
+  });
+}
+
+/**
+ * Derivatives of the mutualistic benefit, dM[i]/dN[j]
+ */
+export function mutualisticBenefitJacobian(params: EcologyParams, N: number[]): number[][] {
+  const { Y_mut, h, handling } = params;
+  const { type, exponent, interference } = params.response;
+  const u = matVecMult(Y_mut, N);
+  const w = handlingLoad(params, N, u);
+  // dw[i]/dN[j]
+  const dw = (i: number, j: number) => (handling ? handling[i][j] : h[i]) * Y_mut[i][j];
+  
+  return u.map((ui, i) => {
+    switch (type) {
+      case 'typeI':
+        return [...Y_mut[i]];
+      case 'typeII': {
+        const D = 1 + w[i];
+        return Y_mut[i].map((val, j) => (val * D - ui * dw(i, j)) / (D * D));
+      }
+      case 'typeIII': {
+        // M = u^q / D with D = 1 + w u^(q-1); the common factor u^(q-1) keeps q = 1 regular at u = 0
+        const q = exponent;
+        const uq1 = ui ** (q - 1);
+        const D = 1 + w[i] * uq1;
+        return Y_mut[i].map((val, j) =>
+          uq1 * (q * val * D - ui * uq1 * dw(i, j) - w[i] * (q - 1) * uq1 * val) / (D * D)
+        );
+      }
+      case 'beddingtonDeAngelis': {
+        const D = 1 + w[i] + interference * N[i];
+        return Y_mut[i].map((val, j) =>
+          (val * D - ui * (dw(i, j) + (i === j ? interference : 0))) / (D * D)
+        );
+      }
+    }
+  });
 }
 
 /**
- * ODE function for Lotka-Volterra dynamics with Type II functional response
- * dN[i]/dt = N[i] * (r[i] - N[i] + comp_sum[i] + M[i])
+ * ODE function for Lotka-Volterra dynamics with a mutualistic benefit
+ * dN[i]/dt = N[i] * (r[i] - alpha[i] * N[i] + comp_sum[i] + M[i])
+ * M follows params.response, Type II by default.
  */
-export function ecoDynamicsTypeII(
+export function ecoDynamics(
   t: number,
   N: number[],
   params: EcologyParams
 ): number[] {
-  const { Y_mut, Y_comp, r, h } = params;
+  const { Y_comp, r, alpha } = params;
   
-  // Calculate mutualistic benefit with Type II functional response
-  const mutRaw = matVecMult(Y_mut, N);
-  const M = typeIIResponse(mutRaw, h);
+  // Calculate mutualistic benefit with the chosen functional response
+  const M = mutualisticBenefit(params, N);
   
   // Calculate competitive effects
   const compSum = matVecMult(Y_comp, N);
@@ -92,34 +198,80 @@ export function ecoDynamicsTypeII(
   const dN = N.map((Ni, i) => {
     // Prevent negative populations
     if (Ni <= 0) return 0;
-    return Ni * (r[i] - Ni + compSum[i] + M[i]);
+    return Ni * (r[i] - alpha[i] * Ni + compSum[i] + M[i]);
   });
   
   return dN;
 }
 
 /**
- * Initialize random growth rates
+ * Analytic Jacobian of ecoDynamics
+ * J[i][j] = delta_ij * g[i] + N[i] * (-delta_ij * alpha[i] + Y_comp[i][j] + dM[i]/dN[j])
+ * where g[i] is the per-capita growth rate
  */
-export function initializeGrowthRates(nSpecies: number): number[] {
-  return Array(nSpecies).fill(0).map(() => 
-    0.1 + Math.random() * 0.4  // Range [0.1, 0.5]
-  );
+export function ecoJacobian(
+  t: number,
+  N: number[],
+  params: EcologyParams
+): number[][] {
+  const { Y_comp, r, alpha } = params;
+  
+  const M = mutualisticBenefit(params, N);
+  const dM = mutualisticBenefitJacobian(params, N);
+  const compSum = matVecMult(Y_comp, N);
+  
+  return N.map((Ni, i) => {
+    // Rows of non-positive populations are frozen by ecoDynamics
+    if (Ni <= 0) return Array(N.length).fill(0);
+    
+    const growth = r[i] - alpha[i] * Ni + compSum[i] + M[i];
+    
+    return N.map((_, j) => {
+      const selfTerm = i === j ? growth - alpha[i] * Ni : 0;
+      return selfTerm + Ni * (Y_comp[i][j] + dM[i][j]);
+    });
+  });
+}
+
+// Names from before the functional response was configurable; with the
+// default Type II response they behave exactly as they used to
+export const ecoDynamicsTypeII = ecoDynamics;
+export const ecoJacobianTypeII = ecoJacobian;
+
+/**
+ * Initialize random growth rates from each species' guild range
+ */
+export function initializeGrowthRates(
+  nSpecies: number,
+  random: RandomSource = Math.random,
+  guilds: Guild[] = Array(nSpecies).fill('plant'),
+  distributions: GuildDistributions = DEFAULT_GUILD_DISTRIBUTIONS
+): number[] {
+  return guilds.map(guild => drawFromRange(distributions[guild].r, random));
 }
 
 /**
  * Initialize random initial populations
  */
-export function initializePopulations(nSpecies: number): number[] {
+export function initializePopulations(
+  nSpecies: number,
+  random: RandomSource = Math.random
+): number[] {
   return Array(nSpecies).fill(0).map(() => 
-    0.3 + Math.random() * 0.7  // Range [0.3, 1.0]
+    0.3 + random() * 0.7  // Range [0.3, 1.0]
   );
 }
 
 /**
  * Create ecology parameters from configuration
+ * Growth rates are drawn from each species' guild range; half-saturation
+ * and self-regulation are the configured values times a draw from theirs.
+ * Pass a seeded random source to make the draws reproducible.
  */
-export function createEcologyParams(config: ModelConfig): {
+export function createEcologyParams(
+  config: ModelConfig,
+  random: RandomSource = Math.random
+): {
   params: EcologyParams;
   initialPopulation: number[];
 } {
@@ -136,12 +288,19 @@ export function createEcologyParams(config: ModelConfig): {
     Y_comp = matrices.Y_comp;
   }
   
-  const r = initializeGrowthRates(config.nSpecies);
-  const h = Array(config.nSpecies).fill(config.halfSaturation);
-  const initialPopulation = initializePopulations(config.nSpecies);
+  const guilds: Guild[] = config.guilds ?? Array(config.nSpecies).fill('plant');
+  const distributions = config.guildDistributions ?? DEFAULT_GUILD_DISTRIBUTIONS;
+  const ranges = guilds.map(guild => distributions[guild]);
+  const r = initializeGrowthRates(config.nSpecies, random, guilds, distributions);
+  const initialPopulation = initializePopulations(config.nSpecies, random);
+  const h = ranges.map(range => config.halfSaturation * drawFromRange(range.h, random));
+  const alpha = (config.customNetwork?.selfRegulation ?? Array(config.nSpecies).fill(1))
+    .map((value, i) => value * drawFromRange(ranges[i].alpha, random));
+  const response = config.functionalResponse ?? DEFAULT_FUNCTIONAL_RESPONSE;
+  const handling = config.customNetwork?.handling;
   
   return {
-    params: { Y_mut, Y_comp, r, h },
+    params: { Y_mut, Y_comp, r, h, alpha, response, ...(handling ? { handling } : {}) },
     initialPopulation
   };
 }
@@ -0,0 +1,261 @@
+/**
+ * Monte Carlo ensembles of stochastic hurricane simulations
+ */
+
+import { ODEFunction, JacobianFunction } from './odeSolver';
+import { EcologyParams } from './ecologyModel';
+import { SimulationEngine, SimulationConfig } from './simulationEngine';
+import { createRandom } from './random';
+import { regionalPopulations, regionallyExtinct } from './metacommunity';
+
+export interface EnsembleConfig {
+  nReplicates: number;       // Number of independent runs
+  duration: number;          // Simulated years per run
+  baseSeed: number;          // Seed from which replicate seeds are drawn
+  sampleInterval: number;    // Spacing of the common time grid (years)
+  confidenceLevel?: number;  // Coverage of the bands around the mean, default 0.95
+}
+
+export interface ReplicateResult {
+  seed: number;
+  finalPopulations: number[];
+  extinctionTimes: Array<number | null>;  // Per species, null if it survived
+  hurricaneCount: number;
+  trajectory: number[][];                 // Populations at each grid time
+}
+
+export interface AbundanceQuantiles {
+  q05: number;
+  q25: number;
+  median: number;
+  q75: number;
+  q95: number;
+}
+
+export interface EnsembleSummary {
+  nReplicates: number;
+  seeds: number[];
+  extinctionProbability: number[];         // Per species
+  timeToExtinction: number[][];            // Per species, times from runs where it went extinct
+  finalAbundance: AbundanceQuantiles[];    // Per species
+  hurricaneCounts: number[];               // Per replicate
+  times: number[];                         // Common time grid
+  mean: number[][];                        // [time][species]
+  lower: number[][];                       // Lower confidence band of the mean
+  upper: number[][];                       // Upper confidence band of the mean
+}
+
+/**
+ * Quantile of a sorted array with linear interpolation
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687,
+    138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866,
+    66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996,
+    3.754408661907416];
+  const pLow = 0.02425;
+  
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Draw distinct replicate seeds from a base seed
+ */
+export function replicateSeeds(baseSeed: number, n: number): number[] {
+  const random = createRandom(baseSeed);
+  const seeds = new Set<number>();
+  while (seeds.size < n) {
+    seeds.add(Math.floor(random() * 2 ** 31));
+  }
+  return Array.from(seeds);
+}
+
+/**
+ * Run one replicate and sample it on the common time grid
+ * In a metacommunity the results are regional: abundances are summed over
+ * islands and a species is extinct once it is absent from every island.
+ */
+export function runReplicate(
+  odeFunction: ODEFunction,
+  ecologyParams: EcologyParams,
+  initialPopulation: number[],
+  simConfig: SimulationConfig,
+  times: number[],
+  seed: number,
+  jacobian?: JacobianFunction
+): ReplicateResult {
+  const engine = new SimulationEngine(
+    odeFunction,
+    ecologyParams,
+    initialPopulation,
+    { ...simConfig, seed },
+    jacobian
+  );
+  
+  const nSpecies = simConfig.metacommunity?.nSpecies ?? initialPopulation.length;
+  const regional = (y: number[]) =>
+    (y.length > nSpecies ? regionalPopulations(y, nSpecies) : y);
+  
+  const trajectory: number[][] = [regional(engine.getPopulations())];
+  for (let k = 1; k < times.length; k++) {
+    // step() stops early at a hurricane, so keep stepping to the grid time
+    while (engine.getTime() < times[k]) {
+      engine.step(times[k] - engine.getTime());
+    }
+    trajectory.push(regional(engine.getPopulations()));
+  }
+  
+  // A species is extinct at the last local extinction if it never returned
+  const state = engine.getState();
+  const extinctionTimes: Array<number | null> = Array(nSpecies).fill(null);
+  const regionalTimes = Array(nSpecies).fill(0);
+  for (const extinction of state.extinctions) {
+    const i = extinction.species % nSpecies;
+    regionalTimes[i] = Math.max(regionalTimes[i], extinction.time);
+  }
+  const islands = initialPopulation.length / nSpecies;
+  regionallyExtinct(state.extinctSpecies, nSpecies, islands).forEach(i => {
+    extinctionTimes[i] = regionalTimes[i];
+  });
+  
+  return {
+    seed,
+    finalPopulations: regional(state.populations),
+    extinctionTimes,
+    hurricaneCount: state.hurricanes.length,
+    trajectory
+  };
+}
+
+/**
+ * Aggregate replicate results into extinction and abundance summaries
+ */
+export function summarizeEnsemble(
+  replicates: ReplicateResult[],
+  times: number[],
+  confidenceLevel = 0.95
+): EnsembleSummary {
+  const n = replicates.length;
+  const nSpecies = replicates[0]?.finalPopulations.length ?? 0;
+  const z = normalQuantile(0.5 + confidenceLevel / 2);
+  const species = Array(nSpecies).fill(0).map((_, i) => i);
+  
+  const timeToExtinction = species.map(i =>
+    replicates
+      .map(rep => rep.extinctionTimes[i])
+      .filter((t): t is number => t !== null)
+      .sort((a, b) => a - b)
+  );
+  
+  const finalAbundance = species.map(i => {
+    const sorted = replicates.map(rep => rep.finalPopulations[i]).sort((a, b) => a - b);
+    return {
+      q05: quantile(sorted, 0.05),
+      q25: quantile(sorted, 0.25),
+      median: quantile(sorted, 0.5),
+      q75: quantile(sorted, 0.75),
+      q95: quantile(sorted, 0.95)
+    };
+  });
+  
+  const mean: number[][] = [];
+  const lower: number[][] = [];
+  const upper: number[][] = [];
+  times.forEach((_, k) => {
+    const m = species.map(i =>
+      replicates.reduce((sum, rep) => sum + rep.trajectory[k][i], 0) / n
+    );
+    const halfWidth = species.map(i => {
+      if (n < 2) return 0;
+      const variance = replicates.reduce(
+        (sum, rep) => sum + (rep.trajectory[k][i] - m[i]) ** 2, 0
+      ) / (n - 1);
+      return z * Math.sqrt(variance / n);
+    });
+    mean.push(m);
+    lower.push(m.map((val, i) => Math.max(0, val - halfWidth[i])));
+    upper.push(m.map((val, i) => val + halfWidth[i]));
+  });
+  
+  return {
+    nReplicates: n,
+    seeds: replicates.map(rep => rep.seed),
+    extinctionProbability: timeToExtinction.map(t => (n > 0 ? t.length / n : 0)),
+    timeToExtinction,
+    finalAbundance,
+    hurricaneCounts: replicates.map(rep => rep.hurricaneCount),
+    times,
+    mean,
+    lower,
+    upper
+  };
+}
+
+/**
+ * Run an ensemble of replicates that differ only in their seed
+ * Yields to the event loop between replicates so the simulation worker
+ * running it can take cancel requests.
+ * @param onProgress - Called with the number of finished replicates
+ * @param shouldCancel - Checked between replicates to abort the run
+ */
+export async function runEnsemble(
+  odeFunction: ODEFunction,
+  ecologyParams: EcologyParams,
+  initialPopulation: number[],
+  simConfig: SimulationConfig,
+  config: EnsembleConfig,
+  jacobian?: JacobianFunction,
+  onProgress?: (completed: number, total: number) => void,
+  shouldCancel?: () => boolean
+): Promise<EnsembleSummary | null> {
+  const { nReplicates, duration, baseSeed, sampleInterval } = config;
+  const nSamples = Math.max(1, Math.ceil(duration / sampleInterval));
+  const times = Array(nSamples + 1).fill(0).map((_, k) =>
+    Math.min(duration, k * sampleInterval)
+  );
+  
+  const replicates: ReplicateResult[] = [];
+  for (const seed of replicateSeeds(baseSeed, nReplicates)) {
+    if (shouldCancel?.()) return null;
+    
+    replicates.push(runReplicate(
+      odeFunction,
+      ecologyParams,
+      initialPopulation,
+      simConfig,
+      times,
+      seed,
+      jacobian
+    ));
+    onProgress?.(replicates.length, nReplicates);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  
+  return summarizeEnsemble(replicates, times, config.confidenceLevel);
+}
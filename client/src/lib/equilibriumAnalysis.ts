@@ -0,0 +1,298 @@
+/**
+ * Equilibria and local stability of the hazard-free community
+ */
+
+import {
+  EcologyParams,
+  ecoJacobian,
+  mutualisticBenefit,
+  mutualisticBenefitJacobian
+} from './ecologyModel';
+import { Complex, eigenvalues, luDecompose, luSolve, matVec } from './linearAlgebra';
+
+export interface EquilibriumOptions {
+  tolerance?: number;       // Convergence threshold on the per-capita growth residual
+  maxIterations?: number;   // Newton iterations per solve
+  maxEnumerated?: number;   // Enumerate every support set up to this many species
+}
+
+export interface EquilibriumReport {
+  populations: number[];
+  support: number[];             // Species present at the equilibrium
+  interior: boolean;             // All species present
+  feasible: boolean;             // All present species strictly positive
+  converged: boolean;
+  residual: number;
+  eigenvalues: Complex[];        // Of the Jacobian restricted to present species
+  dominantEigenvalue: Complex;   // Eigenvalue with the largest real part
+  resilience: number;            // Asymptotic return rate, -Re(dominant eigenvalue)
+  reactivity: number;            // Largest eigenvalue of the symmetric part of the Jacobian
+  stable: boolean;               // Locally stable for the present species
+  invasionRates: number[];       // Per-capita growth of absent species at low density
+  saturated: boolean;            // No absent species can invade
+}
+
+const DEFAULTS: Required<EquilibriumOptions> = {
+  tolerance: 1e-10,
+  maxIterations: 100,
+  maxEnumerated: 8
+};
+
+// Number of steps of the Newton homotopy used when plain Newton fails
+const CONTINUATION_STEPS = 20;
+
+/**
+ * Per-capita growth rates g[i] so that dN[i]/dt = N[i] * g[i]
+ */
+export function perCapitaGrowth(N: number[], params: EcologyParams): number[] {
+  const { Y_comp, r, alpha } = params;
+  const M = mutualisticBenefit(params, N);
+  const compSum = matVec(Y_comp, N);
+  return N.map((Ni, i) => r[i] - alpha[i] * Ni + compSum[i] + M[i]);
+}
+
+/**
+ * Jacobian of the per-capita growth rates, dg[i]/dN[j]
+ */
+function perCapitaJacobian(N: number[], params: EcologyParams): number[][] {
+  const { Y_comp, alpha } = params;
+  const dM = mutualisticBenefitJacobian(params, N);
+  return N.map((_, i) =>
+    N.map((_, j) => (i === j ? -alpha[i] : 0) + Y_comp[i][j] + dM[i][j])
+  );
+}
+
+function maxNorm(v: number[]): number {
+  return v.reduce((max, val) => Math.max(max, Math.abs(val)), 0);
+}
+
+/**
+ * Embed values for the support species into a full-length vector
+ */
+function expand(values: number[], support: number[], n: number): number[] {
+  const full = Array(n).fill(0);
+  support.forEach((species, k) => {
+    full[species] = values[k];
+  });
+  return full;
+}
+
+/**
+ * Damped Newton iteration on g_S(N_S) - offset = 0 over the support S
+ */
+function dampedNewton(
+  params: EcologyParams,
+  support: number[],
+  guess: number[],
+  offset: number[],
+  options: Required<EquilibriumOptions>
+): { values: number[]; residual: number; converged: boolean } {
+  const n = params.r.length;
+  const residualOf = (values: number[]) => {
+    const g = perCapitaGrowth(expand(values, support, n), params);
+    return support.map((species, k) => g[species] - offset[k]);
+  };
+  
+  let values = [...guess];
+  let F = residualOf(values);
+  let residual = maxNorm(F);
+  
+  for (let iter = 0; iter < options.maxIterations && residual > options.tolerance; iter++) {
+    const J = perCapitaJacobian(expand(values, support, n), params);
+    const Js = support.map(i => support.map(j => J[i][j]));
+    const lu = luDecompose(Js);
+    if (lu.singular) break;
+    const delta = luSolve(lu, F.map(val => -val));
+    
+    // Backtrack until the residual decreases
+    let lambda = 1;
+    let accepted = false;
+    while (lambda > 1e-6) {
+      const trial = values.map((val, k) => val + lambda * delta[k]);
+      const trialF = residualOf(trial);
+      const trialResidual = maxNorm(trialF);
+      if (Number.isFinite(trialResidual) && trialResidual < (1 - 1e-4 * lambda) * residual) {
+        values = trial;
+        F = trialF;
+        residual = trialResidual;
+        accepted = true;
+        break;
+      }
+      lambda /= 2;
+    }
+    if (!accepted) break;
+  }
+  
+  return { values, residual, converged: residual <= options.tolerance };
+}
+
+/**
+ * Solve for an equilibrium with the given support
+ * Starts from the guess with damped Newton; if that fails, follows the
+ * homotopy g(N) = (1 - s) g(guess) from s = 0 (solved by the guess) to s = 1.
+ */
+export function solveEquilibrium(
+  params: EcologyParams,
+  support: number[],
+  guess: number[],
+  options: EquilibriumOptions = {}
+): { populations: number[]; residual: number; converged: boolean } {
+  const opts = { ...DEFAULTS, ...options };
+  const n = params.r.length;
+  const start = support.map(species => guess[species]);
+  const zero = support.map(() => 0);
+  
+  let result = dampedNewton(params, support, start, zero, opts);
+  
+  if (!result.converged) {
+    const g0 = perCapitaGrowth(expand(start, support, n), params);
+    const initialOffset = support.map(species => g0[species]);
+    let values = start;
+    let tracked = true;
+    
+    for (let step = 1; step <= CONTINUATION_STEPS; step++) {
+      const s = step / CONTINUATION_STEPS;
+      const offset = initialOffset.map(val => (1 - s) * val);
+      const corrected = dampedNewton(params, support, values, offset, opts);
+      if (!corrected.converged) {
+        tracked = false;
+        break;
+      }
+      values = corrected.values;
+    }
+    
+    if (tracked) {
+      result = dampedNewton(params, support, values, zero, opts);
+    }
+  }
+  
+  return {
+    populations: expand(result.values, support, n),
+    residual: result.residual,
+    converged: result.converged
+  };
+}
+
+/**
+ * Local stability of an equilibrium with the given support
+ */
+export function analyzeEquilibrium(
+  params: EcologyParams,
+  populations: number[],
+  support: number[]
+): Pick<EquilibriumReport,
+  'eigenvalues' | 'dominantEigenvalue' | 'resilience' | 'reactivity' |
+  'stable' | 'invasionRates' | 'saturated'> {
+  const n = populations.length;
+  const J = ecoJacobian(0, populations, params);
+  const Js = support.map(i => support.map(j => J[i][j]));
+  
+  const values = support.length > 0 ? eigenvalues(Js) : [];
+  const dominantEigenvalue = values.reduce(
+    (best, val) => (val.re > best.re ? val : best),
+    { re: -Infinity, im: 0 }
+  );
+  
+  const symmetric = Js.map((row, i) => row.map((val, j) => (val + Js[j][i]) / 2));
+  const reactivity = support.length > 0
+    ? Math.max(...eigenvalues(symmetric).map(val => val.re))
+    : -Infinity;
+  
+  const present = new Set(support);
+  const g = perCapitaGrowth(populations, params);
+  const invasionRates = Array(n).fill(0)
+    .map((_, i) => i)
+    .filter(i => !present.has(i))
+    .map(i => g[i]);
+  
+  return {
+    eigenvalues: values,
+    dominantEigenvalue,
+    resilience: -dominantEigenvalue.re,
+    reactivity,
+    stable: dominantEigenvalue.re < 0,
+    invasionRates,
+    saturated: invasionRates.every(rate => rate < 0)
+  };
+}
+
+/**
+ * Support obtained by repeatedly dropping the most negative species
+ */
+function pruneToFeasible(
+  params: EcologyParams,
+  support: number[],
+  guess: number[],
+  options: EquilibriumOptions
+): number[] | null {
+  let current = [...support];
+  while (current.length > 0) {
+    const { populations, converged } = solveEquilibrium(params, current, guess, options);
+    if (!converged) return null;
+    
+    const worst = current.reduce((a, b) => (populations[a] <= populations[b] ? a : b));
+    if (populations[worst] > 0) return current;
+    current = current.filter(species => species !== worst);
+  }
+  return null;
+}
+
+/**
+ * Find interior and boundary equilibria of ecoDynamics
+ * @param params - Ecological parameters
+ * @param current - Current populations, used as the starting point
+ * @param options - Solver options; small communities are enumerated exhaustively
+ * @returns The interior equilibrium (feasible or not) first, then feasible
+ *          boundary equilibria ordered by decreasing number of species
+ */
+export function findEquilibria(
+  params: EcologyParams,
+  current: number[],
+  options: EquilibriumOptions = {}
+): EquilibriumReport[] {
+  const opts = { ...DEFAULTS, ...options };
+  const n = params.r.length;
+  const all = Array(n).fill(0).map((_, i) => i);
+  
+  // Absent species get a small positive starting density
+  const guess = current.map(val => (val > 0 ? val : 0.1));
+  
+  const supports: number[][] = [all];
+  const alive = all.filter(i => current[i] > 0);
+  if (alive.length > 0 && alive.length < n) supports.push(alive);
+  
+  const pruned = pruneToFeasible(params, all, guess, opts);
+  if (pruned) supports.push(pruned);
+  
+  if (n <= opts.maxEnumerated) {
+    for (let mask = 1; mask < (1 << n) - 1; mask++) {
+      supports.push(all.filter(i => mask & (1 << i)));
+    }
+  }
+  
+  const seen = new Set<string>();
+  const reports: EquilibriumReport[] = [];
+  
+  for (const support of supports) {
+    const key = support.join(',');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    
+    const { populations, residual, converged } = solveEquilibrium(params, support, guess, opts);
+    const interior = support.length === n;
+    const feasible = converged && support.every(i => populations[i] > 0);
+    if (!interior && !feasible) continue;
+    
+    reports.push({
+      populations,
+      support,
+      interior,
+      feasible,
+      converged,
+      residual,
+      ...analyzeEquilibrium(params, populations, support)
+    });
+  }
+  
+  return reports.sort((a, b) => b.support.length - a.support.length);
+}
@@ -0,0 +1,352 @@
+/**
+ * Time-varying hurricane regimes for climate-change scenarios
+ */
+
+import { parseLabeledCSV } from './networkBuilder';
+import { RandomSource } from './random';
+import { HurricaneCategory } from './simulationEngine';
+import { DamageDistribution, damageDensityCurve, sampleDamage } from './damageDistributions';
+
+/**
+ * Long-term change of the hurricane rate
+ * - constant: the base rate throughout
+ * - linear: the rate changes by a fixed fraction of the base rate each year
+ * - step: the rate is multiplied by a factor from a given year on
+ * - scenario: rate multiplier and intensity tilt interpolated from a schedule
+ */
+export type RateTrendType = 'constant' | 'linear' | 'step' | 'scenario';
+
+export const RATE_TREND_LABELS: Record<RateTrendType, string> = {
+  constant: 'Constant',
+  linear: 'Linear trend',
+  step: 'Step change',
+  scenario: 'Scenario schedule (CSV)'
+};
+
+/**
+ * Rate multiplier and intensity tilt at given years, linearly interpolated
+ * between them and held constant beyond the first and last
+ */
+export interface ScenarioSchedule {
+  time: number[];    // Years since the start, increasing
+  rate: number[];    // Multiplier of the base hurricane rate
+  tilt: number[];    // Intensity tilt, see tiltCategories
+}
+
+/**
+ * Hazard regime: a rate trend plus intensity drift and seasonality
+ * The seasonal fields act under every trend, tiltSlope under all but a scenario.
+ */
+export interface HazardRegime {
+  trend: RateTrendType;
+  rateSlope: number;        // Linear: change of rate per year, as a fraction of the base rate
+  stepTime: number;         // Step: year from which the rate changes
+  stepFactor: number;       // Step: multiplier of the base rate from then on
+  tiltSlope: number;        // Change of intensity tilt per year (schedules give their own)
+  seasonality: number;      // Amplitude of the within-year cycle of the rate (0-1)
+  seasonPeak: number;       // Peak of the season as a fraction of the year (0-1)
+  schedule: ScenarioSchedule | null;
+}
+
+// Largest intensity tilt in either direction; beyond it nearly all weight
+// already sits on the strongest (or weakest) storms
+const MAX_TILT = 20;
+
+export const DEFAULT_HAZARD_REGIME: HazardRegime = {
+  trend: 'constant',
+  rateSlope: 0.01,
+  stepTime: 50,
+  stepFactor: 2,
+  tiltSlope: 0,
+  seasonality: 0,
+  seasonPeak: 0.7,
+  schedule: null
+};
+
+/**
+ * Whether the regime is a homogeneous Poisson process with fixed categories
+ */
+export function isStationaryRegime(regime: HazardRegime): boolean {
+  return regime.trend === 'constant' && regime.tiltSlope === 0 && regime.seasonality === 0;
+}
+
+/**
+ * Check that a regime can be simulated
+ */
+export function validateHazardRegime(regime: HazardRegime): void {
+  if (regime.trend === 'scenario' && !regime.schedule) {
+    throw new Error('Scenario regime needs a schedule');
+  }
+  if (regime.trend === 'step' && !(regime.stepFactor >= 0)) {
+    throw new Error('Step factor must be non-negative');
+  }
+  if (!(regime.seasonality >= 0 && regime.seasonality <= 1)) {
+    throw new Error('Seasonality must be between 0 and 1');
+  }
+  const schedule = regime.schedule;
+  if (schedule) {
+    if (schedule.time.length === 0) {
+      throw new Error('Scenario schedule is empty');
+    }
+    schedule.time.forEach((t, k) => {
+      if (!Number.isFinite(t) || (k > 0 && t <= schedule.time[k - 1])) {
+        throw new Error('Scenario years must be numbers in increasing order');
+      }
+      if (!(schedule.rate[k] >= 0)) {
+        throw new Error(`Scenario rate multiplier at year ${t} must be non-negative`);
+      }
+      if (!Number.isFinite(schedule.tilt[k])) {
+        throw new Error(`Scenario intensity tilt at year ${t} must be a number`);
+      }
+    });
+  }
+}
+
+/**
+ * Value of a schedule column at time t
+ */
+function interpolate(time: number[], values: number[], t: number): number {
+  if (t <= time[0]) return values[0];
+  const n = time.length;
+  if (t >= time[n - 1]) return values[n - 1];
+  let k = 1;
+  while (time[k] < t) k++;
+  const s = (t - time[k - 1]) / (time[k] - time[k - 1]);
+  return values[k - 1] + s * (values[k] - values[k - 1]);
+}
+
+/**
+ * Long-term multiplier of the base rate, without the seasonal cycle
+ */
+export function trendMultiplier(regime: HazardRegime, t: number): number {
+  switch (regime.trend) {
+    case 'linear':
+      return Math.max(0, 1 + regime.rateSlope * t);
+    case 'step':
+      return t >= regime.stepTime ? regime.stepFactor : 1;
+    case 'scenario':
+      return regime.schedule ? interpolate(regime.schedule.time, regime.schedule.rate, t) : 1;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Seasonal multiplier 1 + A cos(2π (t - peak)), with t in years
+ */
+function seasonalMultiplier(regime: HazardRegime, t: number): number {
+  return 1 + regime.seasonality * Math.cos(2 * Math.PI * (t - regime.seasonPeak));
+}
+
+/**
+ * Multiplier of the base rate at time t
+ */
+export function rateMultiplier(regime: HazardRegime, t: number): number {
+  return trendMultiplier(regime, t) * seasonalMultiplier(regime, t);
+}
+
+/**
+ * Upper bound of the rate multiplier on [t0, t1]
+ * The trend is piecewise linear, so its maximum lies at an end of the
+ * interval or at a break point within it.
+ */
+export function maxRateMultiplier(regime: HazardRegime, t0: number, t1: number): number {
+  const breaks = regime.trend === 'step'
+    ? [regime.stepTime]
+    : regime.trend === 'scenario' ? regime.schedule?.time ?? [] : [];
+  const times = [t0, t1, ...breaks.filter(t => t > t0 && t < t1)];
+  return Math.max(...times.map(t => trendMultiplier(regime, t))) * (1 + regime.seasonality);
+}
+
+/**
+ * Intensity tilt at time t, within ±MAX_TILT
+ */
+export function intensityTilt(regime: HazardRegime, t: number): number {
+  const tilt = regime.trend === 'scenario' && regime.schedule
+    ? interpolate(regime.schedule.time, regime.schedule.tilt, t)
+    : regime.tiltSlope * t;
+  return Math.min(MAX_TILT, Math.max(-MAX_TILT, tilt));
+}
+
+/**
+ * First hurricane of a non-homogeneous Poisson process in (t0, t1]
+ * Candidates are drawn at the bound rate over the interval and each is
+ * kept with probability rate(t) / bound (Lewis-Shedler thinning).
+ * @returns Time of the hurricane, or null if none occurs before t1
+ */
+export function nextHazardTime(
+  baseRate: number,
+  regime: HazardRegime,
+  t0: number,
+  t1: number,
+  random: RandomSource
+): number | null {
+  const bound = baseRate * maxRateMultiplier(regime, t0, t1);
+  if (bound <= 0) return null;
+  
+  let t = t0;
+  for (;;) {
+    t += -Math.log(1 - random()) / bound;
+    if (t > t1) return null;
+    if (random() * bound <= baseRate * rateMultiplier(regime, t)) return t;
+  }
+}
+
+/**
+ * Category probabilities shifted toward stronger storms
+ * A category of damage d becomes exp(tilt * d) times more likely before
+ * renormalizing; a negative tilt favours weaker storms.
+ */
+export function tiltCategories(categories: HurricaneCategory[], tilt: number): HurricaneCategory[] {
+  if (tilt === 0) return categories;
+  const weights = categories.map(cat => Math.max(0, cat.probability) * Math.exp(tilt * cat.damage));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return categories.map((cat, k) => ({
+    ...cat,
+    probability: total > 0 ? weights[k] / total : cat.probability
+  }));
+}
+
+/**
+ * Draw damage from a continuous distribution tilted like tiltCategories
+ * The density times exp(tilt * d) is sampled by inverse CDF on the grid of
+ * damageDensityCurve, uniformly within the chosen grid cell, so the cost
+ * does not grow with the tilt. Without a tilt the distribution is sampled
+ * directly.
+ */
+export function sampleTiltedDamage(
+  dist: DamageDistribution,
+  tilt: number,
+  random: RandomSource
+): number {
+  if (tilt === 0) return sampleDamage(dist, random);
+  
+  const { points } = damageDensityCurve(dist);
+  const top = Math.max(...points.map(p => tilt * p.x));
+  const weights = points.map(p => p.density * Math.exp(tilt * p.x - top));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (!(total > 0)) return sampleDamage(dist, random);
+  
+  const rand = random() * total;
+  let cum = 0;
+  let k = 0;
+  for (; k < weights.length - 1; k++) {
+    cum += weights[k];
+    if (rand < cum) break;
+  }
+  return (k + random()) / points.length;
+}
+
+/**
+ * Read a scenario schedule from CSV with a header row
+ * Columns are time (or year), rate and optionally tilt. Rows are sorted
+ * by time; a missing tilt column means no shift in intensity.
+ */
+export function parseScenarioCSV(csvText: string): ScenarioSchedule {
+  const { matrix, colNames } = parseLabeledCSV(csvText);
+  if (!colNames) {
+    throw new Error('Scenario needs a header row with time and rate columns');
+  }
+  
+  const names = colNames.map(name => name.trim().toLowerCase());
+  const column = (...keys: string[]) => names.findIndex(name => keys.includes(name));
+  const [cTime, cRate, cTilt] = [column('time', 'year'), column('rate'), column('tilt')];
+  if (cTime < 0 || cRate < 0) {
+    throw new Error('Scenario needs time and rate columns');
+  }
+  
+  const rows = [...matrix].sort((a, b) => a[cTime] - b[cTime]);
+  const schedule = {
+    time: rows.map(row => row[cTime]),
+    rate: rows.map(row => row[cRate]),
+    tilt: rows.map(row => (cTilt >= 0 ? row[cTilt] : 0))
+  };
+  validateHazardRegime({ ...DEFAULT_HAZARD_REGIME, trend: 'scenario', schedule });
+  return schedule;
+}
+
+// Numeric regime fields a saved file may set
+const NUMERIC_FIELDS = [
+  'rateSlope',
+  'stepTime',
+  'stepFactor',
+  'tiltSlope',
+  'seasonality',
+  'seasonPeak'
+] as const;
+
+/**
+ * Whether a parsed JSON value is an object with named members
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a parsed JSON value is a list of numbers
+ */
+function isNumberList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'number');
+}
+
+/**
+ * Whether a parsed JSON value names a rate trend
+ */
+function isRateTrend(value: unknown): value is RateTrendType {
+  return typeof value === 'string' && Object.keys(RATE_TREND_LABELS).includes(value);
+}
+
+/**
+ * Scenario schedule of a saved regime, checked column by column
+ */
+function readSchedule(value: unknown): ScenarioSchedule | null {
+  if (value === null) return null;
+  if (!isObject(value)) {
+    throw new Error('Scenario schedule must be an object of time, rate and tilt lists');
+  }
+  const { time, rate, tilt } = value;
+  if (!isNumberList(time) || !isNumberList(rate) || !isNumberList(tilt)) {
+    throw new Error('Scenario schedule time, rate and tilt must be lists of numbers');
+  }
+  if (rate.length !== time.length || tilt.length !== time.length) {
+    throw new Error('Scenario schedule time, rate and tilt must have the same length');
+  }
+  return { time, rate, tilt };
+}
+
+/**
+ * Read a complete regime saved as JSON
+ * Missing fields take their default values; present ones must have the right type.
+ */
+export function parseHazardRegimeJSON(text: string): HazardRegime {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Scenario file is not valid JSON');
+  }
+  if (!isObject(data)) {
+    throw new Error('Scenario file must hold an object of regime settings');
+  }
+  
+  const regime: HazardRegime = { ...DEFAULT_HAZARD_REGIME };
+  if (data.trend !== undefined) {
+    if (!isRateTrend(data.trend)) {
+      throw new Error(`Unknown rate trend "${String(data.trend)}"`);
+    }
+    regime.trend = data.trend;
+  }
+  for (const key of NUMERIC_FIELDS) {
+    const value = data[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Regime setting "${key}" must be a number`);
+    }
+    regime[key] = value;
+  }
+  if (data.schedule !== undefined) {
+    regime.schedule = readSchedule(data.schedule);
+  }
+  validateHazardRegime(regime);
+  return regime;
+}
@@ -0,0 +1,158 @@
+/**
+ * Hazards other than hurricanes: droughts, fires, disease outbreaks and
+ * hazards set off by other hazards
+ */
+
+import { EcologyParams } from './ecologyModel';
+import { ArrivalProcess, DEFAULT_ARRIVAL_PROCESS, validateArrivalProcess } from './arrivalProcesses';
+import { Guild } from './speciesParameters';
+
+/**
+ * How a hazard acts on the community
+ * - mortality: kills a fraction of each population at once
+ * - growth: lowers intrinsic growth rates for the duration of the hazard
+ */
+export type HazardEffectType = 'mortality' | 'growth';
+
+export const HAZARD_EFFECT_LABELS: Record<HazardEffectType, string> = {
+  mortality: 'Mortality (instant)',
+  growth: 'Reduced growth (for a period)'
+};
+
+export type HazardMarker = 'triangle' | 'square' | 'diamond' | 'circle';
+
+// Identifier of hurricanes as the cause of a compound hazard
+export const HURRICANE_HAZARD = 'hurricane';
+
+/**
+ * Compound hazard: a chance of following another hazard after a delay
+ */
+export interface HazardTrigger {
+  after: string;         // Id of the hazard type followed, or HURRICANE_HAZARD
+  probability: number;   // Chance of following each such event
+  delay: number;         // Mean delay (years), exponentially distributed; 0 for at once
+}
+
+/**
+ * User-facing definition of a hazard type
+ */
+export interface HazardType {
+  id: string;
+  name: string;
+  enabled: boolean;
+  rate: number;                       // Independent events per year; 0 for triggered events only
+  arrival: ArrivalProcess;            // Timing of independent events
+  effect: HazardEffectType;
+  severity: number;                   // Fraction killed, or fraction of the growth rate lost
+  duration: number;                   // Years a growth effect lasts
+  guildWeights: Record<Guild, number>;  // Multiplier of severity per guild
+  trigger: HazardTrigger | null;
+  marker: HazardMarker;               // Chart marker shape
+  color: string;                      // Chart marker colour
+}
+
+export const DEFAULT_HAZARD_TYPES: HazardType[] = [
+  {
+    id: 'drought',
+    name: 'Drought',
+    enabled: false,
+    rate: 0.1,
+    arrival: DEFAULT_ARRIVAL_PROCESS,
+    effect: 'growth',
+    severity: 0.5,
+    duration: 0.5,
+    guildWeights: { plant: 1, pollinator: 0.5, disperser: 0.5 },
+    trigger: { after: HURRICANE_HAZARD, probability: 0, delay: 0.25 },
+    marker: 'square',
+    color: '#b45309'
+  },
+  {
+    id: 'fire',
+    name: 'Fire',
+    enabled: false,
+    rate: 0.05,
+    arrival: DEFAULT_ARRIVAL_PROCESS,
+    effect: 'mortality',
+    severity: 0.5,
+    duration: 0,
+    guildWeights: { plant: 1, pollinator: 0.2, disperser: 0.2 },
+    trigger: { after: 'drought', probability: 0, delay: 0.1 },
+    marker: 'triangle',
+    color: '#e11d48'
+  },
+  {
+    id: 'disease',
+    name: 'Disease',
+    enabled: false,
+    rate: 0.05,
+    arrival: DEFAULT_ARRIVAL_PROCESS,
+    effect: 'growth',
+    severity: 1,
+    duration: 1,
+    guildWeights: { plant: 0, pollinator: 1, disperser: 0 },
+    trigger: null,
+    marker: 'diamond',
+    color: '#7c3aed'
+  }
+];
+
+/**
+ * Hazard type as used by the engine, with its severity for each species
+ */
+export interface HazardModel {
+  type: HazardType;
+  severity: number[];     // Per-species fraction killed or of growth lost, within [0, 1]
+}
+
+/**
+ * Models of the enabled hazard types
+ */
+export function buildHazardModels(types: HazardType[], guilds: Guild[]): HazardModel[] {
+  return types
+    .filter(type => type.enabled)
+    .map(type => ({
+      type,
+      severity: guilds.map(guild => Math.min(1, Math.max(0, type.severity * type.guildWeights[guild])))
+    }));
+}
+
+/**
+ * Check that a hazard type can be simulated
+ */
+export function validateHazardType(type: HazardType, ids: string[]): void {
+  if (!(type.rate >= 0) || !(type.severity >= 0) || !(type.duration >= 0)) {
+    throw new Error(`${type.name}: rate, severity and duration must be non-negative`);
+  }
+  if (type.effect === 'growth' && type.duration === 0) {
+    throw new Error(`${type.name}: reduced growth needs a duration`);
+  }
+  if (type.rate > 0) {
+    try {
+      validateArrivalProcess(type.arrival);
+    } catch (err) {
+      throw new Error(`${type.name}: ${(err as Error).message}`);
+    }
+  }
+  const trigger = type.trigger;
+  if (trigger) {
+    if (trigger.after !== HURRICANE_HAZARD && !ids.includes(trigger.after)) {
+      throw new Error(`${type.name}: unknown hazard "${trigger.after}" to follow`);
+    }
+    if (!(trigger.probability >= 0 && trigger.probability <= 1) || !(trigger.delay >= 0)) {
+      throw new Error(`${type.name}: follow-on chance must be in [0, 1] and delay non-negative`);
+    }
+  }
+}
+
+/**
+ * Ecology parameters with growth rates lowered by active hazards
+ * Each hazard takes its severity times |r| off a species' growth rate, so
+ * it harms species with negative intrinsic growth too.
+ */
+export function disturbedParams(params: EcologyParams, losses: number[][]): EcologyParams {
+  if (losses.length === 0) return params;
+  return {
+    ...params,
+    r: params.r.map((r, i) => r - losses.reduce((sum, loss) => sum + loss[i], 0) * Math.abs(r))
+  };
+}
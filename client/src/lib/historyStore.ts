@@ -0,0 +1,293 @@
+/**
+ * Columnar, Float64Array-backed history of population trajectories
+ * Acts as a ring buffer once the retention limit is reached.
+ */
+
+export interface HistoryPoint {
+  t: number;
+  y: number[];
+}
+
+/**
+ * Contiguous copy of a time window, one column per species
+ */
+export interface HistoryChunk {
+  t: Float64Array;
+  y: Float64Array[];
+}
+
+/**
+ * Downsampled trajectory of a single species, or of a sum of species
+ */
+export interface HistorySeries {
+  t: Float64Array;
+  y: Float64Array;
+}
+
+// Default number of retained points
+export const DEFAULT_HISTORY_RETENTION = 200_000;
+
+const INITIAL_CAPACITY = 1024;
+
+export class HistoryStore {
+  readonly nSpecies: number;
+  readonly retention: number;
+  private times: Float64Array;
+  private values: Float64Array[];
+  private start = 0;      // Physical index of the oldest retained point
+  private size = 0;       // Number of retained points
+  private pushed = 0;     // Number of points ever pushed
+
+  constructor(nSpecies: number, retention: number = DEFAULT_HISTORY_RETENTION) {
+    this.nSpecies = nSpecies;
+    this.retention = Math.max(2, Math.floor(retention));
+    const capacity = Math.min(INITIAL_CAPACITY, this.retention);
+    this.times = new Float64Array(capacity);
+    this.values = Array(nSpecies).fill(0).map(() => new Float64Array(capacity));
+  }
+
+  /**
+   * Number of retained points
+   */
+  get length(): number {
+    return this.size;
+  }
+
+  /**
+   * Number of points pushed since creation, including discarded ones
+   */
+  get totalPushed(): number {
+    return this.pushed;
+  }
+
+  get startTime(): number {
+    return this.size > 0 ? this.timeAt(0) : NaN;
+  }
+
+  get endTime(): number {
+    return this.size > 0 ? this.timeAt(this.size - 1) : NaN;
+  }
+
+  private physical(i: number): number {
+    return (this.start + i) % this.times.length;
+  }
+
+  /**
+   * Double the buffers; only happens before the ring starts wrapping
+   */
+  private grow(): void {
+    const capacity = Math.min(this.times.length * 2, this.retention);
+    const times = new Float64Array(capacity);
+    times.set(this.times.subarray(0, this.size));
+    this.times = times;
+    this.values = this.values.map(column => {
+      const grown = new Float64Array(capacity);
+      grown.set(column.subarray(0, this.size));
+      return grown;
+    });
+  }
+
+  /**
+   * Append a point, discarding the oldest one when retention is exceeded
+   */
+  push(t: number, y: ArrayLike<number>): void {
+    if (this.size === this.times.length && this.size < this.retention) {
+      this.grow();
+    }
+    
+    let index: number;
+    if (this.size < this.times.length) {
+      index = this.physical(this.size);
+      this.size++;
+    } else {
+      index = this.start;
+      this.start = (this.start + 1) % this.times.length;
+    }
+    
+    this.times[index] = t;
+    for (let s = 0; s < this.nSpecies; s++) {
+      this.values[s][index] = y[s];
+    }
+    this.pushed++;
+  }
+
+  /**
+   * Append every point of a chunk
+   */
+  pushChunk(chunk: HistoryChunk): void {
+    const row = new Array<number>(this.nSpecies);
+    for (let i = 0; i < chunk.t.length; i++) {
+      for (let s = 0; s < this.nSpecies; s++) {
+        row[s] = chunk.y[s][i];
+      }
+      this.push(chunk.t[i], row);
+    }
+  }
+
+  clear(): void {
+    this.start = 0;
+    this.size = 0;
+    this.pushed = 0;
+  }
+
+  timeAt(i: number): number {
+    return this.times[this.physical(i)];
+  }
+
+  valueAt(i: number, species: number): number {
+    return this.values[species][this.physical(i)];
+  }
+
+  point(i: number): HistoryPoint {
+    const index = this.physical(i);
+    return {
+      t: this.times[index],
+      y: this.values.map(column => column[index])
+    };
+  }
+
+  /**
+   * All retained points as plain objects (for export)
+   */
+  toArray(): HistoryPoint[] {
+    return Array(this.size).fill(0).map((_, i) => this.point(i));
+  }
+
+  /**
+   * Copy of points pushed after the first `count` pushes that are still retained
+   */
+  since(count: number): HistoryChunk {
+    const first = Math.max(0, this.size - (this.pushed - count));
+    return this.slice(first, this.size);
+  }
+
+  /**
+   * Logical index of the first point with time >= t
+   */
+  lowerBound(t: number): number {
+    let lo = 0;
+    let hi = this.size;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.timeAt(mid) < t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /**
+   * Logical index of the first point with time > t
+   */
+  upperBound(t: number): number {
+    let lo = 0;
+    let hi = this.size;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.timeAt(mid) <= t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /**
+   * Copy of all points with t0 <= t <= t1
+   */
+  window(t0: number, t1: number): HistoryChunk {
+    return this.slice(this.lowerBound(t0), this.upperBound(t1));
+  }
+
+  private slice(from: number, to: number): HistoryChunk {
+    const n = Math.max(0, to - from);
+    const t = new Float64Array(n);
+    const y = this.values.map(() => new Float64Array(n));
+    for (let k = 0; k < n; k++) {
+      const index = this.physical(from + k);
+      t[k] = this.times[index];
+      for (let s = 0; s < this.nSpecies; s++) {
+        y[s][k] = this.values[s][index];
+      }
+    }
+    return { t, y };
+  }
+
+  /**
+   * Min/max-preserving downsampling of [t0, t1] into at most 2 points per bucket
+   * Each bucket keeps its minimum and maximum in time order, so spikes such
+   * as hurricane drops survive at any zoom level.
+   * @param groups - Columns summed into each series, default one series per column
+   */
+  downsample(
+    buckets: number,
+    t0: number = this.startTime,
+    t1: number = this.endTime,
+    groups?: number[][]
+  ): HistorySeries[] {
+    const from = this.lowerBound(t0);
+    const to = this.upperBound(t1);
+    const n = Math.max(0, to - from);
+    const nBuckets = Math.max(1, Math.floor(buckets));
+    const columns = groups ?? this.values.map((_, s) => [s]);
+    const sumAt = (i: number, group: number[]) =>
+      group.reduce((sum, s) => sum + this.valueAt(i, s), 0);
+    
+    // Few enough points to draw them all
+    if (n <= 2 * nBuckets) {
+      const chunk = this.slice(from, to);
+      return columns.map(group => ({
+        t: chunk.t,
+        y: group.length === 1
+          ? chunk.y[group[0]]
+          : chunk.t.map((_, k) => group.reduce((sum, s) => sum + chunk.y[s][k], 0))
+      }));
+    }
+    
+    const width = (t1 - t0) / nBuckets || 1;
+    
+    return columns.map(group => {
+      const outT: number[] = [];
+      const outY: number[] = [];
+      const emit = (i: number) => {
+        outT.push(this.timeAt(i));
+        outY.push(sumAt(i, group));
+      };
+      
+      let bucket = -1;
+      let minIdx = from;
+      let maxIdx = from;
+      let minValue = 0;
+      let maxValue = 0;
+      const flush = () => {
+        if (bucket < 0) return;
+        const a = Math.min(minIdx, maxIdx);
+        const b = Math.max(minIdx, maxIdx);
+        // The first and last points are emitted separately
+        if (a !== from && a !== to - 1) emit(a);
+        if (b !== a && b !== to - 1) emit(b);
+      };
+      
+      emit(from);
+      for (let i = from; i < to; i++) {
+        const b = Math.min(nBuckets - 1, Math.floor((this.timeAt(i) - t0) / width));
+        const value = sumAt(i, group);
+        if (b !== bucket) {
+          flush();
+          bucket = b;
+          minIdx = i;
+          maxIdx = i;
+          minValue = value;
+          maxValue = value;
+        } else if (value < minValue) {
+          minIdx = i;
+          minValue = value;
+        } else if (value > maxValue) {
+          maxIdx = i;
+          maxValue = value;
+        }
+      }
+      flush();
+      emit(to - 1);
+      
+      return { t: Float64Array.from(outT), y: Float64Array.from(outY) };
+    });
+  }
+}
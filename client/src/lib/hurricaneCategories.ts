@@ -0,0 +1,44 @@
+/**
+ * Hurricane category scales
+ */
+
+import { HurricaneCategory } from './simulationEngine';
+
+export const DEFAULT_CATEGORIES: HurricaneCategory[] = [
+  { name: 'Category 1', probability: 0.4, damage: 0.1, color: '#fbbf24' },
+  { name: 'Category 2', probability: 0.3, damage: 0.5, color: '#f97316' },
+  { name: 'Category 3', probability: 0.3, damage: 0.8, color: '#dc2626' }
+];
+
+/**
+ * Saffir-Simpson categories 1-5 with roughly the share of each among
+ * Atlantic landfalls
+ */
+export const SAFFIR_SIMPSON_CATEGORIES: HurricaneCategory[] = [
+  { name: 'Category 1', probability: 0.42, damage: 0.1, color: '#fbbf24' },
+  { name: 'Category 2', probability: 0.25, damage: 0.25, color: '#f97316' },
+  { name: 'Category 3', probability: 0.2, damage: 0.5, color: '#dc2626' },
+  { name: 'Category 4', probability: 0.1, damage: 0.7, color: '#991b1b' },
+  { name: 'Category 5', probability: 0.03, damage: 0.9, color: '#7e22ce' }
+];
+
+// Marker colour of events whose category is not in the list
+export const UNKNOWN_CATEGORY_COLOR = '#6b7280';
+
+/**
+ * Scale probabilities to sum to 1, or share equally when they sum to 0
+ */
+export function normalizeCategories(categories: HurricaneCategory[]): HurricaneCategory[] {
+  const total = categories.reduce((sum, cat) => sum + Math.max(0, cat.probability), 0);
+  return categories.map(cat => ({
+    ...cat,
+    probability: total > 0 ? Math.max(0, cat.probability) / total : 1 / categories.length
+  }));
+}
+
+/**
+ * Colour of a category by name
+ */
+export function categoryColor(categories: HurricaneCategory[], name: string): string {
+  return categories.find(cat => cat.name === name)?.color ?? UNKNOWN_CATEGORY_COLOR;
+}
@@ -0,0 +1,327 @@
+/**
+ * Spatially explicit hurricane tracks over a map of islands
+ */
+
+import { parseLabeledCSV } from './networkBuilder';
+import { RandomSource, randomNormal } from './random';
+import { HurricaneEvent } from './simulationEngine';
+
+/**
+ * Position and attributes of an island
+ */
+export interface IslandSite {
+  name: string;
+  x: number;          // Easting (km)
+  y: number;          // Northing (km)
+  area: number;       // Any positive unit, only ratios matter
+  elevation: number;  // Any positive unit, only ratios matter
+}
+
+/**
+ * Straight storm path, long enough to cross the whole archipelago
+ */
+export interface HurricaneTrack {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * User-facing track settings
+ */
+export interface TrackSettings {
+  enabled: boolean;           // Off: each hurricane strikes one island chosen uniformly
+  radius: number;             // Distance from the track (km) at which damage falls to 1/e
+  heading: number;            // Mean direction of travel, degrees clockwise from north
+  headingSpread: number;      // Standard deviation of the heading (degrees)
+  areaExponent: number;       // Exposure scales as (area / mean area)^-areaExponent
+  elevationExponent: number;  // Exposure scales as (elevation / mean elevation)^-elevationExponent
+}
+
+export const DEFAULT_TRACK_SETTINGS: TrackSettings = {
+  enabled: false,
+  radius: 50,
+  heading: 290,
+  headingSpread: 30,
+  areaExponent: 0,
+  elevationExponent: 0
+};
+
+/**
+ * Track model used by the engine
+ */
+export interface TrackModel {
+  sites: IslandSite[];
+  radius: number;
+  heading: number;
+  headingSpread: number;
+  exposure: number[];         // Per-island multiplier of damage
+}
+
+// Islands with a smaller share of the storm's damage are left untouched
+const MIN_INTENSITY = 0.01;
+
+// Spacing of generated islands along their chain (km)
+const DEFAULT_SPACING = 60;
+
+// Kilometres per degree of latitude
+const KM_PER_DEGREE = 111.2;
+
+/**
+ * Islands along a gently curving chain, used when no map is loaded
+ */
+export function defaultSites(names: string[]): IslandSite[] {
+  return names.map((name, k) => ({
+    name,
+    x: k * DEFAULT_SPACING,
+    y: 25 * Math.sin(k * 0.9),
+    area: 1,
+    elevation: 1
+  }));
+}
+
+/**
+ * Relative exposure of each island to hurricane damage
+ * Large and high islands offer refuges when the exponents are positive.
+ */
+export function islandExposure(sites: IslandSite[], settings: TrackSettings): number[] {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const meanArea = mean(sites.map(site => site.area));
+  const meanElevation = mean(sites.map(site => site.elevation));
+  return sites.map(site =>
+    (site.area / meanArea) ** -settings.areaExponent *
+    (site.elevation / meanElevation) ** -settings.elevationExponent
+  );
+}
+
+/**
+ * Draw a track through the archipelago
+ * The track passes through a uniform point of the bounding box of the
+ * islands, widened by the damage radius, with a normally distributed heading.
+ */
+export function drawTrack(model: TrackModel, random: RandomSource): HurricaneTrack {
+  const xs = model.sites.map(site => site.x);
+  const ys = model.sites.map(site => site.y);
+  const [xMin, xMax] = [Math.min(...xs) - model.radius, Math.max(...xs) + model.radius];
+  const [yMin, yMax] = [Math.min(...ys) - model.radius, Math.max(...ys) + model.radius];
+  
+  const cx = xMin + random() * (xMax - xMin);
+  const cy = yMin + random() * (yMax - yMin);
+  const heading = (model.heading + model.headingSpread * randomNormal(random)) * Math.PI / 180;
+  
+  // Direction of travel, clockwise from north
+  const dx = Math.sin(heading);
+  const dy = Math.cos(heading);
+  const half = Math.hypot(xMax - xMin, yMax - yMin) + 3 * model.radius;
+  return {
+    x0: cx - half * dx,
+    y0: cy - half * dy,
+    x1: cx + half * dx,
+    y1: cy + half * dy
+  };
+}
+
+/**
+ * Distance from a point to a track segment
+ */
+function distanceToTrack(x: number, y: number, track: HurricaneTrack): number {
+  const dx = track.x1 - track.x0;
+  const dy = track.y1 - track.y0;
+  const length2 = dx * dx + dy * dy;
+  const s = length2 > 0
+    ? Math.min(1, Math.max(0, ((x - track.x0) * dx + (y - track.y0) * dy) / length2))
+    : 0;
+  return Math.hypot(x - (track.x0 + s * dx), y - (track.y0 + s * dy));
+}
+
+/**
+ * Share of the storm's damage felt on each island
+ * exp(-distance / radius) times the island's exposure; shares below 1% are 0.
+ */
+export function trackIntensity(model: TrackModel, track: HurricaneTrack): number[] {
+  return model.sites.map((site, k) => {
+    const intensity = Math.exp(-distanceToTrack(site.x, site.y, track) / model.radius) * model.exposure[k];
+    return intensity < MIN_INTENSITY ? 0 : intensity;
+  });
+}
+
+/**
+ * Whether a hurricane reached an island
+ * Events without a location, from a single community, reach every island.
+ */
+export function hurricaneStrikesIsland(hurricane: HurricaneEvent, island: number): boolean {
+  if (hurricane.islandDamage) return hurricane.islandDamage[island] > 0;
+  return hurricane.island === undefined || hurricane.island === island;
+}
+
+/**
+ * Project longitude and latitude (degrees) to kilometres around their mean
+ */
+function projectLonLat(points: Array<{ lon: number; lat: number }>): Array<{ x: number; y: number }> {
+  const lon0 = points.reduce((sum, p) => sum + p.lon, 0) / points.length;
+  const lat0 = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+  const cosLat = Math.cos(lat0 * Math.PI / 180);
+  return points.map(p => ({
+    x: (p.lon - lon0) * KM_PER_DEGREE * cosLat,
+    y: (p.lat - lat0) * KM_PER_DEGREE
+  }));
+}
+
+/**
+ * Check that a map can be used
+ */
+function validateSites(sites: IslandSite[]): IslandSite[] {
+  if (sites.length === 0) {
+    throw new Error('Island map has no islands');
+  }
+  const names = new Set<string>();
+  for (const site of sites) {
+    if (![site.x, site.y, site.area, site.elevation].every(Number.isFinite)) {
+      throw new Error(`Coordinates and attributes of "${site.name}" must be numbers`);
+    }
+    if (site.area <= 0 || site.elevation <= 0) {
+      throw new Error(`Area and elevation of "${site.name}" must be positive`);
+    }
+    if (names.has(site.name)) {
+      throw new Error(`Island "${site.name}" appears more than once`);
+    }
+    names.add(site.name);
+  }
+  return sites;
+}
+
+/**
+ * Read islands from CSV with a header row
+ * Positions are x and y in kilometres, or lon and lat in degrees; area and
+ * elevation are optional and default to 1. Islands are named by the first
+ * column when it holds text.
+ */
+export function parseIslandSitesCSV(csvText: string): IslandSite[] {
+  const { matrix, rowNames, colNames } = parseLabeledCSV(csvText);
+  if (!colNames) {
+    throw new Error('Island map needs a header row naming its columns');
+  }
+  
+  const names = colNames.map(name => name.trim().toLowerCase());
+  const column = (...keys: string[]) => names.findIndex(name => keys.includes(name));
+  const [cx, cy] = [column('x'), column('y')];
+  const [cLon, cLat] = [column('lon', 'longitude'), column('lat', 'latitude')];
+  const [cArea, cElevation] = [column('area'), column('elevation', 'elev')];
+  
+  let positions: Array<{ x: number; y: number }>;
+  if (cx >= 0 && cy >= 0) {
+    positions = matrix.map(row => ({ x: row[cx], y: row[cy] }));
+  } else if (cLon >= 0 && cLat >= 0) {
+    positions = projectLonLat(matrix.map(row => ({ lon: row[cLon], lat: row[cLat] })));
+  } else {
+    throw new Error('Island map needs x and y, or lon and lat columns');
+  }
+  
+  return validateSites(matrix.map((row, k) => ({
+    name: rowNames?.[k] ?? `Island ${k + 1}`,
+    ...positions[k],
+    area: cArea >= 0 ? row[cArea] : 1,
+    elevation: cElevation >= 0 ? row[cElevation] : 1
+  })));
+}
+
+/**
+ * Whether a parsed JSON value is an object with named members
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a parsed JSON value is a GeoJSON position of finite numbers
+ */
+function isPosition(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length >= 2 &&
+    value.every(v => typeof v === 'number' && Number.isFinite(v));
+}
+
+/**
+ * Whether a parsed JSON value is a non-empty ring of positions
+ */
+function isRing(value: unknown): value is number[][] {
+  return Array.isArray(value) && value.length > 0 && value.every(isPosition);
+}
+
+/**
+ * Points of a feature's geometry: the point itself or the outer ring of its
+ * (first) polygon, without the repeated closing vertex
+ */
+function geometryRing(geometry: unknown): number[][] {
+  const coordinates = isObject(geometry) ? geometry.coordinates : undefined;
+  let ring: unknown;
+  switch (isObject(geometry) ? geometry.type : undefined) {
+    case 'Point':
+      ring = [coordinates];
+      break;
+    case 'Polygon':
+      ring = Array.isArray(coordinates) ? coordinates[0] : undefined;
+      break;
+    case 'MultiPolygon':
+      ring = Array.isArray(coordinates) && Array.isArray(coordinates[0]) ? coordinates[0][0] : undefined;
+      break;
+  }
+  if (!isRing(ring)) {
+    throw new Error('Island features must be points or polygons');
+  }
+  
+  // A closed ring repeats its first vertex
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (ring.length > 1 && first[0] === last[0] && first[1] === last[1]) {
+    return ring.slice(0, -1);
+  }
+  return ring;
+}
+
+/**
+ * Read islands from a GeoJSON FeatureCollection
+ * Point features are used as they are and polygons by the mean of their
+ * outer ring; coordinates are longitude and latitude. The name, area and
+ * elevation properties are optional.
+ */
+export function parseIslandSitesGeoJSON(text: string): IslandSite[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Island map is not valid JSON');
+  }
+  if (!isObject(data)) {
+    throw new Error('Island map must be a GeoJSON object');
+  }
+  const features = data.type === 'FeatureCollection' ? data.features : [data];
+  if (!Array.isArray(features) || features.length === 0) {
+    throw new Error('Island map has no features');
+  }
+  
+  const points = features.map((feature: unknown) => {
+    const ring = geometryRing(isObject(feature) ? feature.geometry : undefined);
+    return {
+      lon: ring.reduce((sum, p) => sum + p[0], 0) / ring.length,
+      lat: ring.reduce((sum, p) => sum + p[1], 0) / ring.length
+    };
+  });
+  const positions = projectLonLat(points);
+  return validateSites(features.map((feature: unknown, k) => {
+    const props = isObject(feature) && isObject(feature.properties) ? feature.properties : {};
+    return {
+      name: String(props.name ?? props.id ?? `Island ${k + 1}`),
+      ...positions[k],
+      area: props.area !== undefined ? Number(props.area) : 1,
+      elevation: props.elevation !== undefined ? Number(props.elevation) : 1
+    };
+  }));
+}
+
+/**
+ * Read islands from CSV or GeoJSON, told apart by the file name or content
+ */
+export function parseIslandSites(text: string, filename: string): IslandSite[] {
+  const json = /\.(geo)?json$/i.test(filename) || text.trimStart().startsWith('{');
+  return json ? parseIslandSitesGeoJSON(text) : parseIslandSitesCSV(text);
+}
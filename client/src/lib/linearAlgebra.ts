@@ -0,0 +1,330 @@
+/**
+ * Dense linear algebra helpers for small systems
+ */
+
+export interface LUDecomposition {
+  LU: number[][];     // Combined L (unit diagonal, below) and U (on and above)
+  pivots: number[];   // Row permutation applied during factorization
+  singular: boolean;  // True if a zero pivot was encountered
+}
+
+/**
+ * Identity matrix of size n
+ */
+export function identity(n: number): number[][] {
+  return Array(n).fill(0).map((_, i) =>
+    Array(n).fill(0).map((_, j) => (i === j ? 1 : 0))
+  );
+}
+
+/**
+ * Matrix-vector multiplication
+ */
+export function matVec(matrix: number[][], vec: number[]): number[] {
+  return matrix.map(row =>
+    row.reduce((sum, val, i) => sum + val * vec[i], 0)
+  );
+}
+
+/**
+ * Maximum absolute row sum (infinity norm) of a matrix
+ */
+export function normInf(matrix: number[][]): number {
+  return matrix.reduce(
+    (max, row) => Math.max(max, row.reduce((sum, val) => sum + Math.abs(val), 0)),
+    0
+  );
+}
+
+/**
+ * LU factorization with partial pivoting
+ */
+export function luDecompose(matrix: number[][]): LUDecomposition {
+  const n = matrix.length;
+  const LU = matrix.map(row => [...row]);
+  const pivots = Array(n).fill(0).map((_, i) => i);
+  let singular = false;
+  
+  for (let k = 0; k < n; k++) {
+    // Find pivot row
+    let p = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(LU[i][k]) > Math.abs(LU[p][k])) p = i;
+    }
+    
+    if (LU[p][k] === 0) {
+      singular = true;
+      continue;
+    }
+    
+    if (p !== k) {
+      [LU[p], LU[k]] = [LU[k], LU[p]];
+      [pivots[p], pivots[k]] = [pivots[k], pivots[p]];
+    }
+    
+    for (let i = k + 1; i < n; i++) {
+      LU[i][k] /= LU[k][k];
+      const factor = LU[i][k];
+      if (factor === 0) continue;
+      for (let j = k + 1; j < n; j++) {
+        LU[i][j] -= factor * LU[k][j];
+      }
+    }
+  }
+  
+  return { LU, pivots, singular };
+}
+
+/**
+ * Solve A x = b given the LU factorization of A
+ */
+export function luSolve(lu: LUDecomposition, b: number[]): number[] {
+  const { LU, pivots } = lu;
+  const n = LU.length;
+  const x = pivots.map(p => b[p]);
+  
+  // Forward substitution (unit lower triangular)
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < i; j++) {
+      x[i] -= LU[i][j] * x[j];
+    }
+  }
+  
+  // Back substitution
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = i + 1; j < n; j++) {
+      x[i] -= LU[i][j] * x[j];
+    }
+    x[i] /= LU[i][i];
+  }
+  
+  return x;
+}
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+/**
+ * Reduce a matrix to upper Hessenberg form by Householder similarity transforms
+ */
+function hessenberg(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const H = matrix.map(row => [...row]);
+  const ort: number[] = Array(n).fill(0);
+  
+  for (let m = 1; m < n - 1; m++) {
+    let scale = 0;
+    for (let i = m; i < n; i++) scale += Math.abs(H[i][m - 1]);
+    if (scale === 0) continue;
+    
+    let h = 0;
+    for (let i = n - 1; i >= m; i--) {
+      ort[i] = H[i][m - 1] / scale;
+      h += ort[i] * ort[i];
+    }
+    let g = Math.sqrt(h);
+    if (ort[m] > 0) g = -g;
+    h -= ort[m] * g;
+    ort[m] -= g;
+    
+    for (let j = m; j < n; j++) {
+      let f = 0;
+      for (let i = n - 1; i >= m; i--) f += ort[i] * H[i][j];
+      f /= h;
+      for (let i = m; i < n; i++) H[i][j] -= f * ort[i];
+    }
+    for (let i = 0; i < n; i++) {
+      let f = 0;
+      for (let j = n - 1; j >= m; j--) f += ort[j] * H[i][j];
+      f /= h;
+      for (let j = m; j < n; j++) H[i][j] -= f * ort[j];
+    }
+    
+    ort[m] *= scale;
+    H[m][m - 1] = scale * g;
+  }
+  
+  return H;
+}
+
+/**
+ * Eigenvalues of a real (non-symmetric) matrix
+ * Hessenberg reduction followed by the shifted double QR algorithm (EISPACK hqr).
+ * Entries are NaN if the iteration fails to converge.
+ */
+export function eigenvalues(matrix: number[][]): Complex[] {
+  const nn = matrix.length;
+  const H = hessenberg(matrix);
+  const d: number[] = Array(nn).fill(0);
+  const e: number[] = Array(nn).fill(0);
+  const eps = Number.EPSILON;
+  
+  let norm = 0;
+  for (let i = 0; i < nn; i++) {
+    for (let j = Math.max(i - 1, 0); j < nn; j++) norm += Math.abs(H[i][j]);
+  }
+  
+  let n = nn - 1;
+  let exshift = 0;
+  let iter = 0;
+  let totalIter = 0;
+  let p = 0, q = 0, r = 0, s = 0, z = 0, w = 0, x = 0, y = 0;
+  
+  while (n >= 0) {
+    // Look for a single small sub-diagonal element
+    let l = n;
+    while (l > 0) {
+      s = Math.abs(H[l - 1][l - 1]) + Math.abs(H[l][l]);
+      if (s === 0) s = norm;
+      if (Math.abs(H[l][l - 1]) < eps * s) break;
+      l--;
+    }
+    
+    if (l === n) {
+      // One root found
+      d[n] = H[n][n] + exshift;
+      e[n] = 0;
+      n--;
+      iter = 0;
+    } else if (l === n - 1) {
+      // Two roots found
+      w = H[n][n - 1] * H[n - 1][n];
+      p = (H[n - 1][n - 1] - H[n][n]) / 2;
+      q = p * p + w;
+      z = Math.sqrt(Math.abs(q));
+      x = H[n][n] + exshift;
+      if (q >= 0) {
+        z = p >= 0 ? p + z : p - z;
+        d[n - 1] = x + z;
+        d[n] = z !== 0 ? x - w / z : d[n - 1];
+        e[n - 1] = 0;
+        e[n] = 0;
+      } else {
+        d[n - 1] = x + p;
+        d[n] = x + p;
+        e[n - 1] = z;
+        e[n] = -z;
+      }
+      n -= 2;
+      iter = 0;
+    } else {
+      if (++totalIter > 100 * nn) {
+        return Array(nn).fill(0).map(() => ({ re: NaN, im: NaN }));
+      }
+      
+      // Form shift
+      x = H[n][n];
+      y = H[n - 1][n - 1];
+      w = H[n][n - 1] * H[n - 1][n];
+      
+      // Wilkinson's ad hoc exceptional shift
+      if (iter === 10) {
+        exshift += x;
+        for (let i = 0; i <= n; i++) H[i][i] -= x;
+        s = Math.abs(H[n][n - 1]) + Math.abs(H[n - 1][n - 2]);
+        x = y = 0.75 * s;
+        w = -0.4375 * s * s;
+      }
+      
+      // Second exceptional shift
+      if (iter === 30) {
+        s = (y - x) / 2;
+        s = s * s + w;
+        if (s > 0) {
+          s = Math.sqrt(s);
+          if (y < x) s = -s;
+          s = x - w / ((y - x) / 2 + s);
+          for (let i = 0; i <= n; i++) H[i][i] -= s;
+          exshift += s;
+          x = y = w = 0.964;
+        }
+      }
+      iter++;
+      
+      // Look for two consecutive small sub-diagonal elements
+      let m = n - 2;
+      while (m >= l) {
+        z = H[m][m];
+        r = x - z;
+        s = y - z;
+        p = (r * s - w) / H[m + 1][m] + H[m][m + 1];
+        q = H[m + 1][m + 1] - z - r - s;
+        r = H[m + 2][m + 1];
+        s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+        p /= s;
+        q /= s;
+        r /= s;
+        if (m === l) break;
+        if (
+          Math.abs(H[m][m - 1]) * (Math.abs(q) + Math.abs(r)) <
+          eps * (Math.abs(p) * (Math.abs(H[m - 1][m - 1]) + Math.abs(z) + Math.abs(H[m + 1][m + 1])))
+        ) {
+          break;
+        }
+        m--;
+      }
+      
+      for (let i = m + 2; i <= n; i++) {
+        H[i][i - 2] = 0;
+        if (i > m + 2) H[i][i - 3] = 0;
+      }
+      
+      // Double QR step on rows l..n and columns m..n
+      for (let k = m; k <= n - 1; k++) {
+        const notLast = k !== n - 1;
+        if (k !== m) {
+          p = H[k][k - 1];
+          q = H[k + 1][k - 1];
+          r = notLast ? H[k + 2][k - 1] : 0;
+          x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+          if (x === 0) continue;
+          p /= x;
+          q /= x;
+          r /= x;
+        }
+        
+        s = Math.sqrt(p * p + q * q + r * r);
+        if (p < 0) s = -s;
+        if (s === 0) continue;
+        
+        if (k !== m) {
+          H[k][k - 1] = -s * x;
+        } else if (l !== m) {
+          H[k][k - 1] = -H[k][k - 1];
+        }
+        p += s;
+        x = p / s;
+        y = q / s;
+        z = r / s;
+        q /= p;
+        r /= p;
+        
+        // Row modification
+        for (let j = k; j < nn; j++) {
+          p = H[k][j] + q * H[k + 1][j];
+          if (notLast) {
+            p += r * H[k + 2][j];
+            H[k + 2][j] -= p * z;
+          }
+          H[k][j] -= p * x;
+          H[k + 1][j] -= p * y;
+        }
+        
+        // Column modification
+        for (let i = 0; i <= Math.min(n, k + 3); i++) {
+          p = x * H[i][k] + y * H[i][k + 1];
+          if (notLast) {
+            p += z * H[i][k + 2];
+            H[i][k + 2] -= p * r;
+          }
+          H[i][k] -= p;
+          H[i][k + 1] -= p * q;
+        }
+      }
+    }
+  }
+  
+  return d.map((re, i) => ({ re, im: e[i] }));
+}
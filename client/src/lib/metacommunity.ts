@@ -0,0 +1,206 @@
+/**
+ * Metacommunity of islands sharing one interaction network, coupled by
+ * species-specific dispersal
+ */
+
+import { ODEFunction, JacobianFunction } from './odeSolver';
+import { LabeledMatrix } from './networkBuilder';
+import { IslandSite, defaultSites } from './hurricaneTracks';
+
+/**
+ * Arrangement of dispersal between islands
+ * - global: emigrants spread equally over all other islands (island model)
+ * - steppingStone: islands on a line exchange emigrants with their neighbours
+ * - custom: relative flows read from a K x K matrix
+ */
+export type DispersalKernelType = 'global' | 'steppingStone' | 'custom';
+
+export const DISPERSAL_KERNEL_LABELS: Record<DispersalKernelType, string> = {
+  global: 'Global (island model)',
+  steppingStone: 'Stepping stone (neighbours)',
+  custom: 'Custom matrix (CSV)'
+};
+
+/**
+ * User-facing metacommunity settings
+ */
+export interface MetacommunitySettings {
+  islands: number;              // 1 for a single well-mixed community
+  kernel: DispersalKernelType;
+  matrix: LabeledMatrix | null; // Flows of the custom kernel, rows are source islands
+  sites: IslandSite[] | null;   // Loaded island map, one site per island
+}
+
+export const DEFAULT_METACOMMUNITY: MetacommunitySettings = {
+  islands: 1,
+  kernel: 'global',
+  matrix: null,
+  sites: null
+};
+
+/**
+ * Coupling used by the dynamics
+ * The population vector holds island 0's species, then island 1's, and so on.
+ */
+export interface Metacommunity {
+  islands: number;
+  nSpecies: number;        // Species per island
+  dispersal: number[];     // Per-species emigration rate
+  kernel: number[][];      // kernel[from][to]: fraction of emigrants from one island arriving on another
+  islandNames: string[];
+  sites: IslandSite[];     // Loaded map, or islands laid out along a chain
+}
+
+/**
+ * Island names from a loaded map or a custom matrix, or numbered
+ */
+export function islandNames(settings: MetacommunitySettings): string[] {
+  const names = settings.kernel === 'custom'
+    ? settings.matrix?.rowNames ?? settings.matrix?.colNames
+    : null;
+  return settings.sites?.map(site => site.name) ??
+    names ?? Array(settings.islands).fill(0).map((_, k) => `Island ${k + 1}`);
+}
+
+/**
+ * Island positions and attributes from the loaded map, or a default chain
+ */
+export function islandSites(settings: MetacommunitySettings): IslandSite[] {
+  if (settings.sites) {
+    if (settings.sites.length !== settings.islands) {
+      throw new Error(`Island map has ${settings.sites.length} islands but the metacommunity has ${settings.islands}`);
+    }
+    return settings.sites;
+  }
+  return defaultSites(islandNames(settings));
+}
+
+/**
+ * Row-normalized dispersal kernel of the chosen arrangement
+ * Each row sums to 1, or to 0 for an island whose residents do not leave.
+ * The diagonal of a custom matrix is ignored.
+ */
+export function buildDispersalKernel(settings: MetacommunitySettings): number[][] {
+  const K = settings.islands;
+  let flows: number[][];
+  
+  if (settings.kernel === 'custom') {
+    const matrix = settings.matrix?.matrix;
+    if (!matrix) {
+      throw new Error('Custom dispersal needs a matrix of flows between islands');
+    }
+    if (matrix.length !== K || matrix.some(row => row.length !== K)) {
+      throw new Error(`Dispersal matrix must be ${K} x ${K}, one row and column per island`);
+    }
+    if (matrix.some(row => row.some(value => value < 0))) {
+      throw new Error('Dispersal flows must be non-negative');
+    }
+    flows = matrix.map((row, k) => row.map((value, l) => (k === l ? 0 : value)));
+  } else if (settings.kernel === 'steppingStone') {
+    flows = Array(K).fill(0).map((_, k) =>
+      Array(K).fill(0).map((_, l) => (Math.abs(k - l) === 1 ? 1 : 0))
+    );
+  } else {
+    flows = Array(K).fill(0).map((_, k) =>
+      Array(K).fill(0).map((_, l) => (k === l ? 0 : 1))
+    );
+  }
+  
+  return flows.map(row => {
+    const total = row.reduce((sum, value) => sum + value, 0);
+    return row.map(value => (total > 0 ? value / total : 0));
+  });
+}
+
+/**
+ * Right-hand side of the metacommunity from that of a single island
+ * dN[k,i]/dt = f_i(N[k]) - d[i] * N[k,i] * out[k] + d[i] * sum_l kernel[l][k] * N[l,i]
+ * where out[k] is 1 for islands with emigration and 0 otherwise.
+ */
+export function metacommunityDynamics(local: ODEFunction, meta: Metacommunity): ODEFunction {
+  const { islands, nSpecies, dispersal, kernel } = meta;
+  const outflow = kernel.map(row => row.reduce((sum, value) => sum + value, 0));
+  
+  return (t, y, params) => {
+    const dy: number[] = [];
+    for (let k = 0; k < islands; k++) {
+      dy.push(...local(t, y.slice(k * nSpecies, (k + 1) * nSpecies), params));
+    }
+    
+    for (let k = 0; k < islands; k++) {
+      for (let i = 0; i < nSpecies; i++) {
+        if (dispersal[i] === 0) continue;
+        let immigration = 0;
+        for (let l = 0; l < islands; l++) {
+          immigration += kernel[l][k] * y[l * nSpecies + i];
+        }
+        dy[k * nSpecies + i] += dispersal[i] * (immigration - outflow[k] * y[k * nSpecies + i]);
+      }
+    }
+    return dy;
+  };
+}
+
+/**
+ * Jacobian of metacommunityDynamics: local blocks on the diagonal plus the
+ * linear dispersal coupling
+ */
+export function metacommunityJacobian(local: JacobianFunction, meta: Metacommunity): JacobianFunction {
+  const { islands, nSpecies, dispersal, kernel } = meta;
+  const outflow = kernel.map(row => row.reduce((sum, value) => sum + value, 0));
+  const size = islands * nSpecies;
+  
+  return (t, y, params) => {
+    const J = Array(size).fill(0).map(() => Array(size).fill(0));
+    for (let k = 0; k < islands; k++) {
+      const block = local(t, y.slice(k * nSpecies, (k + 1) * nSpecies), params);
+      for (let i = 0; i < nSpecies; i++) {
+        for (let j = 0; j < nSpecies; j++) {
+          J[k * nSpecies + i][k * nSpecies + j] = block[i][j];
+        }
+        J[k * nSpecies + i][k * nSpecies + i] -= dispersal[i] * outflow[k];
+        for (let l = 0; l < islands; l++) {
+          J[k * nSpecies + i][l * nSpecies + i] += dispersal[i] * kernel[l][k];
+        }
+      }
+    }
+    return J;
+  };
+}
+
+/**
+ * Populations of one island
+ */
+export function islandPopulations(y: ArrayLike<number>, nSpecies: number, island: number): number[] {
+  return Array.from({ length: nSpecies }, (_, i) => y[island * nSpecies + i]);
+}
+
+/**
+ * Total population of each species over all islands
+ */
+export function regionalPopulations(y: ArrayLike<number>, nSpecies: number): number[] {
+  const regional = Array(nSpecies).fill(0);
+  for (let c = 0; c < y.length; c++) {
+    regional[c % nSpecies] += y[c];
+  }
+  return regional;
+}
+
+/**
+ * Species absent from every island, given the locally extinct columns
+ */
+export function regionallyExtinct(
+  extinct: Set<number>,
+  nSpecies: number,
+  islands: number
+): Set<number> {
+  const result = new Set<number>();
+  for (let i = 0; i < nSpecies; i++) {
+    let all = true;
+    for (let k = 0; k < islands && all; k++) {
+      all = extinct.has(k * nSpecies + i);
+    }
+    if (all) result.add(i);
+  }
+  return result;
+}
@@ -3,81 +3,414 @@
  * Based on the Julia implementation for bipartite networks
  */
 
+export interface LayerNames {
+  plants: string[] | null;   // Row names, null if the file had none
+  animals: string[] | null;  // Column names, null if the file had none
+}
+
 export interface BipartiteNetwork {
   B: number[][] | null;  // Pollination biadjacency matrix
   S: number[][] | null;  // Seed dispersal biadjacency matrix
+  BNames?: LayerNames | null;  // Species names from the B file
+  SNames?: LayerNames | null;  // Species names from the S file
+}
+
+export interface LabeledMatrix {
+  matrix: number[][];
+  rowNames: string[] | null;
+  colNames: string[] | null;
+}
+
+/**
+ * How competition among species of the same guild is assigned
+ * - uniform: c / (n_active - 1) between all species active in the same layer
+ * - nicheOverlap: uniform scaled by the cosine overlap of shared partners (B·Bᵀ)
+ * - custom: user-supplied plant × plant and animal × animal coefficients
+ */
+export type CompetitionModel = 'uniform' | 'nicheOverlap' | 'custom';
+
+export interface CompetitionStructure {
+  model: CompetitionModel;
+  plantMatrix?: LabeledMatrix | null;   // 'custom': plant coefficients, uniform if missing
+  animalMatrix?: LabeledMatrix | null;  // 'custom': animal coefficients, uniform if missing
 }
 
 export interface NetworkParams {
   m: number;  // Mutualistic strength for pollination
   d: number;  // Mutualistic strength for dispersal
-  c: number;  // Competition strength
+  c: number;  // Competition strength among plants
+  cAnimal?: number;     // Competition strength among animals, defaults to c
+  selfPlant?: number;   // Intraspecific self-regulation of plants, default 1
+  selfAnimal?: number;  // Intraspecific self-regulation of animals, default 1
+  competition?: CompetitionStructure;  // Default uniform
 }
 
 /**
- * Parse CSV string to matrix
+ * Pick the delimiter that occurs most often outside quotes in the first line
  */
-export function parseCSV(csvText: string): number[][] {
-  const lines = csvText.trim().split('\n');
-  const matrix: number[][] = [];
+function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === '\n' && !inQuotes) break;
+    else if (!inQuotes && ch in counts) counts[ch]++;
+  }
   
-  for (const line of lines) {
-    const values = line.split(',').map(v => parseFloat(v.trim()));
-    if (values.some(isNaN)) {
-      throw new Error('Invalid CSV format: contains non-numeric values');
+  let best = ',';
+  for (const delimiter of [';', '\t']) {
+    if (counts[delimiter] > counts[best]) best = delimiter;
+  }
+  return best;
+}
+
+/**
+ * Split delimited text into rows of fields, honouring quoted fields
+ * Quotes may enclose delimiters and line breaks; "" inside quotes is a literal quote.
+ */
+function tokenize(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  
+  for (let k = 0; k < text.length; k++) {
+    const ch = text[k];
+    if (inQuotes) {
+      if (ch === '"' && text[k + 1] === '"') {
+        field += '"';
+        k++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
     }
-    matrix.push(values);
   }
   
-  if (matrix.length === 0) {
+  if (inQuotes) {
+    throw new Error('Invalid CSV format: unterminated quoted field');
+  }
+  row.push(field);
+  rows.push(row);
+  
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+/**
+ * Check that species names are unique, filling blanks with a default
+ */
+function normalizeNames(names: string[], prefix: string): string[] {
+  const result = names.map((name, i) => name.trim() || `${prefix}${i + 1}`);
+  const seen = new Set<string>();
+  for (const name of result) {
+    if (seen.has(name)) {
+      throw new Error(`Invalid CSV format: duplicate species name "${name}"`);
+    }
+    seen.add(name);
+  }
+  return result;
+}
+
+/**
+ * Parse a CSV matrix with optional species names
+ * Accepts comma, semicolon or tab delimiters, quoted fields and any line
+ * ending. A first row containing non-numeric cells is read as column names
+ * and a first column containing non-numeric cells as row names, as in
+ * Web of Life and bipartite-package exports.
+ */
+export function parseLabeledCSV(csvText: string): LabeledMatrix {
+  const text = csvText.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const rows = tokenize(text, detectDelimiter(text));
+  
+  if (rows.length === 0) {
+    throw new Error('Empty CSV file');
+  }
+  
+  // A header row has names after the (possibly blank) corner cell
+  const hasHeader = rows[0].slice(1).some(value => !isNumeric(value)) ||
+    (rows[0].length === 1 && !isNumeric(rows[0][0]));
+  const header = hasHeader ? rows[0] : null;
+  const body = hasHeader ? rows.slice(1) : rows;
+  
+  if (body.length === 0) {
     throw new Error('Empty CSV file');
   }
   
+  const hasRowNames = body.some(row => !isNumeric(row[0]));
+  const matrix: number[][] = [];
+  const rowNames: string[] = [];
+  
+  body.forEach((row, r) => {
+    const cells = hasRowNames ? row.slice(1) : row;
+    if (hasRowNames) rowNames.push(row[0]);
+    
+    const values = cells.map((value, c) => {
+      if (!isNumeric(value)) {
+        const line = r + (hasHeader ? 2 : 1);
+        const column = c + (hasRowNames ? 2 : 1);
+        throw new Error(
+          `Invalid CSV format: non-numeric value "${value.trim()}" at line ${line}, column ${column}`
+        );
+      }
+      return Number(value);
+    });
+    matrix.push(values);
+  });
+  
   // Check all rows have same length
   const cols = matrix[0].length;
-  if (!matrix.every(row => row.length === cols)) {
+  if (cols === 0 || !matrix.every(row => row.length === cols)) {
     throw new Error('Invalid CSV format: rows have different lengths');
   }
   
-  return matrix;
+  // The corner cell above the row names is optional
+  let colNames: string[] | null = null;
+  if (header) {
+    const names = hasRowNames && header.length === cols + 1 ? header.slice(1) : header;
+    if (names.length !== cols) {
+      throw new Error('Invalid CSV format: header length does not match the number of columns');
+    }
+    colNames = normalizeNames(names, 'A');
+  }
+  
+  return {
+    matrix,
+    rowNames: hasRowNames ? normalizeNames(rowNames, 'P') : null,
+    colNames
+  };
+}
+
+/**
+ * Parse CSV string to matrix, discarding any species names
+ */
+export function parseCSV(csvText: string): number[][] {
+  return parseLabeledCSV(csvText).matrix;
+}
+
+export interface LayerOnlySpecies {
+  plants: string[];
+  animals: string[];
+}
+
+export interface AlignedNetwork {
+  plants: string[];          // Union of plant names across layers
+  animals: string[];         // Union of animal names across layers
+  B: number[][] | null;      // B re-indexed to plants x animals
+  S: number[][] | null;      // S re-indexed to plants x animals
+  onlyInB: LayerOnlySpecies; // Species missing from S (empty unless both layers exist)
+  onlyInS: LayerOnlySpecies; // Species missing from B (empty unless both layers exist)
+}
+
+/**
+ * Names of one axis of a layer
+ * An unnamed axis borrows the other layer's names by position, so files
+ * without headers keep lining up by index.
+ */
+function axisNames(
+  size: number,
+  own: string[] | null | undefined,
+  other: string[] | null | undefined,
+  prefix: string
+): string[] {
+  return Array(size).fill(0).map((_, i) => own?.[i] ?? other?.[i] ?? `${prefix}${i + 1}`);
+}
+
+/**
+ * Union of two name lists, keeping first-seen order
+ */
+function unionNames(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+/**
+ * Re-index a layer onto the union of plant and animal names
+ */
+function alignMatrix(
+  matrix: number[][],
+  rowNames: string[],
+  colNames: string[],
+  plantIndex: Map<string, number>,
+  animalIndex: Map<string, number>
+): number[][] {
+  const aligned: number[][] = Array(plantIndex.size).fill(0).map(() =>
+    Array(animalIndex.size).fill(0)
+  );
+  matrix.forEach((row, i) => {
+    const p = plantIndex.get(rowNames[i])!;
+    row.forEach((val, j) => {
+      aligned[p][animalIndex.get(colNames[j])!] = val;
+    });
+  });
+  return aligned;
+}
+
+/**
+ * Align the B and S layers by species name
+ * Plants and animals are the union of both layers, B's order first. A species
+ * absent from one layer gets an all-zero row or column there.
+ */
+export function alignNetworkLayers(network: BipartiteNetwork): AlignedNetwork {
+  const { B, S, BNames, SNames } = network;
+  
+  const bPlants = B ? axisNames(B.length, BNames?.plants, SNames?.plants, 'P') : [];
+  const bAnimals = B ? axisNames(B[0].length, BNames?.animals, SNames?.animals, 'A') : [];
+  const sPlants = S ? axisNames(S.length, SNames?.plants, BNames?.plants, 'P') : [];
+  const sAnimals = S ? axisNames(S[0].length, SNames?.animals, BNames?.animals, 'A') : [];
+  
+  const plants = unionNames(bPlants, sPlants);
+  const animals = unionNames(bAnimals, sAnimals);
+  const plantIndex = new Map(plants.map((name, i) => [name, i]));
+  const animalIndex = new Map(animals.map((name, j) => [name, j]));
+  
+  const missing = (names: string[], other: string[]) =>
+    B && S ? names.filter(name => !other.includes(name)) : [];
+  
+  return {
+    plants,
+    animals,
+    B: B ? alignMatrix(B, bPlants, bAnimals, plantIndex, animalIndex) : null,
+    S: S ? alignMatrix(S, sPlants, sAnimals, plantIndex, animalIndex) : null,
+    onlyInB: { plants: missing(bPlants, sPlants), animals: missing(bAnimals, sAnimals) },
+    onlyInS: { plants: missing(sPlants, bPlants), animals: missing(sAnimals, bAnimals) }
+  };
+}
+
+/**
+ * Species names in model order (plants, then animals)
+ */
+export function getSpeciesNames(network: BipartiteNetwork): string[] {
+  const { plants, animals } = alignNetworkLayers(network);
+  return [...plants, ...animals];
+}
+
+function transpose(matrix: number[][], nCols: number): number[][] {
+  return Array(nCols).fill(0).map((_, j) => matrix.map(row => row[j]));
+}
+
+/**
+ * Cosine overlap of the partners of each pair of rows, from M·Mᵀ
+ * Rows without partners overlap with nobody.
+ */
+function nicheOverlap(matrix: number[][]): number[][] {
+  const shared = matrix.map(a => matrix.map(b =>
+    a.reduce((sum, val, k) => sum + val * b[k], 0)
+  ));
+  return shared.map((row, i) => row.map((val, j) => {
+    const norm = Math.sqrt(shared[i][i] * shared[j][j]);
+    return norm > 0 ? val / norm : 0;
+  }));
+}
+
+/**
+ * Reorder a square competition matrix to the given species order
+ * Named rows or columns are matched by name and must cover every species;
+ * an unnamed matrix must already be in species order.
+ */
+function alignCompetitionMatrix(
+  labeled: LabeledMatrix,
+  species: string[],
+  guild: string
+): number[][] {
+  const { matrix } = labeled;
+  const n = species.length;
+  const rowNames = labeled.rowNames ?? labeled.colNames;
+  const colNames = labeled.colNames ?? labeled.rowNames;
+  
+  if (!rowNames || !colNames) {
+    if (matrix.length !== n || matrix.some(row => row.length !== n)) {
+      throw new Error(
+        `${guild} competition matrix must be ${n} x ${n} to match the network, ` +
+        `or carry species names`
+      );
+    }
+    return matrix;
+  }
+  
+  const lookup = (names: string[], axis: string) => {
+    const index = new Map(names.map((name, k) => [name, k]));
+    for (const name of names) {
+      if (!species.includes(name)) {
+        throw new Error(`${guild} competition matrix ${axis} "${name}" is not in the network`);
+      }
+    }
+    return species.map(name => {
+      const k = index.get(name);
+      if (k === undefined) {
+        throw new Error(`${guild} competition matrix has no ${axis} for "${name}"`);
+      }
+      return k;
+    });
+  };
+  const rows = lookup(rowNames, 'row');
+  const cols = lookup(colNames, 'column');
+  return rows.map(r => cols.map(k => matrix[r][k]));
+}
+
+/**
+ * Write custom competition coefficients into the block starting at offset
+ * Coefficients are magnitudes: off-diagonal entries become -|a_ij|, and a
+ * nonzero diagonal entry replaces that species' self-regulation.
+ */
+function fillCustomCompetition(
+  Y: number[][],
+  selfRegulation: number[],
+  coefficients: number[][],
+  offset: number
+): void {
+  coefficients.forEach((row, i) => row.forEach((val, j) => {
+    if (i !== j) Y[offset + i][offset + j] = -Math.abs(val);
+    else if (val !== 0) selfRegulation[offset + i] = Math.abs(val);
+  }));
 }
 
 /**
  * Build interaction matrix Y from biadjacency matrices B and S
  * Adapted from Julia implementation
+ * Also returns the per-species self-regulation coefficients.
  */
 export function buildInteractionMatrix(
   network: BipartiteNetwork,
   params: NetworkParams
-): { Y_mut: number[][], Y_comp: number[][], nSpecies: number } {
+): { Y_mut: number[][], Y_comp: number[][], selfRegulation: number[], nSpecies: number } {
   const { B, S } = network;
-  const { m, d, c } = params;
+  const { m, d, c, competition } = params;
+  const cAnimal = params.cAnimal ?? c;
+  const selfPlant = params.selfPlant ?? 1;
+  const selfAnimal = params.selfAnimal ?? 1;
   
   if (!B && !S) {
     throw new Error('At least one biadjacency matrix (B or S) must be provided');
   }
   
-  // Determine dimensions
-  let Np = 0; // Number of plants
-  let Na = 0; // Number of animals
-  
-  if (B) {
-    Np = Math.max(Np, B.length);
-    Na = Math.max(Na, B[0].length);
-  }
-  if (S) {
-    Np = Math.max(Np, S.length);
-    Na = Math.max(Na, S[0].length);
-  }
-  
+  // Line up species across layers by name
+  const aligned = alignNetworkLayers(network);
+  const Np = aligned.plants.length; // Number of plants
+  const Na = aligned.animals.length; // Number of animals
   const Nt = Np + Na; // Total species
   
   // Initialize Y matrix
   const Y: number[][] = Array(Nt).fill(0).map(() => Array(Nt).fill(0));
   
-  // Pad matrices if needed
-  const B_padded = padMatrix(B, Np, Na);
-  const S_padded = padMatrix(S, Np, Na);
+  const B_aligned = aligned.B;
+  const S_aligned = aligned.S;
   
   // Identify active species (species with at least one interaction)
   const plant_in_B = Array(Np).fill(false);
@@ -85,10 +418,10 @@ export function buildInteractionMatrix(
   const plant_in_S = Array(Np).fill(false);
   const animal_in_S = Array(Na).fill(false);
   
-  if (B_padded) {
+  if (B_aligned) {
     for (let i = 0; i < Np; i++) {
       for (let j = 0; j < Na; j++) {
-        if (B_padded[i][j] > 0) {
+        if (B_aligned[i][j] > 0) {
           plant_in_B[i] = true;
           animal_in_B[j] = true;
         }
@@ -96,10 +429,10 @@ export function buildInteractionMatrix(
     }
   }
   
-  if (S_padded) {
+  if (S_aligned) {
     for (let i = 0; i < Np; i++) {
       for (let j = 0; j < Na; j++) {
-        if (S_padded[i][j] > 0) {
+        if (S_aligned[i][j] > 0) {
           plant_in_S[i] = true;
           animal_in_S[j] = true;
         }
@@ -119,29 +452,57 @@ export function buildInteractionMatrix(
   const comp_denom_p_s = Math.max(n_active_plants_S - 1, 1);
   const comp_denom_a_s = Math.max(n_active_animals_S - 1, 1);
   
+  const model = competition?.model ?? 'uniform';
+  const selfRegulation = [
+    ...Array(Np).fill(selfPlant),
+    ...Array(Na).fill(selfAnimal)
+  ];
+  
+  // Overlap weights between species of a guild; 1 for the uniform model
+  const plantOverlap_B = model === 'nicheOverlap' && B_aligned ? nicheOverlap(B_aligned) : null;
+  const plantOverlap_S = model === 'nicheOverlap' && S_aligned ? nicheOverlap(S_aligned) : null;
+  const animalOverlap_B = model === 'nicheOverlap' && B_aligned ? nicheOverlap(transpose(B_aligned, Na)) : null;
+  const animalOverlap_S = model === 'nicheOverlap' && S_aligned ? nicheOverlap(transpose(S_aligned, Na)) : null;
+  
+  // Custom coefficients replace the layer-based competition of their guild
+  const plantCustom = model === 'custom' && competition?.plantMatrix
+    ? alignCompetitionMatrix(competition.plantMatrix, aligned.plants, 'Plant')
+    : null;
+  const animalCustom = model === 'custom' && competition?.animalMatrix
+    ? alignCompetitionMatrix(competition.animalMatrix, aligned.animals, 'Animal')
+    : null;
+  
   // --- Competition (plants) ---
-  for (let j = 0; j < Np; j++) {
-    for (let i = 0; i < Np; i++) {
-      if (i !== j) {
-        if (plant_in_B[i] && plant_in_B[j]) {
-          Y[i][j] += c / comp_denom_p_b;
-        }
-        if (plant_in_S[i] && plant_in_S[j]) {
-          Y[i][j] += c / comp_denom_p_s;
+  if (plantCustom) {
+    fillCustomCompetition(Y, selfRegulation, plantCustom, 0);
+  } else {
+    for (let j = 0; j < Np; j++) {
+      for (let i = 0; i < Np; i++) {
+        if (i !== j) {
+          if (plant_in_B[i] && plant_in_B[j]) {
+            Y[i][j] += c * (plantOverlap_B ? plantOverlap_B[i][j] : 1) / comp_denom_p_b;
+          }
+          if (plant_in_S[i] && plant_in_S[j]) {
+            Y[i][j] += c * (plantOverlap_S ? plantOverlap_S[i][j] : 1) / comp_denom_p_s;
+          }
         }
       }
     }
   }
   
   // --- Competition (animals) ---
-  for (let j = 0; j < Na; j++) {
-    for (let i = 0; i < Na; i++) {
-      if (i !== j) {
-        if (animal_in_B[i] && animal_in_B[j]) {
-          Y[Np + i][Np + j] += c / comp_denom_a_b;
-        }
-        if (animal_in_S[i] && animal_in_S[j]) {
-          Y[Np + i][Np + j] += c / comp_denom_a_s;
+  if (animalCustom) {
+    fillCustomCompetition(Y, selfRegulation, animalCustom, Np);
+  } else {
+    for (let j = 0; j < Na; j++) {
+      for (let i = 0; i < Na; i++) {
+        if (i !== j) {
+          if (animal_in_B[i] && animal_in_B[j]) {
+            Y[Np + i][Np + j] += cAnimal * (animalOverlap_B ? animalOverlap_B[i][j] : 1) / comp_denom_a_b;
+          }
+          if (animal_in_S[i] && animal_in_S[j]) {
+            Y[Np + i][Np + j] += cAnimal * (animalOverlap_S ? animalOverlap_S[i][j] : 1) / comp_denom_a_s;
+          }
         }
       }
     }
@@ -150,28 +511,28 @@ export function buildInteractionMatrix(
   // --- Mutualism (normalized so each species' outgoing sum = m or d) ---
   
   // Pollination edges (B)
-  if (B_padded) {
+  if (B_aligned) {
     // Precompute row and column sums
-    const plant_B_row_sum = B_padded.map(row => row.reduce((sum, val) => sum + val, 0));
+    const plant_B_row_sum = B_aligned.map(row => row.reduce((sum, val) => sum + val, 0));
     const animal_B_col_sum = Array(Na).fill(0);
     for (let j = 0; j < Na; j++) {
       for (let i = 0; i < Np; i++) {
-        animal_B_col_sum[j] += B_padded[i][j];
+        animal_B_col_sum[j] += B_aligned[i][j];
       }
     }
     
     for (let i = 0; i < Np; i++) {
       for (let j = 0; j < Na; j++) {
-        if (B_padded[i][j] > 0) {
+        if (B_aligned[i][j] > 0) {
           // Plant -> animal
           const denom_p = plant_B_row_sum[i];
           if (denom_p > 0) {
-            Y[i][Np + j] += m * B_padded[i][j] / Math.sqrt(denom_p);
+            Y[i][Np + j] += m * B_aligned[i][j] / Math.sqrt(denom_p);
           }
           // Animal -> plant
           const denom_a = animal_B_col_sum[j];
           if (denom_a > 0) {
-            Y[Np + j][i] += m * B_padded[i][j] / Math.sqrt(denom_a);
+            Y[Np + j][i] += m * B_aligned[i][j] / Math.sqrt(denom_a);
           }
         }
       }
@@ -179,28 +540,28 @@ export function buildInteractionMatrix(
   }
   
   // Dispersal edges (S)
-  if (S_padded) {
+  if (S_aligned) {
     // Precompute row and column sums
-    const plant_S_row_sum = S_padded.map(row => row.reduce((sum, val) => sum + val, 0));
+    const plant_S_row_sum = S_aligned.map(row => row.reduce((sum, val) => sum + val, 0));
     const animal_S_col_sum = Array(Na).fill(0);
     for (let j = 0; j < Na; j++) {
       for (let i = 0; i < Np; i++) {
-        animal_S_col_sum[j] += S_padded[i][j];
+        animal_S_col_sum[j] += S_aligned[i][j];
       }
     }
     
     for (let i = 0; i < Np; i++) {
       for (let j = 0; j < Na; j++) {
-        if (S_padded[i][j] > 0) {
+        if (S_aligned[i][j] > 0) {
           // Plant -> animal
           const denom_p = plant_S_row_sum[i];
           if (denom_p > 0) {
-            Y[i][Np + j] += d * S_padded[i][j] / Math.sqrt(denom_p);
+            Y[i][Np + j] += d * S_aligned[i][j] / Math.sqrt(denom_p);
           }
           // Animal -> plant
           const denom_a = animal_S_col_sum[j];
           if (denom_a > 0) {
-            Y[Np + j][i] += d * S_padded[i][j] / Math.sqrt(denom_a);
+            Y[Np + j][i] += d * S_aligned[i][j] / Math.sqrt(denom_a);
           }
         }
       }
@@ -211,33 +572,49 @@ export function buildInteractionMatrix(
   const Y_mut = Y.map(row => row.map(val => Math.max(0, val)));
   const Y_comp = Y.map(row => row.map(val => Math.min(0, val)));
   
-  return { Y_mut, Y_comp, nSpecies: Nt };
+  return { Y_mut, Y_comp, selfRegulation, nSpecies: Nt };
 }
 
 /**
- * Pad matrix to target dimensions with zeros
+ * Per-link handling times in model order (plants, then animals)
+ * The plants × animals matrix is matched to the network by name, or by
+ * position when unnamed, and applies to both directions of each link.
+ * Links missing from the matrix keep the species' own half-saturation,
+ * h[i] for every partner of species i.
  */
-function padMatrix(
-  matrix: number[][] | null,
-  targetRows: number,
-  targetCols: number
-): number[][] | null {
-  if (!matrix) return null;
-  
-  const padded: number[][] = [];
-  for (let i = 0; i < targetRows; i++) {
-    const row: number[] = [];
-    for (let j = 0; j < targetCols; j++) {
-      if (i < matrix.length && j < matrix[0].length) {
-        row.push(matrix[i][j]);
-      } else {
-        row.push(0);
-      }
-    }
-    padded.push(row);
+export function buildHandlingMatrix(
+  network: BipartiteNetwork,
+  times: LabeledMatrix,
+  h: number[]
+): number[][] {
+  const { plants, animals } = alignNetworkLayers(network);
+  const Np = plants.length;
+  const Nt = Np + animals.length;
+  const { matrix } = times;
+  
+  if (!times.rowNames && matrix.length !== Np) {
+    throw new Error(`Handling time matrix has ${matrix.length} rows but the network has ${Np} plants`);
   }
+  if (!times.colNames && matrix.some(row => row.length !== animals.length)) {
+    throw new Error(`Handling time matrix must have ${animals.length} columns, one per animal`);
+  }
+  
+  const index = (names: string[] | null, species: string[], axis: string) =>
+    (names ?? species).map(name => {
+      const k = species.indexOf(name);
+      if (k < 0) throw new Error(`Handling time ${axis} "${name}" is not in the network`);
+      return k;
+    });
+  const rows = index(times.rowNames, plants, 'row');
+  const cols = index(times.colNames, animals, 'column');
   
-  return padded;
+  const H: number[][] = Array(Nt).fill(0).map((_, i) => Array(Nt).fill(h[i]));
+  matrix.forEach((row, i) => row.forEach((val, j) => {
+    if (val < 0) throw new Error('Handling times must be non-negative');
+    H[rows[i]][Np + cols[j]] = val;
+    H[Np + cols[j]][rows[i]] = val;
+  }));
+  return H;
 }
 
 /**
@@ -250,22 +627,19 @@ export function getNetworkStats(network: BipartiteNetwork): {
   nPollinationLinks: number;
   nDispersalLinks: number;
 } {
-  let nPlants = 0;
-  let nAnimals = 0;
+  const { plants, animals } = alignNetworkLayers(network);
+  const nPlants = plants.length;
+  const nAnimals = animals.length;
   let nPollinationLinks = 0;
   let nDispersalLinks = 0;
   
   if (network.B) {
-    nPlants = Math.max(nPlants, network.B.length);
-    nAnimals = Math.max(nAnimals, network.B[0].length);
     for (const row of network.B) {
       nPollinationLinks += row.filter(v => v > 0).length;
     }
   }
   
   if (network.S) {
-    nPlants = Math.max(nPlants, network.S.length);
-    nAnimals = Math.max(nAnimals, network.S[0].length);
     for (const row of network.S) {
       nDispersalLinks += row.filter(v => v > 0).length;
     }
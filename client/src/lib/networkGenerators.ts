@@ -0,0 +1,277 @@
+/**
+ * Synthetic plant-animal multilayer networks
+ */
+
+import { BipartiteNetwork } from './networkBuilder';
+import { RandomSource, createRandom } from './random';
+
+export type GeneratorType = 'random' | 'nested' | 'modular' | 'niche';
+
+export interface GeneratorConfig {
+  type: GeneratorType;
+  nPlants: number;
+  nPollinators: number;     // Animals in the pollination layer (B)
+  nDispersers: number;      // Animals in the seed dispersal layer (S)
+  overlap: number;          // Fraction of the smaller animal guild present in both layers (0-1)
+  connectance: number;      // Target fraction of realized links in each layer
+  nestedness: number;       // 'nested': 1 is perfectly nested, 0 is random placement
+  nModules: number;         // 'modular': number of modules
+  withinModule: number;     // 'modular': fraction of links inside modules
+  nicheWidth: number;       // 'niche': width of trait matching, in trait units
+  seed: number;
+}
+
+export const DEFAULT_GENERATOR_CONFIG: GeneratorConfig = {
+  type: 'nested',
+  nPlants: 10,
+  nPollinators: 10,
+  nDispersers: 6,
+  overlap: 0.2,
+  connectance: 0.3,
+  nestedness: 0.8,
+  nModules: 3,
+  withinModule: 0.9,
+  nicheWidth: 0.15,
+  seed: 1
+};
+
+/**
+ * Pick k cells by weighted sampling without replacement (Efraimidis & Spirakis 2006)
+ * Cells with zero weight are only picked once all weighted cells are taken.
+ */
+function weightedSample(
+  cells: Array<[number, number]>,
+  weight: (i: number, j: number) => number,
+  k: number,
+  random: RandomSource
+): Array<[number, number]> {
+  const keyed = cells.map(cell => {
+    const w = weight(cell[0], cell[1]);
+    const key = w > 0 ? Math.log(1 - random()) / w : -Infinity;
+    return { cell, key };
+  });
+  keyed.sort((a, b) => (a.key === b.key ? 0 : b.key > a.key ? 1 : -1));
+  return keyed.slice(0, k).map(entry => entry.cell);
+}
+
+/**
+ * Binary matrix with about the target connectance and no empty rows or columns
+ * Every row and column first gets a link to its best partner by weight,
+ * then the remaining links are drawn with probability proportional to weight.
+ */
+function sampleMatrix(
+  nRows: number,
+  nCols: number,
+  connectance: number,
+  weight: (i: number, j: number) => number,
+  random: RandomSource
+): number[][] {
+  const M = Array(nRows).fill(0).map(() => Array(nCols).fill(0));
+  const nLinks = Math.min(
+    nRows * nCols,
+    Math.max(nRows, nCols, Math.round(connectance * nRows * nCols))
+  );
+  
+  // Break ties between equally good partners at random
+  const best = (candidates: Array<[number, number]>) =>
+    weightedSample(candidates, (i, j) => 1 + weight(i, j) * 1e6, 1, random)[0];
+  for (let i = 0; i < nRows; i++) {
+    const [, j] = best(Array(nCols).fill(0).map((_, j) => [i, j] as [number, number]));
+    M[i][j] = 1;
+  }
+  for (let j = 0; j < nCols; j++) {
+    if (M.some(row => row[j] > 0)) continue;
+    const [i] = best(Array(nRows).fill(0).map((_, i) => [i, j] as [number, number]));
+    M[i][j] = 1;
+  }
+  
+  const placed = M.flat().reduce((sum, val) => sum + val, 0);
+  const empty: Array<[number, number]> = [];
+  M.forEach((row, i) => row.forEach((val, j) => {
+    if (val === 0) empty.push([i, j]);
+  }));
+  for (const [i, j] of weightedSample(empty, weight, Math.max(0, nLinks - placed), random)) {
+    M[i][j] = 1;
+  }
+  return M;
+}
+
+/**
+ * Nested matrix: links fill the corner of generalists first
+ * With nestedness below 1, that fraction of links is kept in place and the
+ * rest are moved to random empty cells. The first row and column stay full
+ * so no species is left without partners.
+ */
+function nestedMatrix(
+  nRows: number,
+  nCols: number,
+  connectance: number,
+  nestedness: number,
+  random: RandomSource
+): number[][] {
+  const rank = (i: number, j: number) => (i + 0.5) / nRows + (j + 0.5) / nCols;
+  
+  // The most generalist plant and animal interact with every partner
+  const perfect = Array(nRows).fill(0).map((_, i) => Array(nCols).fill(0).map((_, j) =>
+    i === 0 || j === 0 ? 1 : 0
+  ));
+  
+  // Fill the rest of the link budget in order of distance from that corner
+  const nLinks = Math.min(
+    nRows * nCols,
+    Math.max(Math.round(connectance * nRows * nCols), nRows + nCols - 1)
+  );
+  const interior: Array<[number, number]> = [];
+  for (let i = 1; i < nRows; i++) {
+    for (let j = 1; j < nCols; j++) interior.push([i, j]);
+  }
+  interior.sort((a, b) => rank(a[0], a[1]) - rank(b[0], b[1]));
+  interior.slice(0, Math.max(0, nLinks - (nRows + nCols - 1))).forEach(([i, j]) => {
+    perfect[i][j] = 1;
+  });
+  
+  // Move a fraction of the non-essential links to random empty cells
+  const movable: Array<[number, number]> = [];
+  const empty: Array<[number, number]> = [];
+  perfect.forEach((row, i) => row.forEach((val, j) => {
+    if (val > 0 && i > 0 && j > 0) movable.push([i, j]);
+    else if (val === 0) empty.push([i, j]);
+  }));
+  for (const [i, j] of movable) {
+    if (random() < nestedness || empty.length === 0) continue;
+    const k = Math.floor(random() * empty.length);
+    const [ei, ej] = empty[k];
+    perfect[i][j] = 0;
+    perfect[ei][ej] = 1;
+    empty[k] = [i, j];
+  }
+  return perfect;
+}
+
+/**
+ * Modular matrix: rows and columns are split into contiguous modules
+ * and a set fraction of links falls inside modules.
+ */
+function modularMatrix(
+  nRows: number,
+  nCols: number,
+  connectance: number,
+  nModules: number,
+  withinModule: number,
+  random: RandomSource
+): number[][] {
+  const k = Math.max(1, Math.min(nModules, nRows, nCols));
+  const rowModule = (i: number) => Math.floor((i * k) / nRows);
+  const colModule = (j: number) => Math.floor((j * k) / nCols);
+  const same = (i: number, j: number) => rowModule(i) === colModule(j);
+  
+  // Cells inside and outside modules, weighted so that the expected
+  // fraction of links inside modules is withinModule
+  let nInside = 0;
+  for (let i = 0; i < nRows; i++) {
+    for (let j = 0; j < nCols; j++) {
+      if (same(i, j)) nInside++;
+    }
+  }
+  const nOutside = nRows * nCols - nInside;
+  const q = Math.min(1, Math.max(0, withinModule));
+  const wInside = nInside > 0 ? q / nInside : 0;
+  const wOutside = nOutside > 0 ? (1 - q) / nOutside : 0;
+  
+  return sampleMatrix(nRows, nCols, connectance, (i, j) => (same(i, j) ? wInside : wOutside), random);
+}
+
+/**
+ * Trait-matching matrix: link probability falls off with the difference
+ * between plant and animal traits, drawn uniformly on [0, 1].
+ */
+function nicheMatrix(
+  nRows: number,
+  nCols: number,
+  connectance: number,
+  nicheWidth: number,
+  random: RandomSource
+): number[][] {
+  const plantTraits = Array(nRows).fill(0).map(() => random()).sort((a, b) => a - b);
+  const animalTraits = Array(nCols).fill(0).map(() => random()).sort((a, b) => a - b);
+  const width = Math.max(1e-3, nicheWidth);
+  
+  return sampleMatrix(nRows, nCols, connectance, (i, j) =>
+    Math.exp(-((plantTraits[i] - animalTraits[j]) ** 2) / (2 * width * width)), random
+  );
+}
+
+/**
+ * Generate one layer of the chosen structure
+ */
+export function generateLayer(
+  nRows: number,
+  nCols: number,
+  config: GeneratorConfig,
+  random: RandomSource
+): number[][] {
+  switch (config.type) {
+    case 'random':
+      return sampleMatrix(nRows, nCols, config.connectance, () => 1, random);
+    case 'nested':
+      return nestedMatrix(nRows, nCols, config.connectance, config.nestedness, random);
+    case 'modular':
+      return modularMatrix(nRows, nCols, config.connectance, config.nModules, config.withinModule, random);
+    case 'niche':
+      return nicheMatrix(nRows, nCols, config.connectance, config.nicheWidth, random);
+  }
+}
+
+/**
+ * Generate a pollination (B) and seed dispersal (S) network
+ * Animals are ordered pollinators only, shared, then dispersers only; both
+ * layers cover all animals and carry names so they align by species.
+ */
+export function generateNetwork(config: GeneratorConfig): BipartiteNetwork {
+  const random = createRandom(config.seed);
+  const nPlants = Math.max(1, Math.round(config.nPlants));
+  const nPollinators = Math.max(0, Math.round(config.nPollinators));
+  const nDispersers = Math.max(0, Math.round(config.nDispersers));
+  if (nPollinators + nDispersers === 0) {
+    throw new Error('At least one pollinator or disperser is required');
+  }
+  
+  const nShared = Math.round(
+    Math.min(1, Math.max(0, config.overlap)) * Math.min(nPollinators, nDispersers)
+  );
+  const nPollinatorOnly = nPollinators - nShared;
+  const nDisperserOnly = nDispersers - nShared;
+  const nAnimals = nPollinatorOnly + nShared + nDisperserOnly;
+  
+  const plants = Array(nPlants).fill(0).map((_, i) => `Plant ${i + 1}`);
+  const animals = [
+    ...Array(nPollinatorOnly).fill(0).map((_, j) => `Pollinator ${j + 1}`),
+    ...Array(nShared).fill(0).map((_, j) => `Pollinator-disperser ${j + 1}`),
+    ...Array(nDisperserOnly).fill(0).map((_, j) => `Disperser ${j + 1}`)
+  ];
+  const names = { plants, animals };
+  
+  // Embed a layer's columns at the given offset of the shared animal axis
+  const embed = (layer: number[][], offset: number) =>
+    layer.map(row => {
+      const full = Array(nAnimals).fill(0);
+      row.forEach((val, j) => {
+        full[offset + j] = val;
+      });
+      return full;
+    });
+  
+  const B = nPollinators > 0
+    ? embed(generateLayer(nPlants, nPollinators, config, random), 0)
+    : null;
+  const S = nDispersers > 0
+    ? embed(generateLayer(nPlants, nDispersers, config, random), nPollinatorOnly)
+    : null;
+  
+  return {
+    B,
+    S,
+    BNames: B ? names : null,
+    SNames: S ? names : null
+  };
+}
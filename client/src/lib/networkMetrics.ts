@@ -0,0 +1,458 @@
+/**
+ * Structural metrics of bipartite plant-animal networks
+ */
+
+import { BipartiteNetwork, alignNetworkLayers } from './networkBuilder';
+import { logGamma } from './specialFunctions';
+
+export interface ModularityResult {
+  Q: number;                 // Barber's bipartite modularity
+  nModules: number;
+  plantModules: number[];    // Module of each plant
+  animalModules: number[];   // Module of each animal
+}
+
+export interface LayerMetrics {
+  plants: string[];          // Species with at least one link in this layer
+  animals: string[];
+  nLinks: number;
+  connectance: number;
+  nodf: number;              // NODF of the whole matrix (0-100)
+  nodfRows: number;          // NODF among plants
+  nodfCols: number;          // NODF among animals
+  temperature: number;       // Matrix temperature (0-100, lower is more nested)
+  modularity: ModularityResult;
+  plantDegrees: number[];
+  animalDegrees: number[];
+  H2: number;                // Network-level specialization H2' (0-1)
+  plantD: number[];          // Species-level specialization d' (0-1)
+  animalD: number[];
+}
+
+export type StructureMetric = 'connectance' | 'nodf' | 'temperature' | 'modularity' | 'H2';
+
+export interface NetworkMetrics {
+  B: LayerMetrics | null;
+  S: LayerMetrics | null;
+  combined: LayerMetrics;    // Aggregated network, B + S
+}
+
+/**
+ * Drop plants and animals without any link
+ */
+function trimEmpty(
+  matrix: number[][],
+  plants: string[],
+  animals: string[]
+): { matrix: number[][]; plants: string[]; animals: string[] } {
+  const rows = plants.map((_, i) => i).filter(i => matrix[i].some(val => val > 0));
+  const cols = animals.map((_, j) => j).filter(j => matrix.some(row => row[j] > 0));
+  
+  return {
+    matrix: rows.map(i => cols.map(j => matrix[i][j])),
+    plants: rows.map(i => plants[i]),
+    animals: cols.map(j => animals[j])
+  };
+}
+
+function transpose(matrix: number[][]): number[][] {
+  if (matrix.length === 0) return [];
+  return matrix[0].map((_, j) => matrix.map(row => row[j]));
+}
+
+function binarize(matrix: number[][]): number[][] {
+  return matrix.map(row => row.map(val => (val > 0 ? 1 : 0)));
+}
+
+/**
+ * Paired nestedness of the rows of a binary matrix (Almeida-Neto et al. 2008)
+ * Returns the sum over pairs and the number of pairs.
+ */
+function nodfPairs(matrix: number[][]): { sum: number; pairs: number } {
+  const degrees = matrix.map(row => row.reduce((sum, val) => sum + val, 0));
+  let sum = 0;
+  let pairs = 0;
+  
+  for (let i = 0; i < matrix.length; i++) {
+    for (let j = i + 1; j < matrix.length; j++) {
+      pairs++;
+      const [hi, lo] = degrees[i] >= degrees[j] ? [i, j] : [j, i];
+      if (degrees[hi] === degrees[lo] || degrees[lo] === 0) continue;
+      
+      let overlap = 0;
+      for (let k = 0; k < matrix[lo].length; k++) {
+        if (matrix[lo][k] > 0 && matrix[hi][k] > 0) overlap++;
+      }
+      sum += (100 * overlap) / degrees[lo];
+    }
+  }
+  
+  return { sum, pairs };
+}
+
+/**
+ * NODF of a binary matrix, overall and for rows and columns separately
+ */
+export function computeNODF(matrix: number[][]): { nodf: number; rows: number; cols: number } {
+  const binary = binarize(matrix);
+  const rows = nodfPairs(binary);
+  const cols = nodfPairs(transpose(binary));
+  const total = rows.pairs + cols.pairs;
+  
+  return {
+    nodf: total > 0 ? (rows.sum + cols.sum) / total : 0,
+    rows: rows.pairs > 0 ? rows.sum / rows.pairs : 0,
+    cols: cols.pairs > 0 ? cols.sum / cols.pairs : 0
+  };
+}
+
+// Unexpectedness of a maximally disordered matrix (Atmar & Patterson 1993)
+const MAX_UNEXPECTEDNESS = 0.04145;
+
+/**
+ * Matrix temperature of a binary matrix (Atmar & Patterson 1993)
+ * Rows and columns are packed by decreasing degree, and the isocline of
+ * perfect nestedness is the curve (1 - x)^p + (1 - y)^p = 1 whose enclosed
+ * area equals the fill of the matrix (Rodríguez-Gironés & Santamaría 2006).
+ */
+export function computeTemperature(matrix: number[][]): number {
+  const binary = binarize(matrix);
+  const nRows = binary.length;
+  const nCols = nRows > 0 ? binary[0].length : 0;
+  if (nRows < 2 || nCols < 2) return 0;
+  
+  // Pack the matrix: most connected rows at the top, columns at the left
+  const rowDegree = binary.map(row => row.reduce((sum, val) => sum + val, 0));
+  const colDegree = binary[0].map((_, j) => binary.reduce((sum, row) => sum + row[j], 0));
+  const rowOrder = rowDegree.map((_, i) => i).sort((a, b) => rowDegree[b] - rowDegree[a]);
+  const colOrder = colDegree.map((_, j) => j).sort((a, b) => colDegree[b] - colDegree[a]);
+  
+  const fill = rowDegree.reduce((sum, val) => sum + val, 0) / (nRows * nCols);
+  if (fill === 0 || fill === 1) return 0;
+  
+  // Area enclosed by the isocline is 1 - Γ(1 + 1/p)² / Γ(1 + 2/p), decreasing in p
+  const area = (p: number) =>
+    1 - Math.exp(2 * logGamma(1 + 1 / p) - logGamma(1 + 2 / p));
+  let lo = Math.log(1e-3);
+  let hi = Math.log(1e3);
+  for (let k = 0; k < 60; k++) {
+    const mid = (lo + hi) / 2;
+    if (area(Math.exp(mid)) > fill) lo = mid;
+    else hi = mid;
+  }
+  const p = Math.exp((lo + hi) / 2);
+  const inside = (x: number, y: number) => (1 - x) ** p + (1 - y) ** p - 1;
+  
+  let unexpectedness = 0;
+  rowOrder.forEach((i, r) => {
+    colOrder.forEach((j, c) => {
+      const x = (c + 0.5) / nCols;
+      const y = (r + 0.5) / nRows;
+      const present = binary[i][j] > 0;
+      const h0 = inside(x, y);
+      if (present === (h0 >= 0)) return;
+      
+      // Distance to the isocline along the diagonal through the cell
+      let a = present ? -Math.min(x, y) : 0;
+      let b = present ? 0 : 1 - Math.max(x, y);
+      for (let k = 0; k < 40; k++) {
+        const t = (a + b) / 2;
+        if (inside(x + t, y + t) >= 0) a = t;
+        else b = t;
+      }
+      const ratio = ((a + b) / 2) / (1 - Math.abs(x - y));
+      unexpectedness += ratio * ratio;
+    });
+  });
+  
+  return (100 * unexpectedness) / (nRows * nCols) / MAX_UNEXPECTEDNESS;
+}
+
+/**
+ * Barber's bipartite modularity of a module assignment
+ */
+function barberModularity(
+  matrix: number[][],
+  plantModules: number[],
+  animalModules: number[]
+): number {
+  const rowSum = matrix.map(row => row.reduce((sum, val) => sum + val, 0));
+  const colSum = matrix.length > 0
+    ? matrix[0].map((_, j) => matrix.reduce((sum, row) => sum + row[j], 0))
+    : [];
+  const total = rowSum.reduce((sum, val) => sum + val, 0);
+  if (total === 0) return 0;
+  
+  let Q = 0;
+  matrix.forEach((row, i) => {
+    row.forEach((val, j) => {
+      if (plantModules[i] === animalModules[j]) {
+        Q += val - (rowSum[i] * colSum[j]) / total;
+      }
+    });
+  });
+  return Q / total;
+}
+
+/**
+ * Move each node to the label of the other side that most increases modularity
+ * Returns true if any label changed.
+ */
+function propagateLabels(
+  matrix: number[][],
+  degree: number[],
+  otherDegree: number[],
+  labels: number[],
+  otherLabels: number[],
+  total: number
+): boolean {
+  // Total degree of the other side carrying each label
+  const labelDegree = new Map<number, number>();
+  otherLabels.forEach((label, j) => {
+    labelDegree.set(label, (labelDegree.get(label) ?? 0) + otherDegree[j]);
+  });
+  
+  let changed = false;
+  matrix.forEach((row, i) => {
+    const gain = new Map<number, number>();
+    for (const [label, sum] of Array.from(labelDegree)) {
+      gain.set(label, -(degree[i] * sum) / total);
+    }
+    row.forEach((val, j) => {
+      gain.set(otherLabels[j], gain.get(otherLabels[j])! + val);
+    });
+    
+    let best = labels[i];
+    let bestGain = gain.get(labels[i]) ?? -Infinity;
+    for (const [label, value] of Array.from(gain)) {
+      if (value > bestGain + 1e-12) {
+        best = label;
+        bestGain = value;
+      }
+    }
+    if (best !== labels[i]) {
+      labels[i] = best;
+      changed = true;
+    }
+  });
+  return changed;
+}
+
+/**
+ * Alternate label propagation between plants and animals until stable (LPAwb)
+ */
+function labelPropagation(
+  matrix: number[][],
+  plantModules: number[],
+  animalModules: number[]
+): void {
+  const columns = transpose(matrix);
+  const rowSum = matrix.map(row => row.reduce((sum, val) => sum + val, 0));
+  const colSum = columns.map(col => col.reduce((sum, val) => sum + val, 0));
+  const total = rowSum.reduce((sum, val) => sum + val, 0);
+  
+  for (let iter = 0; iter < 100; iter++) {
+    const animalsChanged = propagateLabels(columns, colSum, rowSum, animalModules, plantModules, total);
+    const plantsChanged = propagateLabels(matrix, rowSum, colSum, plantModules, animalModules, total);
+    if (!animalsChanged && !plantsChanged) break;
+  }
+}
+
+/**
+ * Weighted bipartite modularity by label propagation with module merging
+ * (LPAwb+, Beckett 2016)
+ */
+export function computeModularity(matrix: number[][]): ModularityResult {
+  const nRows = matrix.length;
+  const nCols = nRows > 0 ? matrix[0].length : 0;
+  
+  // Every plant starts in its own module; animals take labels from plants
+  let plantModules = matrix.map((_, i) => i);
+  let animalModules = Array(nCols).fill(0).map((_, j) => nRows + j);
+  labelPropagation(matrix, plantModules, animalModules);
+  let Q = barberModularity(matrix, plantModules, animalModules);
+  
+  // Merge pairs of modules while that improves Q
+  let improved = true;
+  while (improved) {
+    improved = false;
+    const labels = Array.from(new Set([...plantModules, ...animalModules]));
+    for (let a = 0; a < labels.length && !improved; a++) {
+      for (let b = a + 1; b < labels.length && !improved; b++) {
+        const merge = (label: number) => (label === labels[b] ? labels[a] : label);
+        const mergedPlants = plantModules.map(merge);
+        const mergedAnimals = animalModules.map(merge);
+        labelPropagation(matrix, mergedPlants, mergedAnimals);
+        const mergedQ = barberModularity(matrix, mergedPlants, mergedAnimals);
+        if (mergedQ > Q + 1e-10) {
+          plantModules = mergedPlants;
+          animalModules = mergedAnimals;
+          Q = mergedQ;
+          improved = true;
+        }
+      }
+    }
+  }
+  
+  // Renumber modules 0..k-1 in order of first appearance
+  const renumber = new Map<number, number>();
+  for (const label of [...plantModules, ...animalModules]) {
+    if (!renumber.has(label)) renumber.set(label, renumber.size);
+  }
+  
+  return {
+    Q,
+    nModules: renumber.size,
+    plantModules: plantModules.map(label => renumber.get(label)!),
+    animalModules: animalModules.map(label => renumber.get(label)!)
+  };
+}
+
+function entropy(values: number[], total: number): number {
+  return values.reduce((sum, val) => (val > 0 ? sum - (val / total) * Math.log(val / total) : sum), 0);
+}
+
+/**
+ * Network-level specialization H2' (Blüthgen et al. 2006)
+ * H2max uses the continuous maximum-entropy matrix for the observed totals;
+ * H2min greedily concentrates interactions in as few cells as possible.
+ */
+export function computeH2(matrix: number[][]): number {
+  const rowSum = matrix.map(row => row.reduce((sum, val) => sum + val, 0));
+  const colSum = matrix.length > 0
+    ? matrix[0].map((_, j) => matrix.reduce((sum, row) => sum + row[j], 0))
+    : [];
+  const total = rowSum.reduce((sum, val) => sum + val, 0);
+  if (total === 0) return 0;
+  
+  const H2 = entropy(matrix.flat(), total);
+  const H2max = entropy(rowSum, total) + entropy(colSum, total);
+  
+  // Fill the largest remaining row and column totals against each other
+  const rows = [...rowSum];
+  const cols = [...colSum];
+  const cells: number[] = [];
+  for (let k = 0; k < rows.length + cols.length; k++) {
+    const i = rows.indexOf(Math.max(...rows));
+    const j = cols.indexOf(Math.max(...cols));
+    const amount = Math.min(rows[i], cols[j]);
+    if (amount <= 0) break;
+    cells.push(amount);
+    rows[i] -= amount;
+    cols[j] -= amount;
+  }
+  const H2min = entropy(cells, total);
+  
+  if (H2max - H2min <= 1e-12) return 0;
+  return Math.min(1, Math.max(0, (H2max - H2) / (H2max - H2min)));
+}
+
+/**
+ * Species-level specialization d' of each row (Blüthgen et al. 2006)
+ * The maximum assigns a species' interactions to its least available
+ * partners first, each up to that partner's total.
+ */
+export function computeSpeciesSpecialization(matrix: number[][]): number[] {
+  const rowSum = matrix.map(row => row.reduce((sum, val) => sum + val, 0));
+  const colSum = matrix.length > 0
+    ? matrix[0].map((_, j) => matrix.reduce((sum, row) => sum + row[j], 0))
+    : [];
+  const total = rowSum.reduce((sum, val) => sum + val, 0);
+  const q = colSum.map(val => val / total);
+  const kl = (row: number[], rowTotal: number) =>
+    row.reduce((sum, val, j) => (val > 0 ? sum + (val / rowTotal) * Math.log(val / rowTotal / q[j]) : sum), 0);
+  const byAvailability = q.map((_, j) => j).filter(j => q[j] > 0).sort((a, b) => q[a] - q[b]);
+  
+  return matrix.map((row, i) => {
+    if (rowSum[i] === 0) return 0;
+    
+    const extreme = Array(row.length).fill(0);
+    let remaining = rowSum[i];
+    for (const j of byAvailability) {
+      extreme[j] = Math.min(remaining, colSum[j]);
+      remaining -= extreme[j];
+      if (remaining <= 0) break;
+    }
+    
+    const dMax = kl(extreme, rowSum[i]);
+    return dMax > 1e-12 ? Math.min(1, Math.max(0, kl(row, rowSum[i]) / dMax)) : 0;
+  });
+}
+
+/**
+ * All metrics of a single plants x animals matrix
+ * Species without links are dropped first, as is usual for these indices.
+ */
+export function computeLayerMetrics(
+  matrix: number[][],
+  plants: string[],
+  animals: string[]
+): LayerMetrics {
+  const trimmed = trimEmpty(matrix, plants, animals);
+  const M = trimmed.matrix;
+  const binary = binarize(M);
+  const nRows = M.length;
+  const nCols = nRows > 0 ? M[0].length : 0;
+  const nLinks = binary.flat().reduce((sum, val) => sum + val, 0);
+  const nodf = computeNODF(M);
+  
+  return {
+    plants: trimmed.plants,
+    animals: trimmed.animals,
+    nLinks,
+    connectance: nRows * nCols > 0 ? nLinks / (nRows * nCols) : 0,
+    nodf: nodf.nodf,
+    nodfRows: nodf.rows,
+    nodfCols: nodf.cols,
+    temperature: computeTemperature(M),
+    modularity: computeModularity(M),
+    plantDegrees: binary.map(row => row.reduce((sum, val) => sum + val, 0)),
+    animalDegrees: transpose(binary).map(col => col.reduce((sum, val) => sum + val, 0)),
+    H2: computeH2(M),
+    plantD: computeSpeciesSpecialization(M),
+    animalD: computeSpeciesSpecialization(transpose(M))
+  };
+}
+
+/**
+ * A single network-level metric, computed after dropping species without links
+ */
+export function computeMetric(matrix: number[][], metric: StructureMetric): number {
+  const M = trimEmpty(
+    matrix,
+    matrix.map((_, i) => String(i)),
+    matrix.length > 0 ? matrix[0].map((_, j) => String(j)) : []
+  ).matrix;
+  
+  switch (metric) {
+    case 'connectance': {
+      const cells = M.length > 0 ? M.length * M[0].length : 0;
+      return cells > 0 ? binarize(M).flat().reduce((sum, val) => sum + val, 0) / cells : 0;
+    }
+    case 'nodf':
+      return computeNODF(M).nodf;
+    case 'temperature':
+      return computeTemperature(M);
+    case 'modularity':
+      return computeModularity(M).Q;
+    case 'H2':
+      return computeH2(M);
+  }
+}
+
+/**
+ * Metrics of each layer and of the aggregated network
+ * Layers are aligned by species name before being combined.
+ */
+export function computeNetworkMetrics(network: BipartiteNetwork): NetworkMetrics {
+  const { plants, animals, B, S } = alignNetworkLayers(network);
+  const combined = plants.map((_, i) =>
+    animals.map((_, j) => (B ? B[i][j] : 0) + (S ? S[i][j] : 0))
+  );
+  
+  return {
+    B: B ? computeLayerMetrics(B, plants, animals) : null,
+    S: S ? computeLayerMetrics(S, plants, animals) : null,
+    combined: computeLayerMetrics(combined, plants, animals)
+  };
+}
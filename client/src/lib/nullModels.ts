@@ -0,0 +1,351 @@
+/**
+ * Null models of bipartite networks for significance testing
+ */
+
+import { BipartiteNetwork, alignNetworkLayers } from './networkBuilder';
+import { StructureMetric, computeMetric } from './networkMetrics';
+import { SetupParams } from './simulationSetup';
+import { evaluateSweepCell } from './parameterSweep';
+import { RandomSource, createRandom } from './random';
+import { replicateSeeds } from './ensembleRunner';
+
+export type NullModel = 'erdosRenyi' | 'swap' | 'curveball' | 'patefield';
+
+export type NetworkLayer = 'B' | 'S' | 'combined';
+
+export interface NullModelConfig {
+  model: NullModel;
+  layer: NetworkLayer;           // Layer whose metrics are tested
+  metrics: StructureMetric[];
+  nNull: number;                 // Number of randomized networks
+  seed: number;
+  dynamics?: {                   // Also simulate hurricanes on each network
+    duration: number;
+    replicates: number;
+  };
+}
+
+export interface MetricTest {
+  metric: StructureMetric | 'persistence';
+  observed: number;
+  nullMean: number;
+  nullSd: number;
+  z: number;                     // NaN when the null distribution has no spread
+  pGreater: number;              // P(null >= observed)
+  pLess: number;                 // P(null <= observed)
+  nullValues: number[];
+}
+
+export interface DynamicsOutcome {
+  persistence: number;
+  totalBiomass: number;
+  extinctionProbability: number;
+}
+
+export interface NullModelResult {
+  config: NullModelConfig;
+  tests: MetricTest[];
+  dynamics: {
+    observed: DynamicsOutcome;
+    null: DynamicsOutcome[];
+    persistence: MetricTest;     // Persistence of the observed network against the nulls
+  } | null;
+}
+
+export const NULL_MODEL_LABELS: Record<NullModel, string> = {
+  erdosRenyi: 'Erdős–Rényi (fixed links)',
+  swap: 'Degree-preserving swap',
+  curveball: 'Curveball',
+  patefield: 'Patefield (fixed totals)'
+};
+
+function randomInt(n: number, random: RandomSource): number {
+  return Math.floor(random() * n);
+}
+
+function shuffle<T>(values: T[], random: RandomSource): T[] {
+  for (let k = values.length - 1; k > 0; k--) {
+    const m = randomInt(k + 1, random);
+    [values[k], values[m]] = [values[m], values[k]];
+  }
+  return values;
+}
+
+/**
+ * Place the observed link weights in uniformly random cells
+ * Keeps the number of links and the weight distribution, nothing else.
+ */
+export function erdosRenyi(matrix: number[][], random: RandomSource): number[][] {
+  const nRows = matrix.length;
+  const nCols = nRows > 0 ? matrix[0].length : 0;
+  const cells = shuffle(matrix.flat(), random);
+  return Array(nRows).fill(0).map((_, i) => cells.slice(i * nCols, (i + 1) * nCols));
+}
+
+/**
+ * Binary matrix with the same degrees, by repeated checkerboard swaps
+ * @param nSwaps - Successful swaps to perform, default 5 per link
+ */
+export function swapRandomize(
+  matrix: number[][],
+  random: RandomSource,
+  nSwaps?: number
+): number[][] {
+  const result = matrix.map(row => row.map(val => (val > 0 ? 1 : 0)));
+  const links: Array<[number, number]> = [];
+  result.forEach((row, i) => row.forEach((val, j) => {
+    if (val > 0) links.push([i, j]);
+  }));
+  if (links.length < 2) return result;
+  
+  const target = nSwaps ?? 5 * links.length;
+  let done = 0;
+  for (let attempt = 0; attempt < 100 * target && done < target; attempt++) {
+    const a = randomInt(links.length, random);
+    const b = randomInt(links.length, random);
+    const [i, j] = links[a];
+    const [k, l] = links[b];
+    
+    // Swap 1 0 / 0 1 into 0 1 / 1 0
+    if (i === k || j === l || result[i][l] > 0 || result[k][j] > 0) continue;
+    result[i][j] = 0;
+    result[k][l] = 0;
+    result[i][l] = 1;
+    result[k][j] = 1;
+    links[a] = [i, l];
+    links[b] = [k, j];
+    done++;
+  }
+  return result;
+}
+
+/**
+ * Binary matrix with the same degrees by the curveball algorithm (Strona et al. 2014)
+ * Each trade reshuffles the non-shared partners of two random rows.
+ * @param nTrades - Number of trades, default 5 n ln(n) for n rows
+ */
+export function curveball(
+  matrix: number[][],
+  random: RandomSource,
+  nTrades?: number
+): number[][] {
+  const nRows = matrix.length;
+  const nCols = nRows > 0 ? matrix[0].length : 0;
+  const partners = matrix.map(row =>
+    new Set(row.map((val, j) => (val > 0 ? j : -1)).filter(j => j >= 0))
+  );
+  
+  if (nRows >= 2) {
+    const trades = nTrades ?? 5 * nRows * Math.max(1, Math.ceil(Math.log(nRows)));
+    for (let t = 0; t < trades; t++) {
+      const a = randomInt(nRows, random);
+      let b = randomInt(nRows - 1, random);
+      if (b >= a) b++;
+      
+      const onlyA = Array.from(partners[a]).filter(j => !partners[b].has(j));
+      const onlyB = Array.from(partners[b]).filter(j => !partners[a].has(j));
+      if (onlyA.length === 0 || onlyB.length === 0) continue;
+      
+      const pool = shuffle([...onlyA, ...onlyB], random);
+      for (const j of onlyA) partners[a].delete(j);
+      for (const j of onlyB) partners[b].delete(j);
+      pool.slice(0, onlyA.length).forEach(j => partners[a].add(j));
+      pool.slice(onlyA.length).forEach(j => partners[b].add(j));
+    }
+  }
+  
+  return partners.map(set => Array(nCols).fill(0).map((_, j) => (set.has(j) ? 1 : 0)));
+}
+
+/**
+ * Number of successes when drawing n items without replacement
+ * from a population of size total containing successes
+ */
+function hypergeometric(
+  n: number,
+  successes: number,
+  total: number,
+  random: RandomSource
+): number {
+  let drawn = 0;
+  let remainingSuccesses = successes;
+  let remaining = total;
+  for (let k = 0; k < n; k++) {
+    if (random() * remaining < remainingSuccesses) {
+      drawn++;
+      remainingSuccesses--;
+    }
+    remaining--;
+  }
+  return drawn;
+}
+
+/**
+ * Random integer matrix with the observed row and column totals (Patefield 1981)
+ * Weights are rounded to integers, as for interaction counts. Cells are
+ * filled by sequential hypergeometric draws, which samples the same
+ * distribution as Patefield's algorithm.
+ */
+export function patefield(matrix: number[][], random: RandomSource): number[][] {
+  const counts = matrix.map(row => row.map(val => Math.max(0, Math.round(val))));
+  const nCols = counts.length > 0 ? counts[0].length : 0;
+  const colRemaining = Array(nCols).fill(0).map((_, j) =>
+    counts.reduce((sum, row) => sum + row[j], 0)
+  );
+  
+  return counts.map(row => {
+    let rowRemaining = row.reduce((sum, val) => sum + val, 0);
+    let poolRemaining = colRemaining.reduce((sum, val) => sum + val, 0);
+    return colRemaining.map((colTotal, j) => {
+      const value = j === nCols - 1
+        ? rowRemaining
+        : hypergeometric(rowRemaining, colTotal, poolRemaining, random);
+      rowRemaining -= value;
+      poolRemaining -= colTotal;
+      colRemaining[j] -= value;
+      return value;
+    });
+  });
+}
+
+/**
+ * Randomize one matrix with the chosen null model
+ */
+export function randomizeMatrix(
+  matrix: number[][],
+  model: NullModel,
+  random: RandomSource
+): number[][] {
+  switch (model) {
+    case 'erdosRenyi':
+      return erdosRenyi(matrix, random);
+    case 'swap':
+      return swapRandomize(matrix, random);
+    case 'curveball':
+      return curveball(matrix, random);
+    case 'patefield':
+      return patefield(matrix, random);
+  }
+}
+
+/**
+ * Randomize each layer independently, keeping species names
+ * The result has aligned layers, so it can be passed to buildInteractionMatrix.
+ */
+export function randomizeNetwork(
+  network: BipartiteNetwork,
+  model: NullModel,
+  random: RandomSource
+): BipartiteNetwork {
+  const { plants, animals, B, S } = alignNetworkLayers(network);
+  const names = { plants, animals };
+  
+  return {
+    B: B ? randomizeMatrix(B, model, random) : null,
+    S: S ? randomizeMatrix(S, model, random) : null,
+    BNames: B ? names : null,
+    SNames: S ? names : null
+  };
+}
+
+/**
+ * The matrix of one layer, or the sum of both layers
+ */
+export function layerMatrix(network: BipartiteNetwork, layer: NetworkLayer): number[][] | null {
+  const { plants, animals, B, S } = alignNetworkLayers(network);
+  if (layer === 'B') return B;
+  if (layer === 'S') return S;
+  if (!B && !S) return null;
+  return plants.map((_, i) =>
+    animals.map((_, j) => (B ? B[i][j] : 0) + (S ? S[i][j] : 0))
+  );
+}
+
+/**
+ * Compare an observed value with its null distribution
+ * p-values are empirical and include the observed value, (count + 1) / (n + 1).
+ */
+export function testAgainstNull(
+  metric: MetricTest['metric'],
+  observed: number,
+  nullValues: number[]
+): MetricTest {
+  const n = nullValues.length;
+  const nullMean = n > 0 ? nullValues.reduce((sum, val) => sum + val, 0) / n : NaN;
+  const nullSd = n > 1
+    ? Math.sqrt(nullValues.reduce((sum, val) => sum + (val - nullMean) ** 2, 0) / (n - 1))
+    : NaN;
+  
+  return {
+    metric,
+    observed,
+    nullMean,
+    nullSd,
+    z: nullSd > 1e-12 * Math.max(1, Math.abs(nullMean)) ? (observed - nullMean) / nullSd : NaN,
+    pGreater: (nullValues.filter(val => val >= observed).length + 1) / (n + 1),
+    pLess: (nullValues.filter(val => val <= observed).length + 1) / (n + 1),
+    nullValues
+  };
+}
+
+/**
+ * Test network metrics against randomized networks
+ * Optionally runs the hurricane model on each null network with the same
+ * parameter draws and hazard seeds as the observed one.
+ * Yields to the event loop between null networks so the simulation worker
+ * running it can take cancel requests.
+ * @param params - Model parameters, required for the dynamics comparison
+ * @param onProgress - Called with the number of finished null networks
+ * @param shouldCancel - Checked between null networks to abort the run
+ */
+export async function runNullModelTest(
+  network: BipartiteNetwork,
+  config: NullModelConfig,
+  params?: SetupParams,
+  onProgress?: (completed: number, total: number) => void,
+  shouldCancel?: () => boolean
+): Promise<NullModelResult | null> {
+  const observedMatrix = layerMatrix(network, config.layer);
+  if (!observedMatrix) {
+    throw new Error(`Layer ${config.layer} is not present in the network`);
+  }
+  
+  const random = createRandom(config.seed);
+  const dynamics = config.dynamics && params ? config.dynamics : null;
+  const seeds = dynamics ? replicateSeeds(config.seed, dynamics.replicates) : [];
+  const simulate = (net: BipartiteNetwork): DynamicsOutcome =>
+    evaluateSweepCell(params!, net, dynamics!.duration, seeds, config.seed);
+  
+  const nullValues: number[][] = config.metrics.map(() => []);
+  const nullDynamics: DynamicsOutcome[] = [];
+  for (let k = 0; k < config.nNull; k++) {
+    if (shouldCancel?.()) return null;
+    
+    const randomized = randomizeNetwork(network, config.model, random);
+    const matrix = layerMatrix(randomized, config.layer)!;
+    config.metrics.forEach((metric, m) => {
+      nullValues[m].push(computeMetric(matrix, metric));
+    });
+    if (dynamics) nullDynamics.push(simulate(randomized));
+    
+    onProgress?.(k + 1, config.nNull);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  
+  const tests = config.metrics.map((metric, m) =>
+    testAgainstNull(metric, computeMetric(observedMatrix, metric), nullValues[m])
+  );
+  
+  let dynamicsResult: NullModelResult['dynamics'] = null;
+  if (dynamics) {
+    const observed = simulate(network);
+    const persistence = testAgainstNull(
+      'persistence',
+      observed.persistence,
+      nullDynamics.map(outcome => outcome.persistence)
+    );
+    dynamicsResult = { observed, null: nullDynamics, persistence };
+  }
+  
+  return { config, tests, dynamics: dynamicsResult };
+}
@@ -0,0 +1,161 @@
+/**
+ * Two-parameter sweeps of the stochastic model over a regular grid
+ */
+
+import { ecoDynamics, ecoJacobian } from './ecologyModel';
+import { BipartiteNetwork } from './networkBuilder';
+import { SetupParams, buildSimulationSetup } from './simulationSetup';
+import { replicateSeeds, runReplicate } from './ensembleRunner';
+
+export type SweepParam = Exclude<
+  { [K in keyof SetupParams]-?: SetupParams[K] extends number ? K : never }[keyof SetupParams],
+  'nSpecies' | 'historyRetention'
+>;
+
+export type SweepMetric = 'persistence' | 'totalBiomass' | 'extinctionProbability';
+
+export interface SweepAxis {
+  param: SweepParam;
+  min: number;
+  max: number;
+  steps: number;   // Number of grid values, including both ends
+}
+
+export interface SweepConfig {
+  x: SweepAxis;
+  y: SweepAxis;
+  duration: number;     // Simulated years per replicate
+  replicates: number;   // Hurricane realizations per cell
+  baseSeed: number;     // Seed for parameter draws and replicate seeds
+}
+
+export interface SweepCell {
+  x: number;
+  y: number;
+  persistence: number;            // Mean fraction of species surviving
+  totalBiomass: number;           // Mean total final abundance
+  extinctionProbability: number;  // Fraction of replicates with at least one extinction
+}
+
+export interface SweepResult {
+  config: SweepConfig;
+  xValues: number[];
+  yValues: number[];
+  cells: SweepCell[][];           // [yIndex][xIndex]
+}
+
+/**
+ * Slider range of each sweepable parameter
+ */
+export const SWEEP_RANGES: Record<SweepParam, { label: string; min: number; max: number }> = {
+  mutualisticStrength: { label: 'Pollination Strength (m)', min: 0, max: 2 },
+  dispersalStrength: { label: 'Dispersal Strength (d)', min: 0, max: 2 },
+  competitionStrength: { label: 'Plant Competition (c)', min: -2, max: 0 },
+  animalCompetitionStrength: { label: 'Animal Competition', min: -2, max: 0 },
+  plantSelfRegulation: { label: 'Plant Self-Regulation', min: 0.1, max: 2 },
+  animalSelfRegulation: { label: 'Animal Self-Regulation', min: 0.1, max: 2 },
+  halfSaturation: { label: 'Half-Saturation (h)', min: 0.1, max: 2 },
+  responseExponent: { label: 'Type III Exponent (q)', min: 1, max: 4 },
+  interference: { label: 'Interference (β)', min: 0, max: 2 },
+  hurricaneRate: { label: 'Hurricane Rate (λ)', min: 0, max: 0.5 },
+  plantVulnerability: { label: 'Plant Vulnerability', min: 0, max: 2 },
+  pollinatorVulnerability: { label: 'Pollinator Vulnerability', min: 0, max: 2 },
+  disperserVulnerability: { label: 'Disperser Vulnerability', min: 0, max: 2 },
+  traitExponent: { label: 'Trait Exponent', min: -2, max: 2 },
+  damageVariation: { label: 'Damage Variation', min: 0, max: 0.9 },
+  plantMigration: { label: 'Plant Migration', min: 0, max: 0.5 },
+  pollinatorMigration: { label: 'Pollinator Migration', min: 0, max: 0.5 },
+  disperserMigration: { label: 'Disperser Migration', min: 0, max: 0.5 }
+};
+
+/**
+ * Evenly spaced values along a sweep axis
+ */
+export function axisValues(axis: SweepAxis): number[] {
+  if (axis.steps <= 1) return [axis.min];
+  const spacing = (axis.max - axis.min) / (axis.steps - 1);
+  return Array(axis.steps).fill(0).map((_, k) => axis.min + k * spacing);
+}
+
+/**
+ * Run replicates for one parameter combination and summarize their outcome
+ */
+export function evaluateSweepCell(
+  params: SetupParams,
+  network: BipartiteNetwork | null,
+  duration: number,
+  seeds: number[],
+  setupSeed: number
+): Omit<SweepCell, 'x' | 'y'> {
+  const setup = buildSimulationSetup(params, network, setupSeed);
+  const nSpecies = setup.speciesNames.length;
+  
+  let persistence = 0;
+  let totalBiomass = 0;
+  let withExtinction = 0;
+  for (const seed of seeds) {
+    const result = runReplicate(
+      ecoDynamics,
+      setup.ecologyParams,
+      setup.initialPopulation,
+      setup.config,
+      [0, duration],
+      seed,
+      ecoJacobian
+    );
+    const extinct = result.extinctionTimes.filter(t => t !== null).length;
+    persistence += nSpecies > 0 ? (nSpecies - extinct) / nSpecies : 0;
+    totalBiomass += result.finalPopulations.reduce((sum, val) => sum + val, 0);
+    if (extinct > 0) withExtinction++;
+  }
+  
+  const n = Math.max(1, seeds.length);
+  return {
+    persistence: persistence / n,
+    totalBiomass: totalBiomass / n,
+    extinctionProbability: withExtinction / n
+  };
+}
+
+/**
+ * Sweep two parameters over a grid, holding all others at their base values
+ * Every cell shares the same parameter draws and replicate seeds, so
+ * differences between cells come from the swept parameters alone.
+ * Yields to the event loop between cells so the simulation worker running
+ * it can take cancel requests.
+ * @param onProgress - Called with the number of finished cells
+ * @param shouldCancel - Checked between cells to abort the sweep
+ */
+export async function runParameterSweep(
+  base: SetupParams,
+  network: BipartiteNetwork | null,
+  config: SweepConfig,
+  onProgress?: (completed: number, total: number) => void,
+  shouldCancel?: () => boolean
+): Promise<SweepResult | null> {
+  const xValues = axisValues(config.x);
+  const yValues = axisValues(config.y);
+  const seeds = replicateSeeds(config.baseSeed, config.replicates);
+  const total = xValues.length * yValues.length;
+  
+  const cells: SweepCell[][] = [];
+  let completed = 0;
+  for (const y of yValues) {
+    const row: SweepCell[] = [];
+    for (const x of xValues) {
+      if (shouldCancel?.()) return null;
+      
+      const params = { ...base, [config.x.param]: x, [config.y.param]: y };
+      row.push({
+        x,
+        y,
+        ...evaluateSweepCell(params, network, config.duration, seeds, config.baseSeed)
+      });
+      onProgress?.(++completed, total);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    cells.push(row);
+  }
+  
+  return { config, xValues, yValues, cells };
+}
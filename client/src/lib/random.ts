@@ -0,0 +1,131 @@
+/**
+ * Seedable pseudo-random number generation (xoshiro128**)
+ */
+
+/**
+ * A source of uniform random numbers in [0, 1)
+ * Math.random satisfies this type, so any generator can be plugged in.
+ */
+export type RandomSource = () => number;
+
+export interface RandomStreams {
+  hazards: RandomSource;       // Hurricane arrival times and intensities
+  parameters: RandomSource;    // Growth rates and initial populations
+  disturbances: RandomSource;  // Droughts, fires, disease and other hazards
+}
+
+// Stream identifiers used to derive independent seeds from one master seed
+const STREAM_IDS: Record<keyof RandomStreams, number> = {
+  hazards: 1,
+  parameters: 2,
+  disturbances: 3
+};
+
+/**
+ * SplitMix32 generator, used to expand a seed into generator state
+ */
+function splitMix32(seed: number): () => number {
+  let a = seed | 0;
+  return () => {
+    a = (a + 0x9e3779b9) | 0;
+    let t = a ^ (a >>> 16);
+    t = Math.imul(t, 0x21f0aaad);
+    t = t ^ (t >>> 15);
+    t = Math.imul(t, 0x735a2d97);
+    return (t ^ (t >>> 15)) >>> 0;
+  };
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+/**
+ * Create a xoshiro128** generator from a 32-bit integer seed
+ */
+export function createRandom(seed: number): RandomSource {
+  const init = splitMix32(seed);
+  let s0 = init();
+  let s1 = init();
+  let s2 = init();
+  let s3 = init();
+  
+  return () => {
+    const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+    const t = s1 << 9;
+    
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotl(s3, 11);
+    
+    return result / 4294967296;
+  };
+}
+
+/**
+ * Derive the seed of a named stream from a master seed
+ */
+export function deriveSeed(seed: number, stream: keyof RandomStreams): number {
+  return splitMix32(seed ^ Math.imul(STREAM_IDS[stream], 0x85ebca6b))();
+}
+
+/**
+ * Create independent hazard, parameter and disturbance streams from one master seed
+ */
+export function createRandomStreams(seed: number): RandomStreams {
+  return {
+    hazards: createRandom(deriveSeed(seed, 'hazards')),
+    parameters: createRandom(deriveSeed(seed, 'parameters')),
+    disturbances: createRandom(deriveSeed(seed, 'disturbances'))
+  };
+}
+
+/**
+ * Standard normal variate by the Box-Muller transform
+ */
+export function randomNormal(random: RandomSource): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Gamma variate with the given shape and unit scale (Marsaglia & Tsang 2000)
+ */
+export function randomGamma(shape: number, random: RandomSource): number {
+  if (shape < 1) {
+    // Boost to shape + 1 and scale back down
+    return randomGamma(shape + 1, random) * (1 - random()) ** (1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = randomNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+/**
+ * Beta variate from two gamma variates
+ */
+export function randomBeta(a: number, b: number, random: RandomSource): number {
+  const x = randomGamma(a, random);
+  const y = randomGamma(b, random);
+  return x + y > 0 ? x / (x + y) : a / (a + b);
+}
+
+/**
+ * Draw a fresh seed for a new run
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
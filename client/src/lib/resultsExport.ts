@@ -0,0 +1,84 @@
+/**
+ * Export simulation results for sharing and reproduction
+ */
+
+import {
+  SimulationConfig,
+  SimulationState,
+  HurricaneEvent,
+  HazardEvent,
+  ExtinctionEvent,
+  RecolonizationEvent
+} from './simulationEngine';
+import { HistoryStore, HistoryPoint } from './historyStore';
+import { NetworkMetrics } from './networkMetrics';
+
+export interface SimulationExport {
+  exportedAt: string;
+  seed: number;
+  speciesNames: string[];                // In model order
+  parameters: Record<string, unknown>;   // UI parameters used to build the run
+  networkMetrics: NetworkMetrics | null; // Structure of the uploaded network, if any
+  config: Omit<SimulationConfig, 'seed'>;
+  time: number;
+  populations: number[];
+  hurricanes: HurricaneEvent[];
+  hazards: HazardEvent[];
+  extinctions: ExtinctionEvent[];
+  recolonizations: RecolonizationEvent[];
+  history: HistoryPoint[];
+}
+
+/**
+ * Collect the state of a run together with everything needed to rerun it
+ */
+export function createSimulationExport(
+  seed: number,
+  parameters: Record<string, unknown>,
+  config: SimulationConfig,
+  state: SimulationState,
+  history: HistoryStore,
+  speciesNames: string[],
+  networkMetrics: NetworkMetrics | null
+): SimulationExport {
+  const { seed: _seed, ...rest } = config;
+  
+  return {
+    exportedAt: new Date().toISOString(),
+    seed,
+    speciesNames,
+    parameters,
+    networkMetrics,
+    config: rest,
+    time: state.time,
+    populations: state.populations,
+    hurricanes: state.hurricanes,
+    hazards: state.hazards,
+    extinctions: state.extinctions,
+    recolonizations: state.recolonizations,
+    history: history.toArray()
+  };
+}
+
+/**
+ * Trigger a browser download of a text document
+ */
+export function downloadText(text: string, filename: string, type = 'text/plain'): void {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Trigger a browser download of a JSON document
+ */
+export function downloadJSON(data: unknown, filename: string): void {
+  downloadText(JSON.stringify(data, null, 2), filename, 'application/json');
+}
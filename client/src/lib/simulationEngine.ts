@@ -2,54 +2,180 @@
  * Event-driven simulation engine with hurricane perturbations
  */
 
-import { solveODE, ODEFunction } from './odeSolver';
+import {
+  solveODE,
+  solveODEAdaptive,
+  solveODERosenbrock,
+  createSolverStats,
+  ODEFunction,
+  JacobianFunction,
+  EventTracker,
+  SolverMethod,
+  SolverStats
+} from './odeSolver';
 import { EcologyParams } from './ecologyModel';
+import { RandomSource, createRandom, deriveSeed, randomBeta, randomSeed } from './random';
+import { HistoryStore, HistoryChunk } from './historyStore';
+import { DamageDistribution, nearestCategory } from './damageDistributions';
+import { Metacommunity, metacommunityDynamics, metacommunityJacobian } from './metacommunity';
+import { HurricaneTrack, TrackModel, drawTrack, trackIntensity } from './hurricaneTracks';
+import {
+  HazardRegime,
+  intensityTilt,
+  isStationaryRegime,
+  sampleTiltedDamage,
+  tiltCategories
+} from './hazardRegimes';
+import { ArrivalProcess, nextArrivalTime } from './arrivalProcesses';
+import { HURRICANE_HAZARD, HazardEffectType, HazardModel, disturbedParams } from './hazardTypes';
 
 export interface HurricaneCategory {
   name: string;
   probability: number;
   damage: number;
+  color: string;                   // Marker colour in charts and legends
 }
 
 export interface SimulationConfig {
   hurricaneRate: number;           // Lambda: average hurricanes per year
   hurricaneCategories: HurricaneCategory[];
   extinctionThreshold: number;     // Fraction of initial population
-  timeStep: number;                // ODE solver time step
+  timeStep: number;                // ODE solver time step (initial step for rk45)
+  solver?: SolverMethod | 'auto';  // Integration method, defaults to 'rk4'; 'auto' switches
+                                   // between rk45 and rosenbrock on detected stiffness
+  relTol?: number;                 // Relative tolerance for adaptive solvers
+  absTol?: number;                 // Absolute tolerance for adaptive solvers
+  seed?: number;                   // Master seed; the hazard stream is derived from it
+  historyRetention?: number;       // Maximum number of history points kept
+  vulnerability?: number[];        // Per-species multiplier of category damage, default 1
+  damageVariation?: number;        // Spread of per-species damage around its mean (0-1), default 0
+  damageDistribution?: DamageDistribution;  // Continuous damage; categories give only the labels
+  metacommunity?: Metacommunity;   // Islands coupled by dispersal; populations are per island
+  tracks?: TrackModel;             // Storms cross the island map instead of striking one island
+  hazardRegime?: HazardRegime;     // Trends and seasonality of rate and intensity, default constant
+  arrivalProcess?: ArrivalProcess; // Timing of hurricanes, default Poisson
+  hazards?: HazardModel[];         // Droughts, fires, disease and other hazards besides hurricanes
 }
 
 export interface HurricaneEvent {
   time: number;
   category: string;
-  damage: number;
+  damage: number;                  // Hurricane damage before species vulnerability
+  speciesDamage?: number[];        // Damage fraction applied to each species, or each
+                                   // population when the storm follows a track
+  island?: number;                 // Island struck, in a metacommunity
+  track?: HurricaneTrack;          // Path of the storm across the island map
+  islandDamage?: number[];         // Damage on each island along the track, 0 where missed
+}
+
+/**
+ * Occurrence of a hazard other than a hurricane
+ * Hazards act on every island of a metacommunity.
+ */
+export interface HazardEvent {
+  time: number;
+  hazard: string;                  // Id of the hazard type
+  name: string;
+  effect: HazardEffectType;
+  duration: number;                // Years growth stays lowered, 0 for mortality
+  speciesEffect: number[];         // Fraction killed, or of growth lost, per species
+  trigger?: {                      // Hazard this one followed, for compound events
+    hazard: string;
+    time: number;
+  };
+}
+
+export interface ExtinctionEvent {
+  species: number;                 // Population index; island * nSpecies + species in a metacommunity
+  time: number;
+  cause: 'dynamics' | 'hurricane' | 'hazard';
+}
+
+/**
+ * Return of a locally extinct species to an island by immigration
+ */
+export interface RecolonizationEvent {
+  species: number;                 // Population index, as in ExtinctionEvent
+  time: number;
 }
 
 export interface SimulationState {
   time: number;
   populations: number[];
   hurricanes: HurricaneEvent[];
+  hazards: HazardEvent[];
   extinctSpecies: Set<number>;
-  history: Array<{ t: number; y: number[] }>;
+  extinctions: ExtinctionEvent[];
+  recolonizations: RecolonizationEvent[];
+}
+
+/**
+ * Position in the growing state arrays up to which a consumer is in sync
+ */
+export interface StateCursor {
+  history: number;        // Total number of history points pushed
+  hurricanes: number;
+  hazards: number;
+  extinctions: number;
+  recolonizations: number;
+}
+
+/**
+ * State changes since a cursor, used to stream updates without copying history
+ */
+export interface SimulationDelta {
+  time: number;
+  populations: number[];
+  history: HistoryChunk;
+  hurricanes: HurricaneEvent[];
+  hazards: HazardEvent[];
+  extinctions: ExtinctionEvent[];
+  recolonizations: RecolonizationEvent[];
+  extinctSpecies: number[];        // Currently extinct populations
+  cursor: StateCursor;
 }
 
+// A locally extinct population counts as recolonized at this multiple of its
+// extinction threshold, so one hovering at the threshold is not flagged back and forth
+const RECOLONIZATION_FACTOR = 2;
+
+// Longest chain of hazards setting each other off, so cycles of triggers end
+const MAX_COMPOUND_DEPTH = 3;
+
 /**
- * Generate random number from exponential distribution
+ * Hazard due to occur, independently or following another
  */
-function randomExponential(lambda: number): number {
-  return -Math.log(1 - Math.random()) / lambda;
+interface PendingHazard {
+  time: number;
+  hazard: string;
+  depth: number;                   // Hazards in the chain before this one
+  trigger?: HazardEvent['trigger'];
 }
 
 /**
  * Draw hurricane damage from probability mass function
+ * A continuous distribution replaces the category damages; the event is
+ * labelled with the category of nearest damage. A non-zero tilt shifts
+ * either toward stronger storms (see tiltCategories).
  */
-function drawHurricaneDamage(categories: HurricaneCategory[]): {
+function drawHurricaneDamage(
+  categories: HurricaneCategory[],
+  random: RandomSource,
+  distribution?: DamageDistribution,
+  tilt: number = 0
+): {
   category: string;
   damage: number;
 } {
-  const rand = Math.random();
+  if (distribution && distribution.type !== 'categorical') {
+    const damage = sampleTiltedDamage(distribution, tilt, random);
+    return { category: nearestCategory(categories, damage).name, damage };
+  }
+  
+  const rand = random();
   let cumProb = 0;
   
-  for (const cat of categories) {
+  for (const cat of tiltCategories(categories, tilt)) {
     cumProb += cat.probability;
     if (rand <= cumProb) {
       return { category: cat.name, damage: cat.damage };
@@ -61,27 +187,69 @@ function drawHurricaneDamage(categories: HurricaneCategory[]): {
   return { category: last.name, damage: last.damage };
 }
 
+/**
+ * Damage fraction of each species for one hurricane
+ * A species' mean damage is the category damage times its vulnerability,
+ * capped at 1. With variation v > 0 the damage is Beta distributed around
+ * that mean with variance v * mean * (1 - mean); with v = 0 no random
+ * numbers are drawn.
+ */
+function drawSpeciesDamage(
+  damage: number,
+  nSpecies: number,
+  vulnerability: number[] | undefined,
+  variation: number,
+  random: RandomSource
+): number[] {
+  const v = Math.min(0.99, Math.max(0, variation));
+  return Array(nSpecies).fill(0).map((_, i) => {
+    const mean = Math.min(1, Math.max(0, damage * (vulnerability?.[i] ?? 1)));
+    if (v === 0 || mean <= 0 || mean >= 1) return mean;
+    const concentration = 1 / v - 1;
+    return randomBeta(mean * concentration, (1 - mean) * concentration, random);
+  });
+}
+
 /**
  * Simulation engine class
  */
 export class SimulationEngine {
+  private localOdeFunction: ODEFunction;
+  private localJacobian?: JacobianFunction;
   private odeFunction: ODEFunction;
+  private jacobian?: JacobianFunction;
   private ecologyParams: EcologyParams;
   private config: SimulationConfig;
   private state: SimulationState;
+  private history: HistoryStore;
   private initialPopulations: number[];
   private extinctionThresholds: number[];
+  private solverStats: SolverStats = createSolverStats();
+  private seed: number;
+  private random: RandomSource;
+  private scheduledHurricane: number | null = null;  // Next renewal arrival, once drawn
+  private disturbanceRandom: RandomSource;
+  private scheduledHazards = new Map<string, number | null>();  // Next renewal arrival per hazard
+  private pendingHazards: PendingHazard[] = [];                 // Hazards following earlier ones
 
   constructor(
     odeFunction: ODEFunction,
     ecologyParams: EcologyParams,
     initialPopulations: number[],
-    config: SimulationConfig
+    config: SimulationConfig,
+    jacobian?: JacobianFunction
   ) {
-    this.odeFunction = odeFunction;
+    this.localOdeFunction = odeFunction;
+    this.localJacobian = jacobian;
     this.ecologyParams = ecologyParams;
     this.config = config;
+    const dynamics = this.coupleIslands();
+    this.odeFunction = dynamics.odeFunction;
+    this.jacobian = dynamics.jacobian;
     this.initialPopulations = [...initialPopulations];
+    this.seed = config.seed ?? randomSeed();
+    this.random = createRandom(deriveSeed(this.seed, 'hazards'));
+    this.disturbanceRandom = createRandom(deriveSeed(this.seed, 'disturbances'));
     
     // Calculate extinction thresholds
     this.extinctionThresholds = initialPopulations.map(
@@ -93,9 +261,13 @@ export class SimulationEngine {
       time: 0,
       populations: [...initialPopulations],
       hurricanes: [],
+      hazards: [],
       extinctSpecies: new Set(),
-      history: [{ t: 0, y: [...initialPopulations] }]
+      extinctions: [],
+      recolonizations: []
     };
+    this.history = new HistoryStore(initialPopulations.length, config.historyRetention);
+    this.history.push(0, initialPopulations);
   }
 
   /**
@@ -113,9 +285,24 @@ export class SimulationEngine {
       time: 0,
       populations: [...this.initialPopulations],
       hurricanes: [],
+      hazards: [],
       extinctSpecies: new Set(),
-      history: [{ t: 0, y: [...this.initialPopulations] }]
+      extinctions: [],
+      recolonizations: []
     };
+    this.history = new HistoryStore(
+      this.initialPopulations.length,
+      this.config.historyRetention
+    );
+    this.history.push(0, this.initialPopulations);
+    this.solverStats = createSolverStats();
+    
+    // Replay the same hazard sequence after a reset
+    this.random = createRandom(deriveSeed(this.seed, 'hazards'));
+    this.disturbanceRandom = createRandom(deriveSeed(this.seed, 'disturbances'));
+    this.scheduledHurricane = null;
+    this.scheduledHazards.clear();
+    this.pendingHazards = [];
   }
 
   /**
@@ -130,87 +317,418 @@ export class SimulationEngine {
    */
   updateConfig(config: Partial<SimulationConfig>): void {
     this.config = { ...this.config, ...config };
+    
+    if (config.metacommunity !== undefined) {
+      const dynamics = this.coupleIslands();
+      this.odeFunction = dynamics.odeFunction;
+      this.jacobian = dynamics.jacobian;
+    }
+    
+    if (config.seed !== undefined) {
+      this.seed = config.seed;
+      this.random = createRandom(deriveSeed(this.seed, 'hazards'));
+      this.disturbanceRandom = createRandom(deriveSeed(this.seed, 'disturbances'));
+    }
+    
+    // Scheduled renewal arrivals belong to the old processes
+    if (config.seed !== undefined || config.hazards !== undefined) {
+      this.scheduledHazards.clear();
+      this.pendingHazards = [];
+    }
+    if (
+      config.seed !== undefined ||
+      config.hurricaneRate !== undefined ||
+      config.hazardRegime !== undefined ||
+      config.arrivalProcess !== undefined
+    ) {
+      this.scheduledHurricane = null;
+    }
   }
 
   /**
    * Step simulation forward by a given duration
-   * Returns the next hurricane time if one occurs, or null
+   * The step ends early at a hurricane or other hazard, which is applied.
+   * Returns the time of that event if one occurs, or null
    */
   step(duration: number): number | null {
-    const { hurricaneRate, hurricaneCategories, timeStep } = this.config;
+    const { hurricaneCategories, hazardRegime } = this.config;
+    const regime = hazardRegime && !isStationaryRegime(hazardRegime) ? hazardRegime : undefined;
     const startTime = this.state.time;
     const endTime = startTime + duration;
     
-    // Generate next hurricane time
-    let nextHurricaneTime: number | null = null;
-    if (hurricaneRate > 0) {
-      const timeToNext = randomExponential(hurricaneRate);
-      nextHurricaneTime = startTime + timeToNext;
-      
-      // Only consider if within this step
-      if (nextHurricaneTime > endTime) {
-        nextHurricaneTime = null;
-      }
-    }
+    // Generate next hurricane time, and any other hazard striking first
+    const nextHurricaneTime = this.drawHurricaneTime(regime, startTime, endTime);
+    const hazard = this.drawHazard(startTime, nextHurricaneTime ?? endTime);
     
     // Determine actual end time for this step
-    const actualEndTime = nextHurricaneTime ?? endTime;
+    const actualEndTime = hazard?.time ?? nextHurricaneTime ?? endTime;
     
-    // Solve ODE from current time to actual end time
-    if (actualEndTime > startTime) {
-      const solution = solveODE(
-        this.odeFunction,
-        this.state.populations,
-        startTime,
-        actualEndTime,
-        timeStep,
-        this.ecologyParams
-      );
+    // Solve ODE from current time to actual end time, restarting after
+    // each extinction crossing located by the solver and where a hazard
+    // lowering growth ends
+    while (this.state.time < actualEndTime) {
+      const segmentEnd = this.nextGrowthChange(this.state.time, actualEndTime);
+      const { tracker, species } = this.createExtinctionTracker();
+      const solution = this.integrate(this.state.time, segmentEnd, tracker);
       
       // Add solution to history (skip first point as it's already in history)
       for (let i = 1; i < solution.length; i++) {
-        this.state.history.push(solution[i]);
+        this.history.push(solution[i].t, solution[i].y);
       }
       
       // Update current state
-      this.state.time = actualEndTime;
-      this.state.populations = [...solution[solution.length - 1].y];
+      const last = solution[solution.length - 1];
+      this.state.time = last.t;
+      this.state.populations = [...last.y];
+      
+      if (tracker.occurrences.length === 0) {
+        if (segmentEnd === actualEndTime) break;
+        continue;
+      }
+      
+      // Clamp species that crossed their threshold and record the crossing;
+      // extinct populations that rose again were recolonized
+      for (const occurrence of tracker.occurrences) {
+        const index = species[occurrence.index];
+        if (this.state.extinctSpecies.has(index)) {
+          this.state.extinctSpecies.delete(index);
+          this.state.recolonizations.push({ species: index, time: occurrence.t });
+        } else {
+          this.markExtinct(index, occurrence.t, 'dynamics');
+        }
+      }
+      this.history.push(this.state.time, this.state.populations);
+    }
+    
+    if (hazard) {
+      this.applyHazard(hazard);
+      return hazard.time;
     }
     
     // Apply hurricane if it occurred
     if (nextHurricaneTime !== null) {
-      const { category, damage } = drawHurricaneDamage(hurricaneCategories);
+      const { category, damage } = drawHurricaneDamage(
+        hurricaneCategories,
+        this.random,
+        this.config.damageDistribution,
+        regime ? intensityTilt(regime, nextHurricaneTime) : 0
+      );
+      
+      // In a metacommunity the hurricane strikes one island chosen uniformly,
+      // or every island near its track with damage decaying with distance
+      const islands = this.config.metacommunity?.islands ?? 1;
+      const nSpecies = this.state.populations.length / islands;
+      const tracks = islands > 1 ? this.config.tracks : undefined;
+      let struck: number[];
+      let speciesDamage: number[];
+      let location: Partial<HurricaneEvent>;
+      if (tracks) {
+        const track = drawTrack(tracks, this.random);
+        const islandDamage = trackIntensity(tracks, track).map(intensity => Math.min(1, damage * intensity));
+        struck = islandDamage.map((_, k) => k).filter(k => islandDamage[k] > 0);
+        speciesDamage = islandDamage.flatMap(islandMean => (islandMean > 0
+          ? drawSpeciesDamage(
+            islandMean,
+            nSpecies,
+            this.config.vulnerability,
+            this.config.damageVariation ?? 0,
+            this.random
+          )
+          : Array(nSpecies).fill(0)));
+        location = { track, islandDamage };
+      } else {
+        const island = islands > 1 ? Math.floor(this.random() * islands) : 0;
+        struck = [island];
+        speciesDamage = drawSpeciesDamage(
+          damage,
+          nSpecies,
+          this.config.vulnerability,
+          this.config.damageVariation ?? 0,
+          this.random
+        );
+        location = islands > 1 ? { island } : {};
+      }
       
       // Record hurricane event
+      this.scheduledHurricane = null;
       this.state.hurricanes.push({
         time: nextHurricaneTime,
         category,
-        damage
+        damage,
+        speciesDamage,
+        ...location
       });
       
-      // Apply damage to populations
-      this.state.populations = this.state.populations.map((pop, i) => {
-        const newPop = pop * (1 - damage);
-        
-        // Check for extinction
-        if (newPop < this.extinctionThresholds[i]) {
-          this.state.extinctSpecies.add(i);
-          return 0;
+      // Apply each species' damage to its population on the struck islands
+      for (const island of struck) {
+        const offset = island * nSpecies;
+        const damages = tracks ? speciesDamage.slice(offset, offset + nSpecies) : speciesDamage;
+        damages.forEach((fraction, i) => {
+          this.state.populations[offset + i] *= 1 - fraction;
+        });
+      }
+      
+      // Check for extinction
+      for (const island of struck) {
+        for (let c = island * nSpecies; c < (island + 1) * nSpecies; c++) {
+          if (this.state.populations[c] < this.extinctionThresholds[c]) {
+            this.markExtinct(c, nextHurricaneTime, 'hurricane');
+          }
         }
-        
-        return newPop;
-      });
+      }
       
       // Add post-hurricane state to history
-      this.state.history.push({
-        t: nextHurricaneTime,
-        y: [...this.state.populations]
-      });
+      this.history.push(nextHurricaneTime, this.state.populations);
+      this.queueFollowingHazards(HURRICANE_HAZARD, nextHurricaneTime, 1);
     }
     
     return nextHurricaneTime;
   }
 
+  /**
+   * Time of the next hurricane in [t0, t1] under the arrival process, or null
+   */
+  private drawHurricaneTime(regime: HazardRegime | undefined, t0: number, t1: number): number | null {
+    const { hurricaneRate, arrivalProcess } = this.config;
+    const { time, scheduled } = nextArrivalTime(
+      arrivalProcess,
+      hurricaneRate,
+      regime,
+      this.state.hurricanes,
+      t0,
+      t1,
+      this.random,
+      this.scheduledHurricane
+    );
+    this.scheduledHurricane = scheduled;
+    return time;
+  }
+
+  /**
+   * Earliest hazard other than a hurricane in [t0, t1), or null
+   * Following hazards come from the queue; each type draws its independent
+   * events from its own arrival process, which ignores following ones.
+   */
+  private drawHazard(t0: number, t1: number): PendingHazard | null {
+    let next: PendingHazard | null = null;
+    for (const pending of this.pendingHazards) {
+      if (pending.time < t1 && (!next || pending.time < next.time)) next = pending;
+    }
+    
+    for (const { type } of this.config.hazards ?? []) {
+      const { time, scheduled } = nextArrivalTime(
+        type.arrival,
+        type.rate,
+        undefined,
+        this.state.hazards.filter(e => e.hazard === type.id && !e.trigger),
+        t0,
+        t1,
+        this.disturbanceRandom,
+        this.scheduledHazards.get(type.id) ?? null
+      );
+      this.scheduledHazards.set(type.id, scheduled);
+      if (time !== null && time < t1 && (!next || time < next.time)) {
+        next = { time, hazard: type.id, depth: 0 };
+      }
+    }
+    
+    return next;
+  }
+
+  /**
+   * Record a hazard and apply its effect on every island
+   * Mortality acts at once; lowered growth acts through integrate until the
+   * hazard ends.
+   */
+  private applyHazard(pending: PendingHazard): void {
+    this.pendingHazards = this.pendingHazards.filter(p => p !== pending);
+    const model = this.config.hazards?.find(m => m.type.id === pending.hazard);
+    if (!model) return;
+    const { type, severity } = model;
+    const { time } = pending;
+    
+    if (!pending.trigger) this.scheduledHazards.set(type.id, null);
+    this.state.hazards.push({
+      time,
+      hazard: type.id,
+      name: type.name,
+      effect: type.effect,
+      duration: type.effect === 'growth' ? type.duration : 0,
+      speciesEffect: [...severity],
+      ...(pending.trigger ? { trigger: pending.trigger } : {})
+    });
+    
+    if (type.effect === 'mortality') {
+      const nSpecies = severity.length;
+      for (let c = 0; c < this.state.populations.length; c++) {
+        this.state.populations[c] *= 1 - severity[c % nSpecies];
+        if (this.state.populations[c] < this.extinctionThresholds[c]) {
+          this.markExtinct(c, time, 'hazard');
+        }
+      }
+      this.history.push(time, this.state.populations);
+    }
+    
+    this.queueFollowingHazards(type.id, time, pending.depth + 1);
+  }
+
+  /**
+   * Queue the hazards that follow an event, each with its own chance and delay
+   */
+  private queueFollowingHazards(after: string, time: number, depth: number): void {
+    if (depth > MAX_COMPOUND_DEPTH) return;
+    for (const { type } of this.config.hazards ?? []) {
+      const trigger = type.trigger;
+      if (!trigger || trigger.after !== after || trigger.probability <= 0) continue;
+      if (this.disturbanceRandom() >= trigger.probability) continue;
+      
+      const delay = trigger.delay > 0 ? -Math.log(1 - this.disturbanceRandom()) * trigger.delay : 0;
+      this.pendingHazards.push({
+        time: time + delay,
+        hazard: type.id,
+        depth,
+        trigger: { hazard: after, time }
+      });
+    }
+  }
+
+  /**
+   * Growth losses of the hazards active at time t, one row per hazard
+   */
+  private activeGrowthLosses(t: number): number[][] {
+    return this.state.hazards
+      .filter(e => e.effect === 'growth' && e.time <= t && t < e.time + e.duration)
+      .map(e => e.speciesEffect);
+  }
+
+  /**
+   * End of the first active growth hazard in (t0, t1), or t1
+   */
+  private nextGrowthChange(t0: number, t1: number): number {
+    let next = t1;
+    for (const e of this.state.hazards) {
+      const end = e.time + e.duration;
+      if (e.effect === 'growth' && e.time <= t0 && end > t0 && end < next) next = end;
+    }
+    return next;
+  }
+
+  /**
+   * Build terminal events for surviving species falling below their threshold
+   * In a metacommunity extinct populations are also watched for recolonization.
+   * Returns the tracker and the species index watched by each event
+   */
+  private createExtinctionTracker(): { tracker: EventTracker; species: number[] } {
+    const { extinctSpecies } = this.state;
+    const coupled = (this.config.metacommunity?.islands ?? 1) > 1;
+    const species = this.state.populations
+      .map((_, i) => i)
+      .filter(i => coupled || !extinctSpecies.has(i));
+    
+    const tracker: EventTracker = {
+      events: species.map(i => (extinctSpecies.has(i)
+        ? {
+          value: (_t: number, y: number[]) =>
+            y[i] - RECOLONIZATION_FACTOR * this.extinctionThresholds[i],
+          direction: 1 as const,
+          terminal: true
+        }
+        : {
+          value: (_t: number, y: number[]) => y[i] - this.extinctionThresholds[i],
+          direction: -1 as const,
+          terminal: true
+        })),
+      occurrences: []
+    };
+    
+    return { tracker, species };
+  }
+  
+  /**
+   * Wrap the single-island dynamics with dispersal when there are several islands
+   */
+  private coupleIslands(): { odeFunction: ODEFunction; jacobian?: JacobianFunction } {
+    const meta = this.config.metacommunity;
+    if (!meta || meta.islands <= 1) {
+      return { odeFunction: this.localOdeFunction, jacobian: this.localJacobian };
+    }
+    return {
+      odeFunction: metacommunityDynamics(this.localOdeFunction, meta),
+      jacobian: this.localJacobian && metacommunityJacobian(this.localJacobian, meta)
+    };
+  }
+
+  /**
+   * Clamp a species to zero and record its extinction
+   */
+  private markExtinct(
+    species: number,
+    time: number,
+    cause: ExtinctionEvent['cause']
+  ): void {
+    this.state.populations[species] = 0;
+    if (this.state.extinctSpecies.has(species)) return;
+    
+    this.state.extinctSpecies.add(species);
+    this.state.extinctions.push({ species, time, cause });
+  }
+
+  /**
+   * Integrate the current populations with the configured solver
+   */
+  private integrate(
+    startTime: number,
+    endTime: number,
+    tracker?: EventTracker
+  ): Array<{ t: number; y: number[] }> {
+    const { timeStep, relTol = 1e-6, absTol = 1e-9 } = this.config;
+    const solver = this.getActiveSolver();
+    const params = disturbedParams(this.ecologyParams, this.activeGrowthLosses(startTime));
+    const options = {
+      relTol,
+      absTol,
+      // Continue from the last accepted step size when one is known
+      initialStep: this.solverStats.lastStepSize || timeStep
+    };
+    
+    if (solver === 'rk45') {
+      return solveODEAdaptive(
+        this.odeFunction,
+        this.state.populations,
+        startTime,
+        endTime,
+        params,
+        options,
+        this.solverStats,
+        tracker
+      );
+    }
+    
+    if (solver === 'rosenbrock') {
+      return solveODERosenbrock(
+        this.odeFunction,
+        this.state.populations,
+        startTime,
+        endTime,
+        params,
+        options,
+        this.solverStats,
+        this.jacobian,
+        tracker
+      );
+    }
+    
+    return solveODE(
+      this.odeFunction,
+      this.state.populations,
+      startTime,
+      endTime,
+      timeStep,
+      params,
+      tracker
+    );
+  }
+
   /**
    * Get current simulation state
    */
@@ -219,8 +737,41 @@ export class SimulationEngine {
       ...this.state,
       populations: [...this.state.populations],
       hurricanes: [...this.state.hurricanes],
+      hazards: [...this.state.hazards],
       extinctSpecies: new Set(this.state.extinctSpecies),
-      history: this.state.history.map(h => ({ ...h, y: [...h.y] }))
+      extinctions: [...this.state.extinctions],
+      recolonizations: [...this.state.recolonizations]
+    };
+  }
+
+  /**
+   * Get the trajectory store (shared, not copied)
+   */
+  getHistory(): HistoryStore {
+    return this.history;
+  }
+
+  /**
+   * Get the state added since a cursor, together with the advanced cursor
+   */
+  getDelta(cursor: StateCursor): SimulationDelta {
+    const { hurricanes, hazards, extinctions, recolonizations } = this.state;
+    return {
+      time: this.state.time,
+      populations: [...this.state.populations],
+      history: this.history.since(cursor.history),
+      hurricanes: hurricanes.slice(cursor.hurricanes),
+      hazards: hazards.slice(cursor.hazards),
+      extinctions: extinctions.slice(cursor.extinctions),
+      recolonizations: recolonizations.slice(cursor.recolonizations),
+      extinctSpecies: Array.from(this.state.extinctSpecies),
+      cursor: {
+        history: this.history.totalPushed,
+        hurricanes: hurricanes.length,
+        hazards: hazards.length,
+        extinctions: extinctions.length,
+        recolonizations: recolonizations.length
+      }
     };
   }
 
@@ -238,11 +789,72 @@ export class SimulationEngine {
     return [...this.state.populations];
   }
 
+  /**
+   * Get the ecological parameters driving the dynamics
+   */
+  getEcologyParams(): EcologyParams {
+    return this.ecologyParams;
+  }
+
+  /**
+   * Get the populations the simulation starts from
+   */
+  getInitialPopulations(): number[] {
+    return [...this.initialPopulations];
+  }
+
+  /**
+   * Get the ODE right-hand side and its Jacobian, if one was supplied,
+   * including dispersal between islands
+   */
+  getDynamics(): { odeFunction: ODEFunction; jacobian?: JacobianFunction } {
+    return { odeFunction: this.odeFunction, jacobian: this.jacobian };
+  }
+
+  /**
+   * Get the simulation configuration, including the seed in use
+   */
+  getConfig(): SimulationConfig {
+    return { ...this.config, seed: this.seed };
+  }
+
+  /**
+   * Get the master seed of this run
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get recorded extinctions with their times
+   */
+  getExtinctions(): ExtinctionEvent[] {
+    return [...this.state.extinctions];
+  }
+
   /**
    * Get hurricane events
    */
   getHurricanes(): HurricaneEvent[] {
     return [...this.state.hurricanes];
   }
-}
 
+  /**
+   * Get the method used for the next integration step
+   * In 'auto' mode this follows the stiffness detector of the solver statistics.
+   */
+  getActiveSolver(): SolverMethod {
+    const { solver = 'rk4' } = this.config;
+    if (solver === 'auto') {
+      return this.solverStats.stiff ? 'rosenbrock' : 'rk45';
+    }
+    return solver;
+  }
+
+  /**
+   * Get adaptive solver statistics (accepted/rejected steps)
+   */
+  getSolverStats(): SolverStats {
+    return { ...this.solverStats };
+  }
+}
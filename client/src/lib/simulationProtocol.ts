@@ -0,0 +1,45 @@
+/**
+ * Typed message protocol between the main thread and the simulation worker
+ */
+
+import { EcologyParams } from './ecologyModel';
+import {
+  SimulationConfig,
+  SimulationState,
+  SimulationDelta
+} from './simulationEngine';
+import { HistoryChunk } from './historyStore';
+import { SetupParams, SimulationSetup } from './simulationSetup';
+import { EnsembleConfig, EnsembleSummary } from './ensembleRunner';
+import { SweepConfig, SweepResult } from './parameterSweep';
+import { BipartiteNetwork } from './networkBuilder';
+import { NullModelConfig, NullModelResult } from './nullModels';
+
+/**
+ * Messages sent to the worker
+ */
+export type WorkerRequest =
+  | { type: 'init'; setup: SimulationSetup }
+  | { type: 'run'; stepDuration: number; stepsPerTick: number }  // Step continuously
+  | { type: 'step'; duration: number }                            // Advance once
+  | { type: 'pause' }
+  | { type: 'reset'; initialPopulation?: number[] }
+  | { type: 'updateParams'; ecologyParams?: EcologyParams; config?: Partial<SimulationConfig> }
+  | { type: 'snapshot' }
+  | { type: 'runEnsemble'; id: number; setup: SimulationSetup; config: EnsembleConfig }
+  | { type: 'runSweep'; id: number; base: SetupParams; network: BipartiteNetwork | null; config: SweepConfig }
+  | { type: 'runNullModels'; id: number; network: BipartiteNetwork; config: NullModelConfig; params?: SetupParams }
+  | { type: 'cancelBatch'; id: number };  // Stop a batch job between runs
+
+/**
+ * Messages sent back to the main thread
+ */
+export type WorkerResponse =
+  | { type: 'snapshot'; state: SimulationState; config: SimulationConfig; history: HistoryChunk }
+  | { type: 'delta'; delta: SimulationDelta }
+  | { type: 'error'; message: string }
+  | { type: 'batchProgress'; id: number; completed: number; total: number }
+  | { type: 'ensembleResult'; id: number; summary: EnsembleSummary | null }  // Null when cancelled
+  | { type: 'sweepResult'; id: number; result: SweepResult | null }        // Null when cancelled
+  | { type: 'nullModelResult'; id: number; result: NullModelResult | null }  // Null when cancelled
+  | { type: 'batchError'; id: number; message: string };
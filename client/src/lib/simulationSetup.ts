@@ -0,0 +1,268 @@
+/**
+ * Build a complete simulation setup from user-facing parameters
+ */
+
+import {
+  EcologyParams,
+  FunctionalResponseType,
+  ModelConfig,
+  createEcologyParams,
+  initializePopulations
+} from './ecologyModel';
+import {
+  BipartiteNetwork,
+  CompetitionStructure,
+  LabeledMatrix,
+  buildHandlingMatrix,
+  buildInteractionMatrix,
+  getSpeciesNames
+} from './networkBuilder';
+import { HurricaneCategory, SimulationConfig } from './simulationEngine';
+import { createRandomStreams } from './random';
+import { normalizeCategories } from './hurricaneCategories';
+import { DamageDistribution } from './damageDistributions';
+import {
+  Metacommunity,
+  MetacommunitySettings,
+  buildDispersalKernel,
+  islandNames,
+  islandSites
+} from './metacommunity';
+import { TrackModel, TrackSettings, islandExposure } from './hurricaneTracks';
+import { HazardRegime } from './hazardRegimes';
+import { ArrivalProcess } from './arrivalProcesses';
+import { HazardType, buildHazardModels } from './hazardTypes';
+import {
+  DEFAULT_GUILD_DISTRIBUTIONS,
+  GuildDistributions,
+  SpeciesParamRow,
+  applySpeciesTable,
+  drawFromRange,
+  speciesDispersal,
+  speciesGuilds,
+  speciesVulnerability
+} from './speciesParameters';
+
+export interface SimulationSetup {
+  ecologyParams: EcologyParams;
+  initialPopulation: number[];       // Per island in a metacommunity, island 0 first
+  config: SimulationConfig;
+  speciesNames: string[];
+  speciesParams: SpeciesParamRow[];  // Per-species values in use, in model order
+}
+
+/**
+ * Parameters needed to build a setup (a subset of the UI control parameters)
+ */
+export interface SetupParams {
+  nSpecies: number;
+  mutualisticStrength: number;
+  dispersalStrength: number;
+  competitionStrength: number;        // Plant competition, or all species on the generated network
+  animalCompetitionStrength: number;
+  plantSelfRegulation: number;
+  animalSelfRegulation: number;
+  halfSaturation: number;
+  responseExponent: number;           // Type III exponent
+  interference: number;               // Beddington-DeAngelis interference
+  hurricaneRate: number;
+  hurricaneCategories: HurricaneCategory[];  // Probabilities need not sum to 1
+  plantVulnerability: number;         // Guild multipliers of hurricane damage
+  pollinatorVulnerability: number;
+  disperserVulnerability: number;
+  traitExponent: number;              // Scaling of damage with the species trait
+  damageVariation: number;            // Per-species spread of damage around its mean (0-1)
+  damageDistribution?: DamageDistribution;  // Continuous hurricane damage, default categorical
+  hazardRegime?: HazardRegime;        // Time-varying rate and intensity, default constant
+  arrivalProcess?: ArrivalProcess;    // Timing of hurricanes, default Poisson
+  hazardTypes?: HazardType[];         // Droughts, fires, disease and the like; only enabled ones act
+  plantMigration: number;             // Guild emigration rates between islands
+  pollinatorMigration: number;
+  disperserMigration: number;
+  metacommunity?: MetacommunitySettings;  // Islands and dispersal kernel, default one island
+  hurricaneTracks?: TrackSettings;    // Storm paths across the island map, default off
+  competition?: CompetitionStructure;  // Competition model for custom networks, default uniform
+  functionalResponse?: FunctionalResponseType;  // Default Type II
+  handlingTimes?: LabeledMatrix | null;  // Per-link handling times for custom networks
+  speciesTable?: SpeciesParamRow[] | null;  // Per-species r, h and alpha, by species name
+  guildDistributions?: GuildDistributions;  // Ranges species parameters are drawn from
+  historyRetention?: number;          // Maximum history points kept, default 200,000
+}
+
+/**
+ * Build ecology parameters, initial populations and engine configuration
+ * @param params - Model and hazard parameters
+ * @param network - Bipartite network, or null for the generated ring network
+ * @param seed - Master seed; parameter draws use its 'parameters' stream
+ */
+export function buildSimulationSetup(
+  params: SetupParams,
+  network: BipartiteNetwork | null,
+  seed: number
+): SimulationSetup {
+  let modelConfig: ModelConfig;
+  let speciesNames: string[];
+  const functionalResponse = {
+    type: params.functionalResponse ?? 'typeII',
+    exponent: params.responseExponent,
+    interference: params.interference
+  };
+  
+  if (network) {
+    // Build interaction matrices from uploaded network
+    const { Y_mut, Y_comp, selfRegulation, nSpecies } = buildInteractionMatrix(
+      network,
+      {
+        m: params.mutualisticStrength,
+        d: params.dispersalStrength,
+        c: params.competitionStrength,
+        cAnimal: params.animalCompetitionStrength,
+        selfPlant: params.plantSelfRegulation,
+        selfAnimal: params.animalSelfRegulation,
+        competition: params.competition
+      }
+    );
+    
+    modelConfig = {
+      nSpecies,
+      mutualisticStrength: params.mutualisticStrength,
+      dispersalStrength: params.dispersalStrength,
+      competitionStrength: params.competitionStrength,
+      halfSaturation: params.halfSaturation,
+      functionalResponse,
+      customNetwork: {
+        Y_mut,
+        Y_comp,
+        selfRegulation
+      }
+    };
+    speciesNames = getSpeciesNames(network);
+  } else {
+    // Use random network
+    modelConfig = {
+      nSpecies: params.nSpecies,
+      mutualisticStrength: params.mutualisticStrength,
+      dispersalStrength: params.dispersalStrength,
+      competitionStrength: params.competitionStrength,
+      halfSaturation: params.halfSaturation,
+      functionalResponse
+    };
+    speciesNames = Array(params.nSpecies).fill(0).map((_, i) => `Species ${i + 1}`);
+  }
+  
+  // Parameter draws and hazard timing use independent streams of the same seed
+  const streams = createRandomStreams(seed);
+  const guilds = speciesGuilds(network, speciesNames.length);
+  const distributions = params.guildDistributions ?? DEFAULT_GUILD_DISTRIBUTIONS;
+  const { params: drawn, initialPopulation } = createEcologyParams(
+    { ...modelConfig, guilds, guildDistributions: distributions },
+    streams.parameters
+  );
+  const drawnTraits = guilds.map(guild => ({
+    vulnerability: drawFromRange(distributions[guild].vulnerability, streams.parameters),
+    trait: drawFromRange(distributions[guild].trait, streams.parameters),
+    dispersal: drawFromRange(distributions[guild].dispersal, streams.parameters)
+  }));
+  
+  // Table values replace the draws but leave the initial populations unchanged
+  const ecologyParams = { ...drawn, r: [...drawn.r], h: [...drawn.h], alpha: [...drawn.alpha] };
+  if (params.speciesTable) {
+    applySpeciesTable(speciesNames, params.speciesTable, ecologyParams);
+  }
+  
+  // Handling times default to each species' final h, drawn or from the table
+  if (network && params.handlingTimes) {
+    ecologyParams.handling = buildHandlingMatrix(network, params.handlingTimes, ecologyParams.h);
+  }
+  
+  // Without a table the drawn values act as one
+  const table = params.speciesTable ?? speciesNames.map((name, i) => ({
+    name,
+    guild: guilds[i],
+    r: drawn.r[i],
+    h: drawn.h[i],
+    alpha: drawn.alpha[i],
+    ...drawnTraits[i]
+  }));
+  const vulnerability = speciesVulnerability(
+    speciesNames,
+    guilds,
+    table,
+    {
+      plant: params.plantVulnerability,
+      pollinator: params.pollinatorVulnerability,
+      disperser: params.disperserVulnerability
+    },
+    params.traitExponent
+  );
+  const rows = new Map(table.map(row => [row.name, row]));
+  const speciesParams = speciesNames.map((name, i) => ({
+    name,
+    guild: guilds[i],
+    r: ecologyParams.r[i],
+    h: ecologyParams.h[i],
+    alpha: ecologyParams.alpha[i],
+    vulnerability: rows.get(name)?.vulnerability ?? 1,
+    trait: rows.get(name)?.trait ?? 1,
+    dispersal: rows.get(name)?.dispersal ?? 1
+  }));
+  
+  // Further islands draw their own initial populations after all other draws
+  const settings = params.metacommunity;
+  let metacommunity: Metacommunity | undefined;
+  let tracks: TrackModel | undefined;
+  const populations = [...initialPopulation];
+  if (settings && settings.islands > 1) {
+    metacommunity = {
+      islands: settings.islands,
+      nSpecies: speciesNames.length,
+      dispersal: speciesDispersal(speciesNames, guilds, table, {
+        plant: params.plantMigration,
+        pollinator: params.pollinatorMigration,
+        disperser: params.disperserMigration
+      }),
+      kernel: buildDispersalKernel(settings),
+      islandNames: islandNames(settings),
+      sites: islandSites(settings)
+    };
+    const trackSettings = params.hurricaneTracks;
+    if (trackSettings?.enabled) {
+      tracks = {
+        sites: metacommunity.sites,
+        radius: trackSettings.radius,
+        heading: trackSettings.heading,
+        headingSpread: trackSettings.headingSpread,
+        exposure: islandExposure(metacommunity.sites, trackSettings)
+      };
+    }
+    for (let k = 1; k < settings.islands; k++) {
+      populations.push(...initializePopulations(speciesNames.length, streams.parameters));
+    }
+  }
+  
+  return {
+    ecologyParams,
+    initialPopulation: populations,
+    config: {
+      hurricaneRate: params.hurricaneRate,
+      hurricaneCategories: normalizeCategories(params.hurricaneCategories),
+      extinctionThreshold: 0.01,
+      timeStep: 0.01,
+      solver: 'auto',
+      relTol: 1e-6,
+      absTol: 1e-9,
+      seed,
+      vulnerability,
+      damageVariation: params.damageVariation,
+      damageDistribution: params.damageDistribution,
+      hazardRegime: params.hazardRegime,
+      arrivalProcess: params.arrivalProcess,
+      hazards: buildHazardModels(params.hazardTypes ?? [], guilds),
+      metacommunity,
+      tracks,
+      historyRetention: params.historyRetention
+    },
+    speciesNames,
+    speciesParams
+  };
+}
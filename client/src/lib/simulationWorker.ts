@@ -0,0 +1,195 @@
+/**
+ * Web Worker hosting the simulation engine
+ * Streams incremental state deltas so the main thread never copies history.
+ * Batch jobs such as ensembles, parameter sweeps and null model tests run here too, reporting progress by job id.
+ */
+
+import { SimulationEngine, StateCursor } from './simulationEngine';
+import { ecoDynamics, ecoJacobian } from './ecologyModel';
+import { WorkerRequest, WorkerResponse } from './simulationProtocol';
+import { HistoryChunk } from './historyStore';
+import { runEnsemble } from './ensembleRunner';
+import { runParameterSweep } from './parameterSweep';
+import { runNullModelTest } from './nullModels';
+
+// Milliseconds between batches of steps while running
+const TICK_INTERVAL = 16;
+
+const ctx = self as unknown as Worker;
+
+let engine: SimulationEngine | null = null;
+let cursor: StateCursor = { history: 0, hurricanes: 0, hazards: 0, extinctions: 0, recolonizations: 0 };
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// Ids of batch jobs still running; cancelling removes the id
+const runningBatches = new Set<number>();
+
+function post(message: WorkerResponse, transfer: Transferable[] = []): void {
+  ctx.postMessage(message, transfer);
+}
+
+/**
+ * Buffers of a freshly copied history chunk, safe to hand over to the main thread
+ */
+function chunkBuffers(chunk: HistoryChunk): Transferable[] {
+  return [chunk.t.buffer, ...chunk.y.map(column => column.buffer)];
+}
+
+function stopLoop(): void {
+  if (timer !== null) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
+
+function postSnapshot(): void {
+  if (!engine) return;
+  const state = engine.getState();
+  const store = engine.getHistory();
+  const history = store.since(0);
+  cursor = {
+    history: store.totalPushed,
+    hurricanes: state.hurricanes.length,
+    hazards: state.hazards.length,
+    extinctions: state.extinctions.length,
+    recolonizations: state.recolonizations.length
+  };
+  post(
+    { type: 'snapshot', state, config: engine.getConfig(), history },
+    chunkBuffers(history)
+  );
+}
+
+function postDelta(): void {
+  if (!engine) return;
+  const delta = engine.getDelta(cursor);
+  cursor = delta.cursor;
+  post({ type: 'delta', delta }, chunkBuffers(delta.history));
+}
+
+function runLoop(stepDuration: number, stepsPerTick: number): void {
+  stopLoop();
+  const tick = () => {
+    if (!engine) return;
+    try {
+      for (let i = 0; i < stepsPerTick; i++) {
+        engine.step(stepDuration);
+      }
+    } catch (err) {
+      timer = null;
+      post({ type: 'error', message: (err as Error).message });
+      return;
+    }
+    postDelta();
+    timer = setTimeout(tick, TICK_INTERVAL);
+  };
+  tick();
+}
+
+/**
+ * Run a batch job that yields between runs, posting its progress and result
+ */
+function startBatch(
+  id: number,
+  work: (
+    onProgress: (completed: number, total: number) => void,
+    shouldCancel: () => boolean
+  ) => Promise<WorkerResponse>
+): void {
+  runningBatches.add(id);
+  work(
+    (completed, total) => post({ type: 'batchProgress', id, completed, total }),
+    () => !runningBatches.has(id)
+  )
+    .then(response => post(response))
+    .catch(err => post({ type: 'batchError', id, message: (err as Error).message }))
+    .finally(() => runningBatches.delete(id));
+}
+
+function handle(message: WorkerRequest): void {
+  switch (message.type) {
+    case 'init': {
+      // A running loop carries on with the new engine
+      const { ecologyParams, initialPopulation, config } = message.setup;
+      engine = new SimulationEngine(
+        ecoDynamics,
+        ecologyParams,
+        initialPopulation,
+        config,
+        ecoJacobian
+      );
+      postSnapshot();
+      break;
+    }
+    case 'run':
+      runLoop(message.stepDuration, message.stepsPerTick);
+      break;
+    case 'step':
+      engine?.step(message.duration);
+      postDelta();
+      break;
+    case 'pause':
+      stopLoop();
+      break;
+    case 'reset':
+      stopLoop();
+      engine?.reset(message.initialPopulation);
+      postSnapshot();
+      break;
+    case 'updateParams':
+      if (message.ecologyParams) engine?.updateParams(message.ecologyParams);
+      if (message.config) engine?.updateConfig(message.config);
+      break;
+    case 'snapshot':
+      postSnapshot();
+      break;
+    case 'runEnsemble': {
+      const { id, setup, config } = message;
+      startBatch(id, async (onProgress, shouldCancel) => ({
+        type: 'ensembleResult',
+        id,
+        summary: await runEnsemble(
+          ecoDynamics,
+          setup.ecologyParams,
+          setup.initialPopulation,
+          setup.config,
+          config,
+          ecoJacobian,
+          onProgress,
+          shouldCancel
+        )
+      }));
+      break;
+    }
+    case 'runSweep': {
+      const { id, base, network, config } = message;
+      startBatch(id, async (onProgress, shouldCancel) => ({
+        type: 'sweepResult',
+        id,
+        result: await runParameterSweep(base, network, config, onProgress, shouldCancel)
+      }));
+      break;
+    }
+    case 'runNullModels': {
+      const { id, network, config, params } = message;
+      startBatch(id, async (onProgress, shouldCancel) => ({
+        type: 'nullModelResult',
+        id,
+        result: await runNullModelTest(network, config, params, onProgress, shouldCancel)
+      }));
+      break;
+    }
+    case 'cancelBatch':
+      runningBatches.delete(message.id);
+      break;
+  }
+}
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  try {
+    handle(event.data);
+  } catch (err) {
+    stopLoop();
+    post({ type: 'error', message: (err as Error).message });
+  }
+};
@@ -0,0 +1,245 @@
+/**
+ * Per-species growth rates, half-saturation constants, self-regulation,
+ * hurricane vulnerability and dispersal between islands
+ */
+
+import { BipartiteNetwork, alignNetworkLayers, parseLabeledCSV } from './networkBuilder';
+import { RandomSource } from './random';
+
+export type Guild = 'plant' | 'pollinator' | 'disperser';
+
+export const GUILD_LABELS: Record<Guild, string> = {
+  plant: 'Plants',
+  pollinator: 'Pollinators',
+  disperser: 'Seed dispersers'
+};
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface GuildDistribution {
+  r: Range;       // Intrinsic growth rate; negative for obligate mutualists
+  h: Range;       // Multiplier of the half-saturation slider
+  alpha: Range;   // Multiplier of the self-regulation slider
+  vulnerability: Range;  // Multiplier of hurricane damage
+  trait: Range;   // Trait scaling hurricane damage, e.g. body size or canopy height
+  dispersal: Range;  // Multiplier of the guild's migration rate between islands
+}
+
+export type GuildDistributions = Record<Guild, GuildDistribution>;
+
+export interface SpeciesParamRow {
+  name: string;
+  guild: Guild;
+  r: number;
+  h: number;
+  alpha: number;
+  vulnerability: number;
+  trait: number;
+  dispersal: number;
+}
+
+export const SPECIES_PARAM_KEYS = ['r', 'h', 'alpha', 'vulnerability', 'trait', 'dispersal'] as const;
+
+export type SpeciesParamKey = typeof SPECIES_PARAM_KEYS[number];
+
+const DEFAULT_DISTRIBUTION: GuildDistribution = {
+  r: { min: 0.1, max: 0.5 },
+  h: { min: 1, max: 1 },
+  alpha: { min: 1, max: 1 },
+  vulnerability: { min: 1, max: 1 },
+  trait: { min: 1, max: 1 },
+  dispersal: { min: 1, max: 1 }
+};
+
+export const DEFAULT_GUILD_DISTRIBUTIONS: GuildDistributions = {
+  plant: DEFAULT_DISTRIBUTION,
+  pollinator: DEFAULT_DISTRIBUTION,
+  disperser: DEFAULT_DISTRIBUTION
+};
+
+/**
+ * Guild of each species in model order (plants, then animals)
+ * Animals are pollinators or dispersers by the layer where they have more
+ * links, pollinators on ties. Without a network every species is a plant.
+ */
+export function speciesGuilds(network: BipartiteNetwork | null, nSpecies: number): Guild[] {
+  if (!network) return Array(nSpecies).fill('plant');
+  
+  const { plants, animals, B, S } = alignNetworkLayers(network);
+  const degree = (layer: number[][] | null, j: number) =>
+    layer ? layer.reduce((sum, row) => sum + (row[j] > 0 ? 1 : 0), 0) : 0;
+  
+  return [
+    ...plants.map((): Guild => 'plant'),
+    ...animals.map((_, j): Guild => (degree(S, j) > degree(B, j) ? 'disperser' : 'pollinator'))
+  ];
+}
+
+/**
+ * Draw a value uniformly from a range
+ * A range of one value is returned without a draw, so fixed parameters
+ * leave the random stream untouched.
+ */
+export function drawFromRange({ min, max }: Range, random: RandomSource): number {
+  return min === max ? min : min + random() * (max - min);
+}
+
+/**
+ * Check that a row can be used by the model
+ */
+export function validateRow(row: SpeciesParamRow): void {
+  if (!SPECIES_PARAM_KEYS.every(key => Number.isFinite(row[key]))) {
+    throw new Error(`Parameters of "${row.name}" must be numbers`);
+  }
+  if (row.h < 0) {
+    throw new Error(`Half-saturation of "${row.name}" must be non-negative`);
+  }
+  if (row.alpha <= 0) {
+    throw new Error(`Self-regulation of "${row.name}" must be positive`);
+  }
+  if (row.vulnerability < 0) {
+    throw new Error(`Vulnerability of "${row.name}" must be non-negative`);
+  }
+  if (row.trait <= 0) {
+    throw new Error(`Trait of "${row.name}" must be positive`);
+  }
+  if (row.dispersal < 0) {
+    throw new Error(`Dispersal of "${row.name}" must be non-negative`);
+  }
+}
+
+/**
+ * Replace table values with those of a CSV file
+ * Columns are matched by header (r, h, alpha, vulnerability, trait,
+ * dispersal) and rows by species name, or
+ * by position when the file has no names. Columns or species not in the
+ * file keep their current values.
+ */
+export function parseSpeciesTableCSV(
+  csvText: string,
+  table: SpeciesParamRow[]
+): SpeciesParamRow[] {
+  const { matrix, rowNames, colNames } = parseLabeledCSV(csvText);
+  if (!colNames) {
+    throw new Error('Species table needs a header row naming its columns');
+  }
+  
+  const columns = SPECIES_PARAM_KEYS.map(key =>
+    colNames.findIndex(name => name.trim().toLowerCase() === key.toLowerCase())
+  );
+  if (columns.every(c => c < 0)) {
+    throw new Error(`Species table has none of the columns ${SPECIES_PARAM_KEYS.join(', ')}`);
+  }
+  
+  if (!rowNames && matrix.length !== table.length) {
+    throw new Error(
+      `Species table has ${matrix.length} rows but the model has ${table.length} species`
+    );
+  }
+  const index = new Map(table.map((row, i) => [row.name, i]));
+  const result = table.map(row => ({ ...row }));
+  
+  matrix.forEach((values, k) => {
+    const i = rowNames ? index.get(rowNames[k]) : k;
+    if (i === undefined) {
+      throw new Error(`Species "${rowNames![k]}" is not in the model`);
+    }
+    SPECIES_PARAM_KEYS.forEach((key, c) => {
+      if (columns[c] >= 0) result[i][key] = values[columns[c]];
+    });
+  });
+  
+  result.forEach(validateRow);
+  return result;
+}
+
+/**
+ * Write a table as CSV that parseSpeciesTableCSV reads back
+ */
+export function speciesTableToCSV(table: SpeciesParamRow[]): string {
+  const quote = (name: string) => (/[",;\t\n]/.test(name) ? `"${name.replace(/"/g, '""')}"` : name);
+  return [
+    ['species', ...SPECIES_PARAM_KEYS].join(','),
+    ...table.map(row => [quote(row.name), ...SPECIES_PARAM_KEYS.map(key => row[key])].join(','))
+  ].join('\n');
+}
+
+/**
+ * Check that every value of the guild ranges can be used by the model
+ */
+export function validateGuildDistributions(distributions: GuildDistributions): void {
+  (Object.keys(distributions) as Guild[]).forEach(guild => {
+    (['min', 'max'] as const).forEach(bound => {
+      const values = distributions[guild];
+      const row = { name: GUILD_LABELS[guild], guild } as SpeciesParamRow;
+      SPECIES_PARAM_KEYS.forEach(key => {
+        row[key] = values[key][bound];
+      });
+      validateRow(row);
+    });
+  });
+}
+
+/**
+ * Overwrite drawn parameters with table values, matching species by name
+ * Species not in the table keep their values.
+ */
+export function applySpeciesTable(
+  names: string[],
+  table: SpeciesParamRow[],
+  params: { r: number[]; h: number[]; alpha: number[] }
+): void {
+  const rows = new Map(table.map(row => [row.name, row]));
+  names.forEach((name, i) => {
+    const row = rows.get(name);
+    if (!row) return;
+    validateRow(row);
+    params.r[i] = row.r;
+    params.h[i] = row.h;
+    params.alpha[i] = row.alpha;
+  });
+}
+
+/**
+ * Hurricane damage multiplier of each species
+ * The product of the guild multiplier, the species' own vulnerability and
+ * (trait / mean trait)^traitExponent, so a positive exponent makes species
+ * with large traits suffer more. Species without a table row use 1 for
+ * their vulnerability and the mean trait.
+ */
+export function speciesVulnerability(
+  names: string[],
+  guilds: Guild[],
+  table: SpeciesParamRow[] | null,
+  guildMultipliers: Record<Guild, number>,
+  traitExponent: number
+): number[] {
+  const rows = new Map((table ?? []).map(row => [row.name, row]));
+  const traits = names.map(name => rows.get(name)?.trait);
+  const known = traits.filter((t): t is number => t !== undefined);
+  const meanTrait = known.length > 0 ? known.reduce((sum, t) => sum + t, 0) / known.length : 1;
+  
+  return names.map((name, i) => {
+    const own = rows.get(name)?.vulnerability ?? 1;
+    const traitFactor = ((traits[i] ?? meanTrait) / meanTrait) ** traitExponent;
+    return guildMultipliers[guilds[i]] * own * traitFactor;
+  });
+}
+
+/**
+ * Emigration rate of each species between islands
+ * The guild's migration rate times the species' own dispersal multiplier,
+ * 1 for species without a table row.
+ */
+export function speciesDispersal(
+  names: string[],
+  guilds: Guild[],
+  table: SpeciesParamRow[] | null,
+  guildRates: Record<Guild, number>
+): number[] {
+  const rows = new Map((table ?? []).map(row => [row.name, row]));
+  return names.map((name, i) => guildRates[guilds[i]] * (rows.get(name)?.dispersal ?? 1));
+}
@@ -1,13 +1,46 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import ControlPanel, { ControlParams } from '@/components/ControlPanel';
 import SimulationChart from '@/components/SimulationChart';
 import SimulationStatus from '@/components/SimulationStatus';
 import NetworkUpload from '@/components/NetworkUpload';
 import NetworkVisualization from '@/components/NetworkVisualization';
-import { SimulationEngine, HurricaneCategory } from '@/lib/simulationEngine';
-import { ecoDynamicsTypeII, createEcologyParams, ModelConfig } from '@/lib/ecologyModel';
-import { BipartiteNetwork, buildInteractionMatrix } from '@/lib/networkBuilder';
+import NetworkGenerator from '@/components/NetworkGenerator';
+import EnsemblePanel, { EnsembleSettings } from '@/components/EnsemblePanel';
+import StabilityPanel from '@/components/StabilityPanel';
+import ParameterSweepPanel, { SweepSettings } from '@/components/ParameterSweepPanel';
+import NullModelPanel, { NullModelSettings } from '@/components/NullModelPanel';
+import CompetitionPanel from '@/components/CompetitionPanel';
+import SpeciesParameterPanel from '@/components/SpeciesParameterPanel';
+import MetacommunityPanel from '@/components/MetacommunityPanel';
+import IslandSummary from '@/components/IslandSummary';
+import ArchipelagoMap from '@/components/ArchipelagoMap';
+import { SetupParams, SimulationSetup, buildSimulationSetup } from '@/lib/simulationSetup';
+import { FunctionalResponseType } from '@/lib/ecologyModel';
+import { BipartiteNetwork, CompetitionStructure, LabeledMatrix } from '@/lib/networkBuilder';
 import { generateDefaultNetwork } from '@/lib/defaultNetwork';
+import { randomSeed } from '@/lib/random';
+import { createSimulationExport, downloadJSON } from '@/lib/resultsExport';
+import { EnsembleSummary } from '@/lib/ensembleRunner';
+import { EquilibriumReport, findEquilibria } from '@/lib/equilibriumAnalysis';
+import { computeNetworkMetrics } from '@/lib/networkMetrics';
+import { DEFAULT_GUILD_DISTRIBUTIONS, GuildDistributions, SpeciesParamRow } from '@/lib/speciesParameters';
+import { HurricaneCategory } from '@/lib/simulationEngine';
+import { DEFAULT_CATEGORIES } from '@/lib/hurricaneCategories';
+import { DEFAULT_HISTORY_RETENTION } from '@/lib/historyStore';
+import { DEFAULT_DAMAGE_DISTRIBUTION, DamageDistribution } from '@/lib/damageDistributions';
+import {
+  DEFAULT_METACOMMUNITY,
+  MetacommunitySettings,
+  regionalPopulations,
+  regionallyExtinct
+} from '@/lib/metacommunity';
+import { DEFAULT_TRACK_SETTINGS, IslandSite, TrackSettings } from '@/lib/hurricaneTracks';
+import { DEFAULT_HAZARD_REGIME, HazardRegime } from '@/lib/hazardRegimes';
+import { ArrivalProcess, DEFAULT_ARRIVAL_PROCESS } from '@/lib/arrivalProcesses';
+import { DEFAULT_HAZARD_TYPES, HazardType } from '@/lib/hazardTypes';
+import { NetworkLayer, NullModelResult } from '@/lib/nullModels';
+import { SWEEP_RANGES, SweepParam, SweepResult } from '@/lib/parameterSweep';
+import { useSimulationWorker } from '@/hooks/useSimulationWorker';
 
 export default function Home() {
   // Control parameters
@@ -16,233 +49,223 @@ export default function Home() {
     mutualisticStrength: 0.5,
     dispersalStrength: 0.5,
     competitionStrength: -0.1,
+    animalCompetitionStrength: -0.1,
+    plantSelfRegulation: 1,
+    animalSelfRegulation: 1,
     halfSaturation: 0.5,
+    responseExponent: 2,
+    interference: 0.5,
     hurricaneRate: 0.30,
-    cat1Prob: 0.4,
-    cat1Damage: 0.1,
-    cat2Prob: 0.3,
-    cat2Damage: 0.5,
-    cat3Prob: 0.3,
-    cat3Damage: 0.8,
-    simulationSpeed: 1.0
+    plantVulnerability: 1,
+    pollinatorVulnerability: 1,
+    disperserVulnerability: 1,
+    traitExponent: 0,
+    damageVariation: 0,
+    plantMigration: 0.01,
+    pollinatorMigration: 0.05,
+    disperserMigration: 0.05,
+    simulationSpeed: 1.0,
+    historyRetention: DEFAULT_HISTORY_RETENTION
   });
 
   const [customNetwork, setCustomNetwork] = useState<BipartiteNetwork>(() => generateDefaultNetwork());
   const [useCustomNetwork, setUseCustomNetwork] = useState(true); // Start with default network
+  const [usingDefaultNetwork, setUsingDefaultNetwork] = useState(true);
+  const [seed, setSeed] = useState<number>(() => randomSeed());
+  const [competition, setCompetition] = useState<CompetitionStructure>({ model: 'uniform' });
+  const [functionalResponse, setFunctionalResponse] = useState<FunctionalResponseType>('typeII');
+  const [handlingTimes, setHandlingTimes] = useState<LabeledMatrix | null>(null);
+  const [speciesTable, setSpeciesTable] = useState<SpeciesParamRow[] | null>(null);
+  const [guildDistributions, setGuildDistributions] = useState<GuildDistributions>(DEFAULT_GUILD_DISTRIBUTIONS);
+  const [hurricaneCategories, setHurricaneCategories] = useState<HurricaneCategory[]>(DEFAULT_CATEGORIES);
+  const [damageDistribution, setDamageDistribution] = useState<DamageDistribution>(DEFAULT_DAMAGE_DISTRIBUTION);
+  const [hazardRegime, setHazardRegime] = useState<HazardRegime>(DEFAULT_HAZARD_REGIME);
+  const [arrivalProcess, setArrivalProcess] = useState<ArrivalProcess>(DEFAULT_ARRIVAL_PROCESS);
+  const [hazardTypes, setHazardTypes] = useState<HazardType[]>(DEFAULT_HAZARD_TYPES);
+  const [metacommunity, setMetacommunity] = useState<MetacommunitySettings>(DEFAULT_METACOMMUNITY);
+  const [hurricaneTracks, setHurricaneTracks] = useState<TrackSettings>(DEFAULT_TRACK_SETTINGS);
+
+  // Parameters passed to setup builders, sweeps and null models
+  const setupParams: SetupParams = useMemo(
+    () => ({
+      ...params,
+      hurricaneCategories,
+      damageDistribution,
+      hazardRegime,
+      arrivalProcess,
+      hazardTypes,
+      competition,
+      functionalResponse,
+      handlingTimes,
+      speciesTable,
+      guildDistributions,
+      metacommunity,
+      hurricaneTracks
+    }),
+    [
+      params,
+      hurricaneCategories,
+      damageDistribution,
+      hazardRegime,
+      arrivalProcess,
+      hazardTypes,
+      competition,
+      functionalResponse,
+      handlingTimes,
+      speciesTable,
+      guildDistributions,
+      metacommunity,
+      hurricaneTracks
+    ]
+  );
 
   const [isRunning, setIsRunning] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [populations, setPopulations] = useState<number[]>([]);
-  const [history, setHistory] = useState<Array<{ t: number; y: number[] }>>([]);
-  const [hurricanes, setHurricanes] = useState<any[]>([]);
-  const [extinctSpecies, setExtinctSpecies] = useState<Set<number>>(new Set());
   const [actualNSpecies, setActualNSpecies] = useState<number>(9); // Track actual species count
+  const [speciesNames, setSpeciesNames] = useState<string[]>([]);
+  const [speciesRows, setSpeciesRows] = useState<SpeciesParamRow[]>([]);
+  const [islandNames, setIslandNames] = useState<string[]>([]);  // Empty for a single community
+  const [islandSites, setIslandSites] = useState<IslandSite[]>([]);
+  const [islandView, setIslandView] = useState<number | null>(null);  // Island in the chart, null for regional
   const [networkVersion, setNetworkVersion] = useState<number>(0); // Force re-init on network change
+  const [ensemble, setEnsemble] = useState<EnsembleSummary | null>(null);
+  const [ensembleProgress, setEnsembleProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [equilibria, setEquilibria] = useState<EquilibriumReport[] | null>(null);
+  const [sweep, setSweep] = useState<SweepResult | null>(null);
+  const [sweepProgress, setSweepProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [nullResult, setNullResult] = useState<NullModelResult | null>(null);
+  const [nullProgress, setNullProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  // Structure metrics are costly; computed once here and shared with the network panels
+  const networkMetrics = useMemo(
+    () => (useCustomNetwork ? computeNetworkMetrics(customNetwork) : null),
+    [useCustomNetwork, customNetwork]
+  );
+
+  const networkLayers: NetworkLayer[] = [
+    ...(customNetwork.B ? ['B' as const] : []),
+    ...(customNetwork.S ? ['S' as const] : []),
+    ...(customNetwork.B && customNetwork.S ? ['combined' as const] : [])
+  ];
+
+  // The engine runs in a worker; its state is mirrored here
+  const simulation = useSimulationWorker();
+  const {
+    time: currentTime,
+    populations,
+    history,
+    historyVersion,
+    hurricanes,
+    hazards,
+    extinctions,
+    recolonizations,
+    extinctSpecies
+  } = simulation.state;
+  const {
+    init: initWorker,
+    run: runWorker,
+    pause: pauseWorker,
+    runEnsemble,
+    cancelEnsemble,
+    runSweep,
+    cancelSweep,
+    runNullModels,
+    cancelNullModels
+  } = simulation;
+
+  // Null model results belong to the previous network
+  useEffect(() => {
+    cancelNullModels();
+    setNullResult(null);
+  }, [customNetwork, cancelNullModels]);
+
+  // Species totals over all islands; the same as the populations for one community
+  const islands = Math.max(1, islandNames.length);
+  const regional = useMemo(
+    () => (islands > 1 && populations.length === islands * actualNSpecies
+      ? {
+        populations: regionalPopulations(populations, actualNSpecies),
+        extinctSpecies: regionallyExtinct(extinctSpecies, actualNSpecies, islands)
+      }
+      : { populations, extinctSpecies }),
+    [islands, populations, extinctSpecies, actualNSpecies]
+  );
 
-  const engineRef = useRef<SimulationEngine | null>(null);
-  const animationRef = useRef<number | null>(null);
-  const lastTimeRef = useRef<number>(0);
+  const setupRef = useRef<SimulationSetup | null>(null);
 
   // Initialize simulation engine
   const initializeEngine = useCallback(() => {
-    let modelConfig: ModelConfig;
-    
-    if (useCustomNetwork && customNetwork) {
-      // Build interaction matrices from uploaded network
-      const { Y_mut, Y_comp, nSpecies } = buildInteractionMatrix(
-        customNetwork,
-        {
-          m: params.mutualisticStrength,
-          d: params.dispersalStrength,
-          c: params.competitionStrength
-        }
-      );
-      
-      modelConfig = {
-        nSpecies,
-        mutualisticStrength: params.mutualisticStrength,
-        dispersalStrength: params.dispersalStrength,
-        competitionStrength: params.competitionStrength,
-        halfSaturation: params.halfSaturation,
-        customNetwork: { Y_mut, Y_comp }
-      };
-    } else {
-      // Use random network
-      modelConfig = {
-        nSpecies: params.nSpecies,
-        mutualisticStrength: params.mutualisticStrength,
-        dispersalStrength: params.dispersalStrength,
-        competitionStrength: params.competitionStrength,
-        halfSaturation: params.halfSaturation
-      };
-    }
-
-    const { params: ecologyParams, initialPopulation } = createEcologyParams(modelConfig);
-    
-    // Update actual species count
-    setActualNSpecies(modelConfig.nSpecies);
-
-    // Normalize hurricane probabilities
-    const totalProb = params.cat1Prob + params.cat2Prob + params.cat3Prob;
-    const hurricaneCategories: HurricaneCategory[] = [
-      {
-        name: 'Category 1',
-        probability: totalProb > 0 ? params.cat1Prob / totalProb : 0.33,
-        damage: params.cat1Damage
-      },
-      {
-        name: 'Category 2',
-        probability: totalProb > 0 ? params.cat2Prob / totalProb : 0.33,
-        damage: params.cat2Damage
-      },
-      {
-        name: 'Category 3',
-        probability: totalProb > 0 ? params.cat3Prob / totalProb : 0.34,
-        damage: params.cat3Damage
-      }
-    ];
-
-    const engine = new SimulationEngine(
-      ecoDynamicsTypeII,
-      ecologyParams,
-      initialPopulation,
-      {
-        hurricaneRate: params.hurricaneRate,
-        hurricaneCategories,
-        extinctionThreshold: 0.01,
-        timeStep: 0.01
-      }
+    const setup = buildSimulationSetup(
+      setupParams,
+      useCustomNetwork ? customNetwork : null,
+      seed
     );
 
-    engineRef.current = engine;
-
-    // Update state with initial values
-    const state = engine.getState();
-    setCurrentTime(state.time);
-    setPopulations(state.populations);
-    setHistory(state.history);
-    setHurricanes(state.hurricanes);
-    setExtinctSpecies(state.extinctSpecies);
-  }, [params, useCustomNetwork, networkVersion]); // customNetwork removed - tracked by networkVersion
+    // Update actual species count
+    setActualNSpecies(setup.speciesNames.length);
+    setSpeciesNames(setup.speciesNames);
+    setSpeciesRows(setup.speciesParams);
+    const names = setup.config.metacommunity?.islandNames ?? [];
+    setIslandNames(names);
+    setIslandSites(setup.config.metacommunity?.sites ?? []);
+    setIslandView(prev => (prev !== null && prev < names.length ? prev : null));
+
+    setupRef.current = setup;
+    initWorker(setup);
+
+    // Ensemble results belong to the previous parameters
+    cancelEnsemble();
+    setEnsemble(null);
+    setEquilibria(null);
+  }, [setupParams, useCustomNetwork, networkVersion, seed, initWorker, cancelEnsemble]); // customNetwork removed - tracked by networkVersion
 
   // Initialize on mount and when key parameters change
   useEffect(() => {
     initializeEngine();
   }, [initializeEngine]);
 
+  // Custom competition matrices, handling times and species tables belong to the previous network
+  const resetNetworkInputs = () => {
+    setCompetition(prev => (prev.model === 'custom' ? { model: 'uniform' } : prev));
+    setHandlingTimes(null);
+    setSpeciesTable(null);
+  };
+
   const handleNetworkLoaded = (network: BipartiteNetwork) => {
+    resetNetworkInputs();
     setCustomNetwork(network);
+    setUsingDefaultNetwork(false);
     setUseCustomNetwork(true);
     setIsRunning(false);
-    lastTimeRef.current = 0;
     setNetworkVersion(prev => prev + 1); // Force re-initialization
   };
 
   const handleClearNetwork = () => {
+    resetNetworkInputs();
     setCustomNetwork(generateDefaultNetwork());
+    setUsingDefaultNetwork(true);
     setUseCustomNetwork(true); // Go back to default network
     setIsRunning(false);
-    lastTimeRef.current = 0;
     setNetworkVersion(prev => prev + 1); // Force re-initialization
   };
 
-  // Animation loop
+  // Run the worker loop while the simulation is running
   useEffect(() => {
     if (!isRunning) {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-        animationRef.current = null;
-      }
+      pauseWorker();
       return;
     }
 
-    const animate = (timestamp: number) => {
-      if (!lastTimeRef.current) {
-        lastTimeRef.current = timestamp;
-      }
-
-      const deltaTime = (timestamp - lastTimeRef.current) / 1000; // Convert to seconds
-      lastTimeRef.current = timestamp;
-
-      // Step simulation based on speed (divided by 5 to slow down base speed)
-      const steps = Math.max(1, Math.floor(params.simulationSpeed * 2));
-      for (let i = 0; i < steps; i++) {
-        engineRef.current?.step(0.01);
-      }
-
-      // Update state
-      if (engineRef.current) {
-        const state = engineRef.current.getState();
-        setCurrentTime(state.time);
-        setPopulations(state.populations);
-        setHistory(state.history);
-        setHurricanes(state.hurricanes);
-        setExtinctSpecies(state.extinctSpecies);
-      }
-
-      animationRef.current = requestAnimationFrame(animate);
-    };
-
-    animationRef.current = requestAnimationFrame(animate);
-
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
-  }, [isRunning, params.simulationSpeed]);
+    // Step simulation based on speed
+    const steps = Math.max(1, Math.floor(params.simulationSpeed * 2));
+    runWorker(0.01, steps);
+  }, [isRunning, params.simulationSpeed, runWorker, pauseWorker]);
 
   const handleParamChange = (param: keyof ControlParams, value: number) => {
-    setParams(prev => {
-      // Auto-adjust hurricane probabilities to sum to 1
-      if (param === 'cat1Prob' || param === 'cat2Prob' || param === 'cat3Prob') {
-        const newParams = { ...prev, [param]: value };
-        
-        // Calculate remaining probability for other categories
-        const remaining = 1 - value;
-        
-        if (param === 'cat1Prob') {
-          // Distribute remaining between cat2 and cat3 proportionally
-          const total = prev.cat2Prob + prev.cat3Prob;
-          if (total > 0) {
-            newParams.cat2Prob = (prev.cat2Prob / total) * remaining;
-            newParams.cat3Prob = (prev.cat3Prob / total) * remaining;
-          } else {
-            newParams.cat2Prob = remaining / 2;
-            newParams.cat3Prob = remaining / 2;
-          }
-        } else if (param === 'cat2Prob') {
-          // Distribute remaining between cat1 and cat3 proportionally
-          const total = prev.cat1Prob + prev.cat3Prob;
-          if (total > 0) {
-            newParams.cat1Prob = (prev.cat1Prob / total) * remaining;
-            newParams.cat3Prob = (prev.cat3Prob / total) * remaining;
-          } else {
-            newParams.cat1Prob = remaining / 2;
-            newParams.cat3Prob = remaining / 2;
-          }
-        } else if (param === 'cat3Prob') {
-          // Distribute remaining between cat1 and cat2 proportionally
-          const total = prev.cat1Prob + prev.cat2Prob;
-          if (total > 0) {
-            newParams.cat1Prob = (prev.cat1Prob / total) * remaining;
-            newParams.cat2Prob = (prev.cat2Prob / total) * remaining;
-          } else {
-            newParams.cat1Prob = remaining / 2;
-            newParams.cat2Prob = remaining / 2;
-          }
-        }
-        
-        return newParams;
-      }
-      
-      return { ...prev, [param]: value };
-    });
+    setParams(prev => ({ ...prev, [param]: value }));
   };
 
   const handleStart = () => {
     setIsRunning(true);
-    lastTimeRef.current = 0;
   };
 
   const handlePause = () => {
@@ -251,10 +274,135 @@ export default function Home() {
 
   const handleReset = () => {
     setIsRunning(false);
-    lastTimeRef.current = 0;
     initializeEngine();
   };
 
+  const handleRunEnsemble = async (settings: EnsembleSettings) => {
+    const setup = setupRef.current;
+    if (!setup) return;
+
+    setEnsemble(null);
+    setEnsembleProgress({ completed: 0, total: settings.nReplicates });
+
+    const summary = await runEnsemble(
+      setup,
+      {
+        nReplicates: settings.nReplicates,
+        duration: settings.duration,
+        baseSeed: seed,
+        sampleInterval: settings.duration / 200
+      },
+      (completed, total) => setEnsembleProgress({ completed, total })
+    );
+
+    setEnsembleProgress(null);
+    if (summary) setEnsemble(summary);
+  };
+
+  const handleExportEnsemble = () => {
+    if (!ensemble) return;
+    downloadJSON(
+      {
+        exportedAt: new Date().toISOString(),
+        parameters: setupParams,
+        speciesNames,
+        networkMetrics,
+        ensemble
+      },
+      `ensemble-seed-${seed}.json`
+    );
+  };
+
+  const handleAnalyze = () => {
+    const setup = setupRef.current;
+    if (!setup) return;
+
+    // Islands share the parameters, so start from the mean island
+    const current = populations.length > 0 ? populations : setup.initialPopulation;
+    const mean = regionalPopulations(current, setup.speciesNames.length).map(val => val / islands);
+    setEquilibria(findEquilibria(setup.ecologyParams, mean));
+  };
+
+  const handleRunSweep = async (settings: SweepSettings) => {
+    const axis = (param: SweepParam) => ({
+      param,
+      min: SWEEP_RANGES[param].min,
+      max: SWEEP_RANGES[param].max,
+      steps: settings.resolution
+    });
+
+    setSweep(null);
+    setSweepProgress({ completed: 0, total: settings.resolution * settings.resolution });
+
+    const result = await runSweep(
+      setupParams,
+      useCustomNetwork ? customNetwork : null,
+      {
+        x: axis(settings.xParam),
+        y: axis(settings.yParam),
+        duration: settings.duration,
+        replicates: settings.replicates,
+        baseSeed: seed
+      },
+      (completed, total) => setSweepProgress({ completed, total })
+    );
+
+    setSweepProgress(null);
+    if (result) setSweep(result);
+  };
+
+  const handleSelectSweepCell = (
+    x: { param: SweepParam; value: number },
+    y: { param: SweepParam; value: number }
+  ) => {
+    setIsRunning(false);
+    handleParamChange(x.param, x.value);
+    handleParamChange(y.param, y.value);
+  };
+
+  const handleRunNullModels = async (settings: NullModelSettings) => {
+    setNullResult(null);
+    setNullProgress({ completed: 0, total: settings.nNull });
+
+    const result = await runNullModels(
+      customNetwork,
+      {
+        model: settings.model,
+        layer: settings.layer,
+        metrics: settings.metrics,
+        nNull: settings.nNull,
+        seed,
+        dynamics: settings.dynamics ?? undefined
+      },
+      setupParams,
+      (completed, total) => setNullProgress({ completed, total })
+    );
+
+    setNullProgress(null);
+    if (result) setNullResult(result);
+  };
+
+  const handleSeedChange = (value: number) => {
+    setIsRunning(false);
+    setSeed(value);
+  };
+
+  const handleExport = () => {
+    const { config, history } = simulation.state;
+    if (!config || !history) return;
+
+    const data = createSimulationExport(
+      seed,
+      { ...setupParams, useCustomNetwork },
+      config,
+      simulation.state,
+      history,
+      speciesNames,
+      networkMetrics
+    );
+    downloadJSON(data, `simulation-seed-${seed}.json`);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="container mx-auto py-8 px-4">
@@ -263,7 +411,7 @@ export default function Home() {
             Lotka-Volterra Mutualistic Dynamics
           </h1>
           <p className="text-lg text-gray-600">
-            Interactive simulation with Type II functional response and natural hazards
+            Interactive simulation with mutualistic functional responses and natural hazards
           </p>
         </header>
 
@@ -273,6 +421,16 @@ export default function Home() {
             <NetworkUpload
               onNetworkLoaded={handleNetworkLoaded}
               onClear={handleClearNetwork}
+              usingDefault={usingDefaultNetwork}
+              activeNetwork={customNetwork}
+              networkMetrics={networkMetrics}
+            />
+
+            <NetworkGenerator
+              seed={seed}
+              onGenerate={handleNetworkLoaded}
+              activeNetwork={customNetwork}
+              networkMetrics={networkMetrics}
             />
             
             {/* Simulation Controls */}
@@ -302,6 +460,12 @@ export default function Home() {
                 </button>
               </div>
               
+              {simulation.error && (
+                <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200 mb-3">
+                  Simulation error: {simulation.error}
+                </div>
+              )}
+
               {useCustomNetwork && (
                 <div className="text-sm text-green-700 bg-green-50 p-2 rounded mb-3">
                   ✓ Using custom network from uploaded matrices
@@ -322,6 +486,39 @@ export default function Home() {
                   className="w-full"
                 />
               </div>
+
+              <div className="mt-3">
+                <label htmlFor="seed" className="text-sm font-medium">
+                  Random Seed
+                </label>
+                <div className="flex gap-2 mt-1">
+                  <input
+                    id="seed"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={seed}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value);
+                      if (!isNaN(value)) handleSeedChange(value);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm border rounded bg-white"
+                  />
+                  <button
+                    onClick={() => handleSeedChange(randomSeed())}
+                    className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300 transition"
+                  >
+                    New
+                  </button>
+                </div>
+              </div>
+
+              <button
+                onClick={handleExport}
+                className="w-full mt-3 px-4 py-2 text-sm bg-gray-700 text-white rounded hover:bg-gray-800 transition"
+              >
+                Download Results (JSON)
+              </button>
             </div>
             
             {/* Hurricane Legend */}
@@ -332,18 +529,12 @@ export default function Home() {
                   <span className="text-base">🌀</span>
                   <span className="text-gray-600">Hurricane event</span>
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-6 h-0.5 bg-yellow-400" />
-                  <span className="text-gray-600">Category 1</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-6 h-0.5 bg-orange-500" />
-                  <span className="text-gray-600">Category 2</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-6 h-0.5 bg-red-600" />
-                  <span className="text-gray-600">Category 3</span>
-                </div>
+                {hurricaneCategories.map((cat, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <div className="w-6 h-0.5" style={{ backgroundColor: cat.color }} />
+                    <span className="text-gray-600">{cat.name}</span>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -357,8 +548,8 @@ export default function Home() {
                 <div className="w-full" style={{ height: '250px' }}>
                   <NetworkVisualization
                     network={customNetwork}
-                    extinctSpecies={extinctSpecies}
-                    populations={populations}
+                    extinctSpecies={regional.extinctSpecies}
+                    populations={regional.populations}
                   />
                 </div>
               </div>
@@ -366,13 +557,24 @@ export default function Home() {
             
             {/* Chart */}
             <div className="bg-white p-4 rounded-lg border shadow-lg">
-              <h3 className="text-lg font-semibold mb-3">Population Dynamics</h3>
+              <h3 className="text-lg font-semibold mb-3">
+                Population Dynamics
+                {islands > 1 && ` — ${islandView === null ? 'Regional totals' : islandNames[islandView]}`}
+              </h3>
               <div className="w-full" style={{ height: '400px' }}>
                 <SimulationChart
                   history={history}
+                  historyVersion={historyVersion}
                   hurricanes={hurricanes}
+                  hazards={hazards}
+                  hazardTypes={hazardTypes}
                   extinctSpecies={extinctSpecies}
                   nSpecies={actualNSpecies}
+                  speciesNames={speciesNames}
+                  ensemble={ensemble}
+                  categories={hurricaneCategories}
+                  islands={islands}
+                  island={islandView}
                 />
               </div>
             </div>
@@ -381,14 +583,91 @@ export default function Home() {
             <SimulationStatus
               currentTime={currentTime}
               hurricaneCount={hurricanes.length}
-              extinctCount={extinctSpecies.size}
+              extinctCount={regional.extinctSpecies.size}
               nSpecies={actualNSpecies}
-              populations={populations}
+              populations={regional.populations}
+            />
+
+            {islands > 1 && (
+              <IslandSummary
+                islandNames={islandNames}
+                nSpecies={actualNSpecies}
+                populations={populations}
+                extinctSpecies={extinctSpecies}
+                hurricanes={hurricanes}
+                extinctions={extinctions}
+                recolonizations={recolonizations}
+                island={islandView}
+                onSelectIsland={setIslandView}
+              />
+            )}
+
+            {islands > 1 && (
+              <div className="bg-white p-4 rounded-lg border shadow-lg">
+                <h3 className="text-lg font-semibold mb-3">Island Map</h3>
+                <div className="h-72">
+                  <ArchipelagoMap
+                    sites={islandSites}
+                    hurricanes={hurricanes}
+                    categories={hurricaneCategories}
+                    island={islandView}
+                    onSelectIsland={setIslandView}
+                  />
+                </div>
+                <p className="text-xs text-gray-600 mt-2">
+                  {hurricaneTracks.enabled
+                    ? 'Paths of the latest storms, coloured by category; the most recent is drawn boldest. Click an island to chart it.'
+                    : 'Enable hurricane tracks in the metacommunity settings to see storm paths. Click an island to chart it.'}
+                </p>
+              </div>
+            )}
+
+            <StabilityPanel
+              equilibria={equilibria}
+              speciesNames={speciesNames}
+              onAnalyze={handleAnalyze}
+            />
+
+            <SpeciesParameterPanel
+              rows={speciesRows}
+              tableApplied={speciesTable !== null}
+              distributions={guildDistributions}
+              onApply={setSpeciesTable}
+              onReset={() => setSpeciesTable(null)}
+              onDistributionsChange={setGuildDistributions}
+            />
+
+            <EnsemblePanel
+              summary={ensemble}
+              speciesNames={speciesNames}
+              progress={ensembleProgress}
+              onRun={handleRunEnsemble}
+              onCancel={cancelEnsemble}
+              onClear={() => setEnsemble(null)}
+              onExport={handleExportEnsemble}
+            />
+
+            <ParameterSweepPanel
+              result={sweep}
+              progress={sweepProgress}
+              onRun={handleRunSweep}
+              onCancel={cancelSweep}
+              onClear={() => setSweep(null)}
+              onSelectCell={handleSelectSweepCell}
+            />
+
+            <NullModelPanel
+              layers={networkLayers}
+              result={nullResult}
+              progress={nullProgress}
+              onRun={handleRunNullModels}
+              onCancel={cancelNullModels}
+              onClear={() => setNullResult(null)}
             />
           </div>
 
           {/* Right sidebar - Parameters */}
-          <div className="lg:col-span-3">
+          <div className="lg:col-span-3 space-y-4">
             <ControlPanel
               params={params}
               onParamChange={handleParamChange}
@@ -397,6 +676,37 @@ export default function Home() {
               onReset={handleReset}
               isRunning={isRunning}
               useCustomNetwork={useCustomNetwork}
+              functionalResponse={functionalResponse}
+              onFunctionalResponseChange={setFunctionalResponse}
+              network={useCustomNetwork ? customNetwork : null}
+              handlingTimes={handlingTimes}
+              onHandlingTimesChange={setHandlingTimes}
+              hurricaneCategories={hurricaneCategories}
+              onHurricaneCategoriesChange={setHurricaneCategories}
+              damageDistribution={damageDistribution}
+              onDamageDistributionChange={setDamageDistribution}
+              hazardRegime={hazardRegime}
+              onHazardRegimeChange={setHazardRegime}
+              arrivalProcess={arrivalProcess}
+              onArrivalProcessChange={setArrivalProcess}
+              hazardTypes={hazardTypes}
+              onHazardTypesChange={setHazardTypes}
+            />
+
+            <CompetitionPanel
+              network={useCustomNetwork ? customNetwork : null}
+              competition={competition}
+              onChange={setCompetition}
+            />
+
+            <MetacommunityPanel
+              settings={metacommunity}
+              onChange={setMetacommunity}
+              params={params}
+              onParamChange={handleParamChange}
+              useCustomNetwork={useCustomNetwork}
+              tracks={hurricaneTracks}
+              onTracksChange={setHurricaneTracks}
             />
           </div>
         </div>
@@ -404,7 +714,9 @@ export default function Home() {
         <footer className="mt-8 text-center text-sm text-gray-600">
           <p>
             This simulation implements a Lotka-Volterra model with mutualistic interactions
-            (Type II functional response) and stochastic natural hazard events.
+            (Type I, II, III or Beddington–DeAngelis functional response) and stochastic hurricanes, droughts,
+            fires and disease outbreaks, alone or in compound events,
+            on a single island or a metacommunity of islands linked by dispersal and crossed by storm tracks.
           </p>
         </footer>
       </div>